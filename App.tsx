@@ -1,10 +1,42 @@
-import React, { useState, useEffect } from 'react';
-import { Voter, ProcessingStatus, Party, DEFAULT_PARTIES } from './types';
+import React, { useState, useEffect, useRef, SetStateAction } from 'react';
+import { Voter, ProcessingStatus, Party, DEFAULT_PARTIES, ENGINE_LABELS, ExtractionEngineId, PageReport, PdfDocument, BoothMetadata, UsageTotals, LayoutProfileId, BatchItem, BoothResult, ExtractionMode, CloudHealth, AuditEntry, SourceFileInfo } from './types';
 import UploadZone from './components/UploadZone';
 import Dashboard from './components/Dashboard';
 import LoginScreen from './components/LoginScreen';
-import { uploadPdfToCloud } from './services/apiService';
-import { extractVotersFromImage } from './services/geminiService';
+import { convertPdfInCloud, CloudConversionOptions, probeCloudEngine } from './services/apiService';
+import { getCloudJob, saveCloudJob, clearCloudJob } from './services/cloudJobService';
+import { PageExtractionResult } from './services/extractionPipeline';
+import { openPdfFile } from './services/pdfService';
+import { startSchedulerRun, runPagesAdaptively, subscribeScheduler, SchedulerSnapshot } from './services/modelScheduler';
+import { mergePageVoters, voterChanges, withRecordIds } from './services/voterUtils';
+import { hashFile } from './services/indexedDb';
+import { ExtractionCheckpoint, loadCheckpoint, savePageCheckpoint, clearCheckpoint } from './services/checkpointService';
+import { applyBoothMetadata } from './services/coverPageService';
+import { recordCacheUsage } from './services/extractionCache';
+import PageReportPanel from './components/PageReportPanel';
+import CacheStatsPanel from './components/CacheStatsPanel';
+import UsagePanel from './components/UsagePanel';
+import { DEFAULT_PRICES, EMPTY_USAGE, PriceTable, addUsage, toStoredUsage } from './services/usageService';
+import BoothSummaryPanel from './components/BoothSummaryPanel';
+import { LAYOUT_PROFILES, DEFAULT_LAYOUT_PROFILE_ID, getLayoutProfile } from './services/layoutProfiles';
+import { markStoredPhotos } from './services/photoStore';
+import { exportPhotoBundle, importPhotoBundle, isZipFile } from './services/photoBundle';
+import { exportSessionBundle, importSessionBundle, isSessionJsonFile, SessionBundle } from './services/sessionBundle';
+import { createPageExtractor, toPageReport, extractBoothLocally, readBoothMetadata } from './services/boothExtraction';
+import {
+  listBatchItems, saveBatchItem, getBatchFile, deleteBatchFile, enqueueBatchFiles, removeBatchItem,
+  requeueInterrupted, listBoothResults, saveBoothResult, clearBatch, resolveBoothNo
+} from './services/batchService';
+import { syncFileToCloud } from './services/storageService';
+import BatchQueuePanel from './components/BatchQueuePanel';
+import CloudEnginePanel from './components/CloudEnginePanel';
+import CsvMappingWizard from './components/CsvMappingWizard';
+import {
+  CsvTable, ColumnMapping, MappingPreset, parseCSVTable, readCSVTable, autoMapColumns, missingRequiredFields, unrecognizedHeaders,
+  applyColumnMapping, findPresetFor, presetToMapping, listPresets, savePreset, createPreset, deletePreset
+} from './services/csvImport';
+import { votersToCSV, votersToCSVBlob } from './services/voterCsv';
+import { votersToXlsx, readXlsxTable, isXlsxFile } from './services/xlsxService';
 import { auth } from './services/firebase';
 import { onAuthStateChanged, signOut } from 'firebase/auth';
 
@@ -12,10 +44,39 @@ const App: React.FC = () => {
   const [isLoggedIn, setIsLoggedIn] = useState(false);
   const [userUid, setUserUid] = useState<string | null>(null);
   const [authLoading, setAuthLoading] = useState(true);
-  const [voters, setVoters] = useState<Voter[]>([]);
+  const [voters, setVoterList] = useState<Voter[]>([]);
   const [view, setView] = useState<'UPLOAD' | 'DASHBOARD'>('UPLOAD');
+  // Every record gets an id on the way in, so edits can find it (see updateVoter)
+  const setVoters = (next: SetStateAction<Voter[]>) =>
+    setVoterList(prev => withRecordIds(typeof next === 'function' ? next(prev) : next));
   const [parties, setParties] = useState<Party[]>(DEFAULT_PARTIES);
   const [concurrency, setConcurrency] = useState<number>(2); // Default to safer concurrency
+  const [pageReports, setPageReports] = useState<PageReport[]>([]);
+  const [boothMetadata, setBoothMetadata] = useState<BoothMetadata | null>(null);
+  const [schedulerSnapshot, setSchedulerSnapshot] = useState<SchedulerSnapshot | null>(null);
+  const [bypassCache, setBypassCache] = useState(false);
+  const [prices, setPrices] = useState<PriceTable>(DEFAULT_PRICES);
+  const [sessionUsage, setSessionUsage] = useState<UsageTotals>(EMPTY_USAGE); // All PDFs since login
+  const [layoutProfile, setLayoutProfile] = useState<LayoutProfileId | 'AUTO'>('AUTO');
+  const [includePhotos, setIncludePhotos] = useState(false); // Crop voter photos during local extraction
+  const [activeProfileId, setActiveProfileId] = useState<LayoutProfileId | null>(null); // Profile the current PDF runs with
+  const [sourcePdf, setSourcePdf] = useState<PdfDocument | null>(null); // Kept for retrying failed pages and the page viewer
+  const fileRef = useRef<File | null>(null); // Source for the worker pool on retry
+  const profileRef = useRef<LayoutProfileId>(DEFAULT_LAYOUT_PROFILE_ID); // Retries reuse the layout of the first run
+  const checkpointRef = useRef<{ fileHash: string; fileName: string; totalPages: number } | null>(null);
+  const [pendingResume, setPendingResume] = useState<{ file: File; fileHash: string; checkpoint: ExtractionCheckpoint } | null>(null);
+  const [batchItems, setBatchItems] = useState<BatchItem[]>([]);
+  const [boothResults, setBoothResults] = useState<BoothResult[]>([]);
+  const [batchRunning, setBatchRunning] = useState(false);
+  const [batchProgress, setBatchProgress] = useState('');
+  const batchStopRef = useRef(false); // Set by "Pause"; the running file still finishes
+  const [pendingImport, setPendingImport] = useState<{ fileName: string; table: CsvTable; mapping: ColumnMapping; presets: MappingPreset[] } | null>(null);
+  const cloudAbortRef = useRef<AbortController | null>(null); // Cancels the cloud conversion in flight
+  const [cloudConverting, setCloudConverting] = useState(false);
+  const [extractionMode, setExtractionMode] = useState<ExtractionMode>('AUTO');
+  const [cloudHealth, setCloudHealth] = useState<CloudHealth>({ status: 'CHECKING', checkedAt: '' });
+  const [sourceFile, setSourceFile] = useState<SourceFileInfo | null>(null);
+  const [auditLog, setAuditLog] = useState<AuditEntry[]>([]); // Dashboard edits since the voters were loaded
 
   const [status, setStatus] = useState<ProcessingStatus>({
     total: 0,
@@ -40,184 +101,273 @@ const App: React.FC = () => {
     return () => unsubscribe();
   }, []);
 
-  // Robust CSV Line Parser
-  const parseCSVLine = (str: string, delimiter: string = ',') => {
-      const result: string[] = [];
-      let current = '';
-      let inQuotes = false;
-      
-      for (let i = 0; i < str.length; i++) {
-          const char = str[i];
-          if (char === '"') {
-              inQuotes = !inQuotes;
-          } else if (char === delimiter && !inQuotes) {
-              result.push(current.replace(/^"|"$/g, '').replace(/""/g, '"').trim());
-              current = '';
-          } else {
-              current += char;
-          }
-      }
-      result.push(current.replace(/^"|"$/g, '').replace(/""/g, '"').trim());
-      return result;
-  };
-
-  // Generate CSV String from Voters
-  const generateCSVContent = (votersData: Voter[]) => {
-    const BOM = "\uFEFF"; 
-    const headers = [
-      'Serial No', 'EPIC No', 'Name (English)', 'Name (Telugu)', 'Relation Name', 
-      'House No', 'Age', 'Gender', 'Assembly', 'Parliament', 'Polling Station', 
-      'Voted?', 'Party', 'Page No', 'Timestamp'
-    ];
-    
-    const rows = votersData.map(v => [
-      v.sl_no, 
-      v.epic_no, 
-      `"${(v.name_en || "").replace(/"/g, '""')}"`, 
-      `"${(v.name_te || "").replace(/"/g, '""')}"`,
-      `"${(v.relative_name || "").replace(/"/g, '""')}"`, 
-      `"${(v.house_no || "").replace(/"/g, '""')}"`,
-      v.age, 
-      v.gender, 
-      `"${(v.assembly_name || "").replace(/"/g, '""')}"`, 
-      `"${(v.parliament_name || "").replace(/"/g, '""')}"`,
-      `"${(v.polling_station_no || "").replace(/"/g, '""')}"`,
-      v.isVoted ? 'YES' : 'NO', 
-      v.votedParty || '', 
-      v.originalPage,
-      v.timestamp || ''
-    ].join(','));
-
-    return BOM + [headers.join(','), ...rows].join('\n');
-  };
-
-  // Reusable CSV Processor
-  const processCSVText = (text: string, source: 'API' | 'FILE' | 'HISTORY') => {
-      if (text.charCodeAt(0) === 0xFEFF) {
-        text = text.slice(1);
-      }
+  // Live view of adaptive concurrency and Gemini model health
+  useEffect(() => subscribeScheduler(setSchedulerSnapshot), []);
 
-      const lines = text.split(/\r\n|\n|\r/).filter(line => line.trim().length > 0);
-      
-      if (lines.length < 2) {
-         throw new Error("Data appears to be empty or missing headers.");
-      }
+  const checkCloudHealth = () => {
+    setCloudHealth(prev => ({ ...prev, status: 'CHECKING' }));
+    probeCloudEngine().then(setCloudHealth);
+  };
+
+  // Probed once signed in, since the engine expects the user's ID token
+  useEffect(() => {
+    if (isLoggedIn) checkCloudHealth();
+  }, [isLoggedIn]);
 
-      const firstLine = lines[0];
-      const delimiter = firstLine.includes(';') ? ';' : ',';
+  // The batch queue and its finished booths survive a reload
+  useEffect(() => {
+    if (!isLoggedIn) return;
+    listBatchItems()
+        .then(requeueInterrupted)
+        .then(setBatchItems)
+        .catch(err => console.warn("Could not load batch queue", err));
+    listBoothResults()
+        .then(setBoothResults)
+        .catch(err => console.warn("Could not load batch results", err));
+  }, [isLoggedIn]);
 
-      const dataLines = lines.slice(1);
-      const loadedVoters: Voter[] = [];
-      
-      for (const line of dataLines) {
-          const cols = parseCSVLine(line, delimiter);
-          if (cols.length < 3) continue;
-          
-          loadedVoters.push({
-             sl_no: cols[0] || "",
-             epic_no: cols[1] || "",
-             name_en: cols[2] || "",
-             name_te: cols[3] || "",
-             relative_name: cols[4] || "",
-             house_no: cols[5] || "",
-             age: cols[6] || "",
-             gender: cols[7] || "",
-             assembly_name: cols[8] || "",
-             parliament_name: cols[9] || "",
-             polling_station_no: cols[10] || "",
-             isVoted: cols[11]?.toUpperCase() === 'YES',
-             votedParty: (cols[12] && cols[12] !== 'null' && cols[12] !== '') ? cols[12] : null,
-             originalPage: cols[13] ? parseInt(cols[13]) : 0,
-             photoBase64: undefined 
-         });
+  // Voters from a CSV nobody can be asked about (the cloud engine's): columns must match by header
+  const parseVoterCSV = (text: string): Voter[] => {
+      const table = parseCSVTable(text);
+      const mapping = autoMapColumns(table.headers);
+      const missing = missingRequiredFields(mapping);
+      if (missing.length > 0) {
+          throw new Error(`CSV is missing required column(s): ${missing.join(', ')}`);
       }
-
+      const { voters: loadedVoters } = applyColumnMapping(table, mapping);
       if (loadedVoters.length === 0) {
           throw new Error("No valid voter records parsed.");
       }
+      return loadedVoters;
+  };
 
+  const loadImportedVoters = (table: CsvTable, mapping: ColumnMapping, fileName: string) => {
+      const { voters: mapped, issues, skippedRows } = applyColumnMapping(table, mapping);
+      if (mapped.length === 0) {
+          throw new Error("No valid voter records parsed.");
+      }
+      const warnings = issues.length - skippedRows;
+      // Ids first, so restoreStoredPhotos still recognizes this list
+      const loadedVoters = withRecordIds(mapped);
       setVoters(loadedVoters);
+      setSourceFile({ fileName, fileHash: null, loadedAt: Date.now() });
+      setAuditLog([]);
       setStatus({
           total: 0,
           current: 0,
-          message: source === 'API' ? 'Extraction Complete!' : 'Data Loaded Successfully',
+          message: `Data Loaded Successfully${skippedRows > 0 ? `, ${skippedRows} row(s) skipped` : ''}${warnings > 0 ? `, ${warnings} warning(s)` : ''}`,
           isProcessing: false
       });
-      
-      if (source === 'FILE' || source === 'HISTORY') {
-          setView('DASHBOARD');
+      setView('DASHBOARD');
+      restoreStoredPhotos(loadedVoters);
+  };
+
+  // Reusable CSV Processor: known headers (or a saved preset) load directly, anything else opens the mapping wizard
+  const processCSVTable = async (table: CsvTable, fileName: string) => {
+      const preset = await findPresetFor(table.headers).catch(() => null);
+      if (preset) {
+          loadImportedVoters(table, presetToMapping(preset, table.headers), fileName);
+          return;
       }
-      return loadedVoters;
+
+      const mapping = autoMapColumns(table.headers);
+      if (missingRequiredFields(mapping).length === 0 && unrecognizedHeaders(table.headers).length === 0) {
+          loadImportedVoters(table, mapping, fileName);
+          return;
+      }
+
+      const presets = await listPresets().catch(() => []);
+      setPendingImport({ fileName, table, mapping, presets });
+      setStatus({ total: 0, current: 0, message: 'Check the column mapping to finish loading the file.', isProcessing: false });
+  };
+
+  const confirmImportMapping = (mapping: ColumnMapping, presetName: string | null) => {
+      if (!pendingImport) return;
+      const { table, fileName } = pendingImport;
+      setPendingImport(null);
+      if (presetName) {
+          savePreset(createPreset(presetName, table.headers, mapping)).catch(err => console.warn("Could not save mapping preset", err));
+      }
+      try {
+          loadImportedVoters(table, mapping, fileName);
+      } catch (error: any) {
+          setStatus({ total: 0, current: 0, message: `Error loading CSV: ${error.message}`, isProcessing: false });
+      }
+  };
+
+  const removeImportPreset = (preset: MappingPreset) => {
+      setPendingImport(prev => (prev ? { ...prev, presets: prev.presets.filter(p => p.id !== preset.id) } : prev));
+      deletePreset(preset.id).catch(err => console.warn("Could not delete mapping preset", err));
   };
 
   // --- LOCAL PDF PROCESSING ENGINE (FALLBACK) ---
-  
-  const getPdfPageAsBase64 = async (pdf: any, pageNum: number, scale: number = 2.5): Promise<string> => {
-    const page = await pdf.getPage(pageNum);
-    const viewport = page.getViewport({ scale });
-    const canvas = document.createElement('canvas');
-    const context = canvas.getContext('2d');
-    
-    canvas.height = viewport.height;
-    canvas.width = viewport.width;
 
-    if (!context) throw new Error("Canvas context failed");
+  const recordPageReport = (report: PageReport) => {
+      setPageReports(prev => {
+          // A retried page keeps the calls of its earlier attempts, which were billed too
+          const previous = prev.find(r => r.pageNumber === report.pageNumber);
+          const usage = previous?.usage && report.usage ? addUsage(previous.usage, report.usage) : (report.usage || previous?.usage);
+          return [...prev.filter(r => r.pageNumber !== report.pageNumber), { ...report, usage }]
+              .sort((x, y) => x.pageNumber - y.pageNumber);
+      });
+  };
+
+  const createExtractor = (file: File, pdf: PdfDocument, layoutProfileId: LayoutProfileId) =>
+    createPageExtractor(file, pdf, concurrency, { includePhotos, bypassCache, layoutProfileId });
+
+  // Runs the extraction pipeline over the given pages, reporting each one
+  const extractPages = async (extract: (pageNum: number) => Promise<PageExtractionResult>, pages: number[]) => {
+    let found = 0;
+    let failed = 0;
+    let extracted: Voter[] = [];
+    let usage = EMPTY_USAGE;
+
+    // The scheduler widens or narrows the number of pages in flight as Gemini quota allows
+    startSchedulerRun(concurrency);
+    await runPagesAdaptively(pages, async (pageNum) => {
+        let report: PageReport;
+        let pageVoters: Voter[] = [];
+        try {
+            const result = await extract(pageNum);
+            report = toPageReport(pageNum, result);
+            if (report.usage) {
+                const pageUsage = report.usage;
+                usage = addUsage(usage, pageUsage);
+                setSessionUsage(prev => addUsage(prev, pageUsage));
+            }
+            pageVoters = result.voters;
+            recordCacheUsageFor(result.cacheLookups, result.cacheHits);
+            if (result.voters.length > 0) {
+                found += result.voters.length;
+                extracted = mergePageVoters(extracted, pageNum, result.voters);
+                setVoters(prev => mergePageVoters(prev, pageNum, result.voters));
+            }
+        } catch (err: any) {
+            console.error(`Error processing page ${pageNum}:`, err);
+            report = { pageNumber: pageNum, status: 'FAILED', voterCount: 0, engine: null, error: err?.message || String(err) };
+        }
+        if (report.status === 'FAILED') failed++;
+        recordPageReport(report);
+        saveCheckpointFor(report, pageVoters);
+        setStatus(prev => ({
+            ...prev,
+            current: prev.current + 1,
+            message: `Processed Page ${pageNum}${report.engine ? ` (${ENGINE_LABELS[report.engine]})` : ''}...`
+        }));
+    });
+    return { found, failed, voters: extracted, usage };
+  };
 
-    await page.render({ canvasContext: context, viewport: viewport }).promise;
-    const base64 = canvas.toDataURL('image/jpeg', 0.8);
-    page.cleanup();
-    return base64.split(',')[1];
+  // Best effort: a checkpoint write failure must never stop extraction
+  const saveCheckpointFor = (report: PageReport, pageVoters: Voter[]) => {
+      const checkpoint = checkpointRef.current;
+      if (!checkpoint) return;
+      savePageCheckpoint(checkpoint.fileHash, checkpoint.fileName, checkpoint.totalPages, report, pageVoters)
+          .catch(err => console.warn("Could not save checkpoint", err));
   };
 
-  const processPdfLocally = async (file: File) => {
-    const arrayBuffer = await file.arrayBuffer();
-    const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
-    const totalPages = pdf.numPages;
+  // Per-file cache hit rates for the cache panel; best effort like checkpoints
+  const recordCacheUsageFor = (lookups: number, hits: number) => {
+      const checkpoint = checkpointRef.current;
+      if (!checkpoint || lookups === 0) return;
+      recordCacheUsage(checkpoint.fileHash, checkpoint.fileName, lookups, hits)
+          .catch(err => console.warn("Could not record cache usage", err));
+  };
 
+  const finishExtraction = (found: number, totalPages: number, failedPages: number) => {
+    // Fully extracted files need no resume point
+    if (failedPages === 0 && checkpointRef.current) {
+        clearCheckpoint(checkpointRef.current.fileHash).catch(err => console.warn("Could not clear checkpoint", err));
+    }
     setStatus({
         total: totalPages,
+        current: totalPages,
+        message: found === 0 && failedPages === 0
+            ? 'No voters found. Please try a different PDF or Quality.'
+            : `Extraction Complete!${failedPages > 0 ? ` ${failedPages} page(s) failed - see report below.` : ''}`,
+        isProcessing: false
+    });
+  };
+
+  // Cover pages are best effort: a roll without readable covers still extracts
+  const loadBoothMetadata = async (pdf: PdfDocument): Promise<BoothMetadata | null> => {
+    const metadata = await readBoothMetadata(pdf);
+    if (metadata) setBoothMetadata(metadata);
+    return metadata;
+  };
+
+  const processPdfLocally = async (file: File, fileHash: string | null, resumeFrom: ExtractionCheckpoint | null = null) => {
+    const pdf = await openPdfFile(file);
+    setSourcePdf(pdf);
+    fileRef.current = file;
+    checkpointRef.current = fileHash ? { fileHash, fileName: file.name, totalPages: pdf.numPages } : null;
+    setSourceFile(prev => (prev ? { ...prev, pageCount: pdf.numPages } : prev));
+
+    // Pages 1-2 are the roll cover pages
+    let pages = Array.from({ length: pdf.numPages }, (_, i) => i + 1).slice(2);
+
+    let resumedReports: PageReport[] = [];
+    if (resumeFrom) {
+        // Failed pages are not "done", so they are re-run along with the untouched ones
+        const done = new Set(resumeFrom.pages.filter(r => r.status !== 'FAILED').map(r => r.pageNumber));
+        pages = pages.filter(p => !done.has(p));
+        resumedReports = resumeFrom.pages.filter(r => done.has(r.pageNumber));
+        setVoters(resumeFrom.voters);
+        setPageReports(resumedReports);
+    }
+
+    setStatus({
+        total: pages.length,
         current: 0,
-        message: 'Starting Local Extraction...',
+        message: resumeFrom ? `Resuming Local Extraction (${pages.length} pages left)...` : 'Starting Local Extraction...',
         isProcessing: true
     });
 
-    const allVoters: Voter[] = [];
-    const pageQueue = Array.from({ length: totalPages }, (_, i) => i + 1).slice(2); 
-
-    const processBatch = async () => {
-        while (pageQueue.length > 0) {
-            const batch = pageQueue.splice(0, concurrency);
-            const promises = batch.map(async (pageNum) => {
-                try {
-                    const base64 = await getPdfPageAsBase64(pdf, pageNum);
-                    setStatus(prev => ({
-                        ...prev,
-                        current: prev.current + 1,
-                        message: `Processing Page ${pageNum} of ${totalPages}...`
-                    }));
-                    const pageVoters = await extractVotersFromImage(base64, pageNum, false); 
-                    if (pageVoters.length > 0) {
-                        allVoters.push(...pageVoters);
-                        setVoters(prev => [...prev, ...pageVoters]);
-                    }
-                } catch (err) {
-                    console.error(`Error processing page ${pageNum}:`, err);
-                }
-            });
-            await Promise.all(promises);
-        }
-    };
+    const coverPromise = loadBoothMetadata(pdf);
+    // Auto-detection needs the cover pages before any card is read; a chosen profile doesn't wait
+    const profileId = layoutProfile === 'AUTO'
+        ? (await coverPromise)?.detectedProfile ?? DEFAULT_LAYOUT_PROFILE_ID
+        : layoutProfile;
+    profileRef.current = profileId;
+    setActiveProfileId(profileId);
+    setStatus(prev => ({ ...prev, message: `Extracting with layout: ${getLayoutProfile(profileId).label}...` }));
 
-    await processBatch();
+    const extractor = createExtractor(file, pdf, profileId);
+    const result = await extractPages(extractor.extract, pages).finally(extractor.dispose);
+    const metadata = await coverPromise;
+    if (metadata) setVoters(prev => applyBoothMetadata(prev, metadata));
+    finishExtraction(result.found + (resumeFrom?.voters.length ?? 0), pages.length, result.failed);
 
-    if (allVoters.length === 0) {
-        setStatus({
-            total: totalPages,
-            current: totalPages,
-            message: 'No voters found. Please try a different PDF or Quality.',
-            isProcessing: false
-        });
-    }
+    // The pages done before a resume were billed too, so the record carries the whole file's usage
+    const extracted = [...(resumeFrom?.voters ?? []), ...result.voters];
+    const usage = resumedReports.reduce((acc, r) => (r.usage ? addUsage(acc, r.usage) : acc), result.usage);
+    syncUpload(file, metadata ? applyBoothMetadata(extracted, metadata) : extracted, usage);
+  };
+
+  const retryFailedPages = async () => {
+    const pdf = sourcePdf;
+    const file = fileRef.current;
+    const failed = pageReports.filter(r => r.status === 'FAILED').map(r => r.pageNumber);
+    if (!pdf || !file || failed.length === 0) return;
+
+    setStatus({
+        total: failed.length,
+        current: 0,
+        message: `Retrying ${failed.length} failed page(s)...`,
+        isProcessing: true
+    });
+
+    const extractor = createExtractor(file, pdf, profileRef.current);
+    const result = await extractPages(extractor.extract, failed).finally(extractor.dispose);
+    finishExtraction(result.found, failed.length, result.failed);
+  };
+
+  // History record of a single upload with its Gemini usage, as processBatchItem writes for a booth.
+  // Best effort: the voters are already on screen.
+  const syncUpload = (file: File, uploaded: Voter[], usage: UsageTotals) => {
+      if (!userUid || uploaded.length === 0) return;
+      syncFileToCloud(userUid, file, uploaded, votersToCSV(uploaded), usage.calls > 0 ? toStoredUsage(usage, prices) : undefined)
+          .catch(err => console.warn(`Could not sync ${file.name}`, err));
   };
 
   // --- MAIN HANDLER ---
@@ -225,7 +375,101 @@ const App: React.FC = () => {
   const handleFileUpload = async (file: File) => {
     if (!file) return;
     setVoters([]); 
+    setPageReports([]);
+    setPendingResume(null);
+    setBoothMetadata(null);
+    setSourcePdf(null);
+    fileRef.current = null;
+    setActiveProfileId(null);
+    checkpointRef.current = null;
+    setAuditLog([]);
 
+    const fileHash = await hashFile(file).catch(err => {
+        console.warn("Could not hash file, checkpoints disabled", err);
+        return null;
+    });
+    setSourceFile({ fileName: file.name, fileHash, loadedAt: Date.now() });
+    const checkpoint = fileHash ? await loadCheckpoint(fileHash).catch(() => null) : null;
+
+    if (fileHash && checkpoint && checkpoint.pages.length > 0) {
+        setPendingResume({ file, fileHash, checkpoint });
+        setStatus({ total: 0, current: 0, message: '', isProcessing: false });
+        return;
+    }
+
+    await runExtraction(file, fileHash);
+  };
+
+  const runLocalExtraction = (file: File, fileHash: string | null, resumeFrom: ExtractionCheckpoint | null = null) => {
+      processPdfLocally(file, fileHash, resumeFrom).catch(localErr => {
+          console.error(localErr);
+          setStatus({
+              total: 0,
+              current: 0,
+              message: `Critical Error: ${localErr.message}`,
+              isProcessing: false
+          });
+      });
+  };
+
+  const handleResumeChoice = async (resume: boolean) => {
+    if (!pendingResume) return;
+    const { file, fileHash, checkpoint } = pendingResume;
+    setPendingResume(null);
+
+    if (resume) {
+        runLocalExtraction(file, fileHash, checkpoint);
+        return;
+    }
+    await clearCheckpoint(fileHash).catch(err => console.warn("Could not clear checkpoint", err));
+    await runExtraction(file, fileHash);
+  };
+
+  // Cloud conversion with its job remembered per PDF, so uploading it again after a reload resumes the job
+  const convertInCloud = async (file: File, fileHash: string | null, options: CloudConversionOptions = {}): Promise<Voter[]> => {
+      const saved = fileHash ? await getCloudJob(fileHash).catch(() => null) : null;
+      try {
+          const result = await convertPdfInCloud(file, {
+              ...options,
+              resumeJobId: saved?.jobId,
+              onJob: jobId => {
+                  if (!fileHash) return;
+                  saveCloudJob({ fileHash, fileName: file.name, jobId, startedAt: Date.now() })
+                      .catch(err => console.warn("Could not remember cloud job", err));
+              }
+          });
+          if (result.format === 'CSV') return parseVoterCSV(result.csv);
+          if (result.voters.length === 0) throw new Error("No valid voter records parsed.");
+          return result.voters;
+      } finally {
+          // Only a reload mid-conversion leaves the job behind to resume
+          if (fileHash) clearCloudJob(fileHash).catch(err => console.warn("Could not clear cloud job", err));
+      }
+  };
+
+  const cancelCloudConversion = () => cloudAbortRef.current?.abort();
+
+  // Auto mode skips a cloud engine the health probe found down rather than waiting for it to fail
+  const shouldUseCloud = () =>
+    extractionMode === 'CLOUD_ONLY' ||
+    (extractionMode === 'AUTO' && cloudHealth.status !== 'OFFLINE' && cloudHealth.status !== 'UNAUTHORIZED');
+
+  const runExtraction = async (file: File, fileHash: string | null) => {
+    if (!shouldUseCloud()) {
+      setStatus({
+        total: 0,
+        current: 0,
+        message: extractionMode === 'LOCAL_ONLY' ? 'Starting Local Extraction...' : 'Cloud Engine unavailable, using Local Engine...',
+        isProcessing: true
+      });
+      runLocalExtraction(file, fileHash);
+      return;
+    }
+
+    const controller = new AbortController();
+    cloudAbortRef.current = controller;
+    setCloudConverting(true);
+    let pagesReceived = 0;
     try {
       // 1. Try Cloud API First
       setStatus({
@@ -235,81 +479,377 @@ const App: React.FC = () => {
         isProcessing: true,
       });
 
-      const csvResponse = await uploadPdfToCloud(file);
-      setStatus(prev => ({ ...prev, message: 'Processing Response Data...' }));
-      const loadedVoters = processCSVText(csvResponse, 'API');
+      // Streaming engines report pages as they finish, so a slow conversion shows progress instead of hanging
+      const loadedVoters = await convertInCloud(file, fileHash, {
+          signal: controller.signal,
+          onProgress: ({ page, totalPages, message }) => setStatus(prev => ({
+              ...prev,
+              total: totalPages ?? prev.total,
+              current: pagesReceived,
+              message: message || `Cloud Engine: page ${page ?? pagesReceived} of ${totalPages ?? '?'}...`
+          })),
+          onPage: (page, pageVoters) => {
+              pagesReceived++;
+              if (pageVoters.length > 0) setVoters(prev => mergePageVoters(prev, page, pageVoters));
+          }
+      });
+      setVoters(loadedVoters);
+      setStatus({ total: 0, current: 0, message: 'Extraction Complete!', isProcessing: false });
+
+      // The cloud engine returns voters only; read the cover pages locally for reconciliation
+      openPdfFile(file)
+          .then(pdf => {
+              setSourcePdf(pdf);
+              return loadBoothMetadata(pdf);
+          })
+          .catch(err => {
+              console.warn("Could not read cover pages", err);
+              return null;
+          })
+          .then(metadata => {
+              if (metadata) setVoters(prev => applyBoothMetadata(prev, metadata));
+              // No Gemini calls on this device, so the record carries no usage
+              syncUpload(file, metadata ? applyBoothMetadata(loadedVoters, metadata) : loadedVoters, EMPTY_USAGE);
+          });
 
     } catch (error: any) {
+      if (error?.name === 'AbortError') {
+          setVoters([]);
+          setStatus({ total: 0, current: 0, message: 'Cloud conversion cancelled.', isProcessing: false });
+          return;
+      }
+      setVoters([]);
+      if (extractionMode === 'CLOUD_ONLY') {
+          console.error("Cloud API Failed:", error);
+          setStatus({
+              total: 0,
+              current: 0,
+              message: `Error: ${error?.message || error}. Cloud only mode, so the local engine was not used.`,
+              isProcessing: false
+          });
+          return;
+      }
       console.warn("Cloud API Failed, switching to local:", error);
       
-      // 2. Fallback to Local Processing
+      // 2. Fallback to Local Processing (Auto mode), saying why
       setStatus(prev => ({
         ...prev,
-        message: `Switching to Local Engine...`,
+        message: `Cloud Engine failed (${error?.message || error}). Switching to Local Engine...`,
       }));
       
-      setTimeout(() => {
-          processPdfLocally(file).catch(localErr => {
-              console.error(localErr);
-              setStatus({
-                  total: 0,
-                  current: 0,
-                  message: `Critical Error: ${localErr.message}`,
-                  isProcessing: false
-              });
-          });
-      }, 1500);
+      setTimeout(() => runLocalExtraction(file, fileHash), 1500);
+    } finally {
+      cloudAbortRef.current = null;
+      setCloudConverting(false);
     }
   };
 
+  // CSVs carry no photos; voters whose EPIC is in the photo store get theirs back
+  const restoreStoredPhotos = (loaded: Voter[]) => {
+      markStoredPhotos(loaded)
+          .then(withPhotos => setVoters(prev => (prev === loaded ? withPhotos : prev)))
+          .catch(err => console.warn("Could not read photo store", err));
+  };
+
+  const loadSession = (bundle: SessionBundle, photoCount: number) => {
+      const loadedVoters = withRecordIds(bundle.voters);
+      setVoters(loadedVoters);
+      setParties(bundle.parties);
+      setBoothMetadata(bundle.boothMetadata);
+      setPageReports(bundle.pageReports);
+      setAuditLog(bundle.auditLog);
+      setSourceFile(bundle.source);
+      setSourcePdf(null);
+      fileRef.current = null;
+      setStatus({
+          total: 0,
+          current: 0,
+          message: `Session restored: ${bundle.voters.length} voters${photoCount > 0 ? `, ${photoCount} photos` : ''} (saved ${new Date(bundle.exportedAt).toLocaleString()})`,
+          isProcessing: false
+      });
+      setView('DASHBOARD');
+      restoreStoredPhotos(loadedVoters);
+  };
+
   const handleDataFileSelect = async (file: File) => {
       if (!file) return;
-      setStatus({ total: 0, current: 0, message: 'Reading Local CSV...', isProcessing: true });
+      const zip = isZipFile(file);
+      const sessionJson = isSessionJsonFile(file);
+      const xlsx = isXlsxFile(file);
+      setStatus({ total: 0, current: 0, message: zip || sessionJson ? 'Reading Bundle...' : xlsx ? 'Reading Excel Workbook...' : 'Reading Local CSV...', isProcessing: true });
       try {
-          const text = await file.text();
-          processCSVText(text, 'FILE');
+          if (xlsx) {
+              await processCSVTable(await readXlsxTable(file), file.name);
+              return;
+          }
+          if (zip || sessionJson) {
+              const session = await importSessionBundle(file);
+              if (session) {
+                  loadSession(session.bundle, session.photoCount);
+                  return;
+              }
+              const bundle = await importPhotoBundle(file);
+              if (!bundle.csv) {
+                  // Photos-only bundle: attach them to the voters already loaded
+                  setVoters(await markStoredPhotos(voters));
+                  setStatus({ total: 0, current: 0, message: `Imported ${bundle.photoCount} photos`, isProcessing: false });
+                  return;
+              }
+              await processCSVTable(parseCSVTable(bundle.csv), file.name);
+              return;
+          }
+          await processCSVTable(await readCSVTable(file), file.name);
       } catch (error: any) {
-          console.error("Error parsing CSV", error);
+          console.error("Error loading data file", error);
+          setStatus({
+              total: 0,
+              current: 0,
+              message: `Error loading ${zip || sessionJson ? 'bundle' : xlsx ? 'workbook' : 'CSV'}: ${error.message}`,
+              isProcessing: false
+          });
+      }
+  };
+
+  // --- BATCH QUEUE ---
+
+  const handleBatchSelect = async (files: File[]) => {
+      setStatus({ total: 0, current: 0, message: `Queueing ${files.length} file(s)...`, isProcessing: true });
+      try {
+          const { added, skipped } = await enqueueBatchFiles(files);
+          setBatchItems(await listBatchItems());
           setStatus({
               total: 0,
               current: 0,
-              message: `Error loading CSV: ${error.message}`,
+              message: `Queued ${added.length} PDF(s)${skipped > 0 ? `, skipped ${skipped} duplicate or non-PDF file(s)` : ''}. Start the queue below.`,
               isProcessing: false
           });
+      } catch (err: any) {
+          console.error("Could not queue files", err);
+          setStatus({ total: 0, current: 0, message: `Error queueing files: ${err?.message || err}`, isProcessing: false });
+      }
+  };
+
+  // Persisted before the queue moves on, so the next pick never sees a stale status
+  const updateBatchItem = (item: BatchItem) => {
+      setBatchItems(prev => prev.map(i => (i.id === item.id ? item : i)));
+      return saveBatchItem(item).catch(err => console.warn("Could not save batch item", err));
+  };
+
+  // Same engine choice as a single upload: cloud first in Auto, the local pipeline when it fails
+  const extractBatchFile = async (item: BatchItem, file: File) => {
+      if (shouldUseCloud()) {
+          try {
+              const voters = await convertInCloud(file, item.id, {
+                  onProgress: ({ page, totalPages }) => setBatchProgress(`${item.fileName}: cloud page ${page ?? 0} of ${totalPages ?? '?'}`)
+              });
+              const pdf = await openPdfFile(file);
+              const metadata = await readBoothMetadata(pdf);
+              return {
+                  voters: metadata ? applyBoothMetadata(voters, metadata) : voters,
+                  metadata,
+                  usage: EMPTY_USAGE,
+                  failedPages: 0,
+                  source: 'CLOUD' as const
+              };
+          } catch (cloudErr) {
+              if (extractionMode === 'CLOUD_ONLY') throw cloudErr;
+              console.warn(`Cloud API failed for ${item.fileName}, switching to local:`, cloudErr);
+          }
+      }
+      const result = await extractBoothLocally(file, item.id, {
+          concurrency,
+          includePhotos,
+          bypassCache,
+          layoutProfile,
+          onPage: (report, done, total) => {
+              const pageUsage = report.usage;
+              if (pageUsage) setSessionUsage(prev => addUsage(prev, pageUsage));
+              setBatchProgress(`${item.fileName}: page ${done} of ${total}`);
+          }
+      });
+      return {
+          ...result,
+          failedPages: result.reports.filter(r => r.status === 'FAILED').length,
+          source: 'LOCAL' as const
+      };
+  };
+
+  const processBatchItem = async (queued: BatchItem) => {
+      const item: BatchItem = { ...queued, status: 'PROCESSING', error: undefined, syncError: undefined };
+      await updateBatchItem(item);
+      setBatchProgress(`${item.fileName}: starting...`);
+
+      const file = await getBatchFile(item);
+      if (!file) {
+          await updateBatchItem({ ...item, status: 'FAILED', error: 'PDF is no longer stored on this device; add it again.' });
+          return;
+      }
+
+      try {
+          const { voters, metadata, usage, failedPages, source } = await extractBatchFile(item, file);
+          if (voters.length === 0) {
+              await updateBatchItem({ ...item, status: 'FAILED', failedPages, source, error: 'No voters found.' });
+              return;
+          }
+
+          const boothNo = resolveBoothNo(voters, metadata?.partNo, item.fileName);
+          const booth: BoothResult = { boothNo, itemId: item.id, fileName: item.fileName, voters, metadata, updatedAt: Date.now() };
+          await saveBoothResult(booth);
+          setBoothResults(prev => [...prev.filter(b => b.boothNo !== boothNo), booth]
+              .sort((a, b) => a.boothNo.localeCompare(b.boothNo, undefined, { numeric: true })));
+
+          let done: BatchItem = { ...item, status: 'DONE', boothNo, voterCount: voters.length, failedPages, source };
+          if (userUid) {
+              setBatchProgress(`${item.fileName}: syncing booth ${boothNo}...`);
+              try {
+                  await syncFileToCloud(userUid, file, voters, votersToCSV(voters), usage.calls > 0 ? toStoredUsage(usage, prices) : undefined);
+                  done = { ...done, synced: true };
+              } catch (syncErr: any) {
+                  console.warn(`Could not sync ${item.fileName}`, syncErr);
+                  done = { ...done, synced: false, syncError: syncErr?.message || String(syncErr) };
+              }
+          }
+          await updateBatchItem(done);
+          // The PDF is kept while a retry may still need it
+          if (done.synced && failedPages === 0) {
+              deleteBatchFile(item.id).catch(err => console.warn("Could not drop queued PDF", err));
+          }
+      } catch (err: any) {
+          console.error(`Batch extraction failed for ${item.fileName}`, err);
+          await updateBatchItem({ ...item, status: 'FAILED', error: err?.message || String(err) });
+      }
+  };
+
+  // One file at a time; its pages already run in parallel
+  const runBatchQueue = async () => {
+      if (batchRunning) return;
+      batchStopRef.current = false;
+      setBatchRunning(true);
+      try {
+          while (!batchStopRef.current) {
+              const next = (await listBatchItems()).find(i => i.status === 'QUEUED');
+              if (!next) break;
+              await processBatchItem(next);
+          }
+      } catch (err) {
+          console.error("Batch queue stopped", err);
+      } finally {
+          setBatchRunning(false);
+          setBatchProgress('');
       }
   };
 
+  const retryBatchItem = (item: BatchItem) => updateBatchItem({ ...item, status: 'QUEUED' });
+
+  const removeFromBatch = (item: BatchItem) => {
+      setBatchItems(prev => prev.filter(i => i.id !== item.id));
+      removeBatchItem(item.id).catch(err => console.warn("Could not remove batch item", err));
+  };
+
+  const clearBatchQueue = () => {
+      if (!window.confirm("Remove all queued files and booth results stored on this device?")) return;
+      setBatchItems([]);
+      setBoothResults([]);
+      clearBatch().catch(err => console.warn("Could not clear batch queue", err));
+  };
+
+  const openBooth = (booth: BoothResult) => {
+      setVoters(booth.voters);
+      setBoothMetadata(booth.metadata);
+      setPageReports([]);
+      setSourcePdf(null);
+      setSourceFile({ fileName: booth.fileName, fileHash: booth.itemId, loadedAt: Date.now() });
+      setAuditLog([]);
+      setView('DASHBOARD');
+  };
+
+  const downloadBoothCSV = (booth: BoothResult) => {
+      downloadBlob(votersToCSVBlob(booth.voters), 'csv', `booth_${booth.boothNo}`);
+  };
+
   const updateVoter = (updatedVoter: Voter) => {
+    const previous = voters.find(v => v.id === updatedVoter.id);
+    if (previous) {
+        const changes = voterChanges(previous, updatedVoter);
+        if (Object.keys(changes).length > 0) {
+            setAuditLog(prev => [...prev, { at: Date.now(), action: 'UPDATE', epic_no: updatedVoter.epic_no, changes }]);
+        }
+    }
     setVoters(prevVoters => 
-        prevVoters.map(v => (v.epic_no === updatedVoter.epic_no ? updatedVoter : v))
+        prevVoters.map(v => (v.id === updatedVoter.id ? updatedVoter : v))
     );
   };
 
   const addVoter = (newVoter: Voter) => {
+    setAuditLog(prev => [...prev, { at: Date.now(), action: 'ADD', epic_no: newVoter.epic_no, changes: {} }]);
     setVoters(prev => [...prev, newVoter]);
   };
 
-  const downloadCSV = () => {
-    if (voters.length === 0) {
-        alert("No voters data to download.");
-        return;
-    }
-    const csvContent = generateCSVContent(voters);
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+  const downloadBlob = (blob: Blob, extension: string, baseName: string = 'polling_data') => {
     const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
     link.href = url;
-    link.setAttribute('download', `polling_data_${new Date().toISOString().slice(0,10)}.csv`);
+    link.setAttribute('download', `${baseName}_${new Date().toISOString().slice(0,10)}.${extension}`);
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
   };
 
+  const downloadCSV = () => {
+    if (voters.length === 0) {
+        alert("No voters data to download.");
+        return;
+    }
+    downloadBlob(votersToCSVBlob(voters), 'csv');
+  };
+
+  // One sheet per polling station plus a summary sheet
+  const downloadXlsx = () => {
+    if (voters.length === 0) {
+        alert("No voters data to download.");
+        return;
+    }
+    downloadBlob(votersToXlsx(voters, parties, boothMetadata), 'xlsx');
+  };
+
+  // CSV plus photos/<EPIC>.jpg, re-importable through the data file picker
+  const downloadPhotoBundle = async () => {
+    try {
+        downloadBlob(await exportPhotoBundle(voters, votersToCSV(voters)), 'zip');
+    } catch (err: any) {
+        console.error("Could not build photo bundle", err);
+        alert(`Could not export photos: ${err?.message || err}`);
+    }
+  };
+
+  // Voters, photos, parties, booth details, page reports and edits, re-importable through the data file picker
+  const downloadSession = async () => {
+    try {
+        const bundle = await exportSessionBundle({ source: sourceFile, voters, parties, boothMetadata, pageReports, auditLog });
+        downloadBlob(bundle, 'zip', 'polling_session');
+    } catch (err: any) {
+        console.error("Could not build session bundle", err);
+        alert(`Could not export session: ${err?.message || err}`);
+    }
+  };
+
+  const hasPhotos = voters.some(v => v.hasPhoto);
+
+  // Gemini usage of the current PDF, rolled up from its pages
+  const fileUsage = pageReports.reduce((acc, r) => (r.usage ? addUsage(acc, r.usage) : acc), EMPTY_USAGE);
+
+  // Voters per extraction engine, shown on the completion panel
+  const engineCounts = voters.reduce((acc, v) => {
+      if (v.engine) acc[v.engine] = (acc[v.engine] || 0) + 1;
+      return acc;
+  }, {} as Partial<Record<ExtractionEngineId, number>>);
+
   const handleLogout = () => {
       signOut(auth).then(() => {
           setIsLoggedIn(false);
           setView('UPLOAD');
           setVoters([]);
+          setSessionUsage(EMPTY_USAGE);
       });
   };
 
@@ -348,6 +888,36 @@ const App: React.FC = () => {
                        Download Data
                    </button>
                )}
+               {voters.length > 0 && (
+                   <button 
+                    onClick={downloadXlsx}
+                    className="bg-green-600 hover:bg-green-700 px-4 py-2 rounded-lg text-sm font-medium transition-colors flex items-center gap-2"
+                    title="Excel workbook: one sheet per polling station and a summary"
+                   >
+                       <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4"></path></svg>
+                       Excel
+                   </button>
+               )}
+               {hasPhotos && (
+                   <button 
+                    onClick={downloadPhotoBundle}
+                    className="bg-green-700 hover:bg-green-800 px-4 py-2 rounded-lg text-sm font-medium transition-colors flex items-center gap-2"
+                    title="CSV and voter photos as a zip"
+                   >
+                       <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4"></path></svg>
+                       Data + Photos
+                   </button>
+               )}
+               {voters.length > 0 && (
+                   <button 
+                    onClick={downloadSession}
+                    className="bg-indigo-500 hover:bg-indigo-600 px-4 py-2 rounded-lg text-sm font-medium transition-colors flex items-center gap-2"
+                    title="Voters, photos, parties, booth details and edit history, to continue on another device"
+                   >
+                       <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4"></path></svg>
+                       Save Session
+                   </button>
+               )}
             </div>
           </div>
         </div>
@@ -367,7 +937,7 @@ const App: React.FC = () => {
                 <div className="mb-8 grid grid-cols-1 sm:grid-cols-2 gap-4">
                    {/* Speed Control for Local Fallback */}
                    <div className="border rounded-lg p-3">
-                        <label className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2 block">Processing Speed (Parallel Pages)</label>
+                        <label className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2 block">Max Parallel Pages (auto-tuned)</label>
                         <div className="grid grid-cols-5 gap-1">
                             {[2, 5, 10, 20, 30].map(num => (
                                 <button
@@ -384,12 +954,82 @@ const App: React.FC = () => {
                             {concurrency <= 5 ? 'Recommended for most devices' : concurrency <= 10 ? 'Fast (Good Connection)' : 'Extreme (High RAM Required)'}
                         </p>
                    </div>
+                   <CloudEnginePanel
+                        mode={extractionMode}
+                        onModeChange={setExtractionMode}
+                        health={cloudHealth}
+                        onRecheck={checkCloudHealth}
+                        isProcessing={status.isProcessing || batchRunning}
+                   />
+                   <div className="border rounded-lg p-3">
+                        <label htmlFor="layout-profile" className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2 block">Roll Layout</label>
+                        <select
+                            id="layout-profile"
+                            value={layoutProfile}
+                            onChange={e => setLayoutProfile(e.target.value as LayoutProfileId | 'AUTO')}
+                            disabled={status.isProcessing}
+                            className="w-full border border-gray-300 rounded px-2 py-1 text-sm text-gray-700"
+                        >
+                            <option value="AUTO">Auto-detect from cover page</option>
+                            {LAYOUT_PROFILES.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+                        </select>
+                        <p className="text-[10px] text-gray-400 mt-1">
+                            {activeProfileId
+                                ? `Using ${getLayoutProfile(activeProfileId).label}`
+                                : layoutProfile === 'AUTO' ? `Falls back to ${getLayoutProfile().label}` : 'Applies to local extraction'}
+                        </p>
+                   </div>
+                   <div className="border rounded-lg p-3">
+                        <label className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2 block">Voter Photos</label>
+                        <label className="flex items-center gap-2 text-sm text-gray-700">
+                            <input
+                                type="checkbox"
+                                checked={includePhotos}
+                                onChange={e => setIncludePhotos(e.target.checked)}
+                                disabled={status.isProcessing}
+                                className="rounded text-indigo-600"
+                            />
+                            Extract photos (local engine)
+                        </label>
+                        <p className="text-[10px] text-gray-400 mt-1">Stored on this device by EPIC; export with "Data + Photos"</p>
+                   </div>
+                   <CacheStatsPanel
+                        bypassCache={bypassCache}
+                        onToggleBypass={setBypassCache}
+                        isProcessing={status.isProcessing}
+                   />
                 </div>
 
+                {pendingResume && (
+                    <div className="mb-6 p-4 rounded-lg border border-amber-200 bg-amber-50">
+                        <p className="text-sm text-amber-900 font-medium">
+                            An earlier extraction of {pendingResume.checkpoint.fileName} was interrupted.
+                        </p>
+                        <p className="text-xs text-amber-700 mt-1">
+                            {pendingResume.checkpoint.pages.filter(r => r.status !== 'FAILED').length} of {Math.max(pendingResume.checkpoint.totalPages - 2, 0)} pages done, {pendingResume.checkpoint.voters.length} voters saved.
+                        </p>
+                        <div className="mt-3 flex gap-3">
+                            <button
+                                onClick={() => handleResumeChoice(true)}
+                                className="px-4 py-2 text-sm font-semibold bg-indigo-600 text-white rounded-lg hover:bg-indigo-700"
+                            >
+                                Resume Remaining Pages
+                            </button>
+                            <button
+                                onClick={() => handleResumeChoice(false)}
+                                className="px-4 py-2 text-sm font-semibold bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+                            >
+                                Start Over
+                            </button>
+                        </div>
+                    </div>
+                )}
+
                 <UploadZone 
                     onFileSelect={handleFileUpload} 
+                    onBatchSelect={handleBatchSelect}
                     onDataFileSelect={handleDataFileSelect}
-                    isProcessing={status.isProcessing} 
+                    isProcessing={status.isProcessing || batchRunning} 
                 />
                 
                 {status.message && (
@@ -410,6 +1050,31 @@ const App: React.FC = () => {
                                 ></div>
                             </div>
                         )}
+                        {cloudConverting && (
+                            <div className="mt-2 flex justify-end">
+                                <button
+                                    onClick={cancelCloudConversion}
+                                    className="text-xs text-red-700 font-semibold hover:underline"
+                                >
+                                    Cancel Cloud Conversion
+                                </button>
+                            </div>
+                        )}
+                        {status.isProcessing && pageReports.length > 0 && schedulerSnapshot && (
+                            <div className="mt-2 flex flex-wrap items-center gap-2 text-[10px] text-gray-500">
+                                <span>Parallel pages: {schedulerSnapshot.pageConcurrency}/{schedulerSnapshot.maxConcurrency}</span>
+                                {schedulerSnapshot.models.map(m => (
+                                    <span
+                                        key={m.model}
+                                        className={`px-1.5 py-0.5 rounded font-mono ${m.coolingDownForMs > 0 ? 'bg-red-100 text-red-700' : m.recentRateLimits + m.recentErrors > 0 ? 'bg-yellow-100 text-yellow-800' : 'bg-white text-gray-600 border border-gray-200'}`}
+                                        title={`${m.calls} calls, ${m.recentRateLimits} rate limits and ${m.recentErrors} other errors in the last 5 min`}
+                                    >
+                                        {m.model}{m.avgLatencyMs !== null ? ` ${(m.avgLatencyMs / 1000).toFixed(1)}s` : ''}
+                                        {m.coolingDownForMs > 0 ? ` cooling ${Math.ceil(m.coolingDownForMs / 1000)}s` : ''}
+                                    </span>
+                                ))}
+                            </div>
+                        )}
                         
                         {!status.isProcessing && (status.message.includes('Error') || status.message.includes('No voters')) && (
                             <div className="mt-4 flex justify-end">
@@ -424,11 +1089,58 @@ const App: React.FC = () => {
                     </div>
                 )}
 
+                {batchItems.length > 0 && (
+                    <BatchQueuePanel
+                        items={batchItems}
+                        booths={boothResults}
+                        isRunning={batchRunning}
+                        progress={batchProgress}
+                        onStart={runBatchQueue}
+                        onStop={() => { batchStopRef.current = true; }}
+                        onRetry={retryBatchItem}
+                        onRemove={removeFromBatch}
+                        onOpenBooth={openBooth}
+                        onDownloadBooth={downloadBoothCSV}
+                        onClear={clearBatchQueue}
+                    />
+                )}
+
+                {pageReports.length > 0 && (
+                    <PageReportPanel
+                        reports={pageReports}
+                        onRetryFailed={retryFailedPages}
+                        isProcessing={status.isProcessing}
+                        prices={prices}
+                    />
+                )}
+
+                {(fileUsage.calls > 0 || sessionUsage.calls > 0) && (
+                    <UsagePanel
+                        fileUsage={fileUsage}
+                        sessionUsage={sessionUsage}
+                        prices={prices}
+                        onPricesChange={setPrices}
+                    />
+                )}
+
+                {boothMetadata && !status.isProcessing && voters.length > 0 && (
+                    <div className="mt-6">
+                        <BoothSummaryPanel metadata={boothMetadata} voters={voters} />
+                    </div>
+                )}
+
                 {/* Show Success UI if extraction complete OR if voters were found */}
                 {!status.isProcessing && (status.message.includes('Extraction Complete') || status.message.includes('Data Loaded') || voters.length > 0) && (
                      <div className="mt-8 text-center animate-fade-in-up border-t border-gray-100 pt-8">
                         <h3 className="text-xl font-bold text-gray-900 mb-2">Processing Complete</h3>
-                        <p className="text-gray-600 mb-6">Successfully loaded {voters.length} voters.</p>
+                        <p className="text-gray-600 mb-2">Successfully loaded {voters.length} voters.</p>
+                        <div className="flex flex-wrap justify-center gap-2 mb-6">
+                            {Object.entries(engineCounts).map(([engine, count]) => (
+                                <span key={engine} className="text-xs px-2 py-1 bg-gray-100 rounded text-gray-600">
+                                    {ENGINE_LABELS[engine as ExtractionEngineId]}: {count}
+                                </span>
+                            ))}
+                        </div>
                         
                         <div className="flex flex-col sm:flex-row gap-4 justify-center">
                             <button
@@ -455,10 +1167,26 @@ const App: React.FC = () => {
                 onAddVoter={addVoter}
                 parties={parties}
                 onUpdateParties={setParties}
+                boothMetadata={boothMetadata}
+                sourcePdf={sourcePdf}
                 onLogout={handleLogout}
             />
         )}
       </main>
+      {pendingImport && (
+          <CsvMappingWizard
+              fileName={pendingImport.fileName}
+              table={pendingImport.table}
+              initialMapping={pendingImport.mapping}
+              presets={pendingImport.presets}
+              onConfirm={confirmImportMapping}
+              onDeletePreset={removeImportPreset}
+              onCancel={() => {
+                  setPendingImport(null);
+                  setStatus({ total: 0, current: 0, message: '', isProcessing: false });
+              }}
+          />
+      )}
       <style>{`
         @keyframes indeterminate-bar {
             0% { width: 0%; margin-left: 0%; }
@@ -0,0 +1,113 @@
+import React from 'react';
+import { BatchItem, BatchItemStatus, BoothResult } from '../types';
+
+interface BatchQueuePanelProps {
+  items: BatchItem[];
+  booths: BoothResult[];
+  isRunning: boolean;
+  progress: string; // Current file and page, while running
+  onStart: () => void;
+  onStop: () => void;
+  onRetry: (item: BatchItem) => void;
+  onRemove: (item: BatchItem) => void;
+  onOpenBooth: (booth: BoothResult) => void;
+  onDownloadBooth: (booth: BoothResult) => void;
+  onClear: () => void;
+}
+
+const STATUS_STYLES: Record<BatchItemStatus, string> = {
+  QUEUED: 'bg-gray-100 text-gray-600',
+  PROCESSING: 'bg-indigo-100 text-indigo-700 animate-pulse',
+  DONE: 'bg-emerald-100 text-emerald-800',
+  FAILED: 'bg-red-100 text-red-800'
+};
+
+/**
+ * Batch upload queue with per-file status, and the booths it has produced so far
+ */
+const BatchQueuePanel: React.FC<BatchQueuePanelProps> = ({
+  items, booths, isRunning, progress, onStart, onStop, onRetry, onRemove, onOpenBooth, onDownloadBooth, onClear
+}) => {
+  const count = (status: BatchItemStatus) => items.filter(i => i.status === status).length;
+  const queued = count('QUEUED');
+
+  return (
+    <div className="mt-8 border border-gray-200 rounded-xl overflow-hidden">
+      <div className="p-4 bg-gray-50 border-b border-gray-200 flex flex-wrap justify-between items-center gap-3">
+        <div>
+          <h3 className="text-lg font-bold text-gray-800">Batch Queue</h3>
+          <p className="text-xs text-gray-500">
+            {items.length} file(s): {count('DONE')} done, {queued} queued, {count('FAILED')} failed. Booths sync to your history as they finish.
+          </p>
+          {isRunning && progress && <p className="text-xs text-indigo-600 mt-1">{progress}</p>}
+        </div>
+        <div className="flex gap-2">
+          {isRunning ? (
+            <button onClick={onStop} className="px-4 py-2 text-sm font-semibold bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50">
+              Pause After This File
+            </button>
+          ) : (
+            <>
+              <button
+                onClick={onStart}
+                disabled={queued === 0}
+                className="px-4 py-2 text-sm font-semibold bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50"
+              >
+                {count('DONE') + count('FAILED') > 0 ? 'Resume Queue' : 'Start Queue'}
+              </button>
+              <button onClick={onClear} className="px-4 py-2 text-sm font-semibold text-red-700 hover:underline">
+                Clear
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+
+      <div className="max-h-72 overflow-y-auto divide-y divide-gray-100">
+        {items.map(item => (
+          <div key={item.id} className="px-4 py-2 flex items-center gap-3 text-sm">
+            <span className={`px-2 py-0.5 rounded text-[10px] font-bold ${STATUS_STYLES[item.status]}`}>{item.status}</span>
+            <div className="flex-1 min-w-0">
+              <p className="truncate text-gray-800">{item.fileName}</p>
+              <p className="text-[10px] text-gray-400">
+                {item.boothNo && `Booth ${item.boothNo} • `}
+                {item.voterCount !== undefined && `${item.voterCount} voters • `}
+                {item.source && `${item.source === 'CLOUD' ? 'Cloud' : 'Local'} engine`}
+                {!!item.failedPages && <span className="text-red-600"> • {item.failedPages} page(s) failed</span>}
+                {item.synced && <span className="text-emerald-600"> • synced</span>}
+                {item.syncError && <span className="text-red-600"> • sync failed: {item.syncError}</span>}
+                {item.error && <span className="text-red-600">{item.error}</span>}
+              </p>
+            </div>
+            {!isRunning && (item.status === 'FAILED' || !!item.failedPages || !!item.syncError) && (
+              <button onClick={() => onRetry(item)} className="text-xs font-semibold text-indigo-600 hover:underline">Retry</button>
+            )}
+            {item.status !== 'PROCESSING' && (
+              <button onClick={() => onRemove(item)} className="text-xs text-gray-400 hover:text-red-600" aria-label={`Remove ${item.fileName}`}>✕</button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {booths.length > 0 && (
+        <div className="border-t border-gray-200">
+          <h4 className="px-4 pt-3 text-xs font-semibold text-gray-500 uppercase tracking-wider">Booths ({booths.length})</h4>
+          <div className="p-4 grid grid-cols-2 sm:grid-cols-3 gap-2">
+            {booths.map(booth => (
+              <div key={booth.boothNo} className="border border-gray-200 rounded-lg p-2">
+                <p className="text-sm font-bold text-gray-800">Booth {booth.boothNo}</p>
+                <p className="text-[10px] text-gray-400 truncate" title={booth.fileName}>{booth.voters.length} voters • {booth.fileName}</p>
+                <div className="mt-1 flex gap-3 text-xs font-semibold">
+                  <button onClick={() => onOpenBooth(booth)} className="text-indigo-600 hover:underline">Open</button>
+                  <button onClick={() => onDownloadBooth(booth)} className="text-green-700 hover:underline">CSV</button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BatchQueuePanel;
@@ -0,0 +1,68 @@
+import React, { useMemo } from 'react';
+import { BoothMetadata, ElectorTotals, Voter } from '../types';
+import { reconcileTotals } from '../services/coverPageService';
+
+interface BoothSummaryPanelProps {
+  metadata: BoothMetadata;
+  voters: Voter[];
+}
+
+const CATEGORIES: { key: keyof ElectorTotals; label: string }[] = [
+  { key: 'male', label: 'Male' },
+  { key: 'female', label: 'Female' },
+  { key: 'thirdGender', label: 'Third Gender' },
+  { key: 'total', label: 'Total' }
+];
+
+const BoothSummaryPanel: React.FC<BoothSummaryPanelProps> = ({ metadata, voters }) => {
+  const reconciliation = useMemo(
+    () => (metadata.officialTotals ? reconcileTotals(voters, metadata.officialTotals) : null),
+    [voters, metadata.officialTotals]
+  );
+
+  return (
+    <div className="bg-white p-4 rounded-xl shadow-sm border border-gray-100">
+      <div className="flex flex-col sm:flex-row sm:justify-between gap-2 mb-3">
+        <div>
+          <h3 className="text-sm font-bold text-gray-800">
+            Part {metadata.partNo || '?'}{metadata.pollingStationName ? ` • ${metadata.pollingStationName}` : ''}
+          </h3>
+          {metadata.assemblyName && <p className="text-xs text-gray-500">{metadata.assemblyName}</p>}
+          {metadata.pollingStationAddress && <p className="text-xs text-gray-400">{metadata.pollingStationAddress}</p>}
+        </div>
+        {metadata.sections.length > 0 && (
+          <p className="text-xs text-gray-500 sm:max-w-xs sm:text-right" title={metadata.sections.join(', ')}>
+            {metadata.sections.length} section(s): {metadata.sections.slice(0, 3).join(', ')}{metadata.sections.length > 3 ? '…' : ''}
+          </p>
+        )}
+      </div>
+
+      {reconciliation ? (
+        <>
+          <div className="grid grid-cols-4 gap-2 text-xs">
+            {CATEGORIES.map(({ key, label }) => {
+              const short = reconciliation.shortfall[key];
+              return (
+                <div key={key} className={`p-2 rounded border ${short > 0 ? 'border-red-200 bg-red-50' : 'border-gray-100 bg-gray-50'}`}>
+                  <p className="font-semibold text-gray-600">{label}</p>
+                  <p className="text-gray-900">{reconciliation.extracted[key]} / {reconciliation.official[key]}</p>
+                  {short > 0 && <p className="text-red-600 font-medium">{short} missing</p>}
+                  {short < 0 && <p className="text-amber-600 font-medium">{-short} extra</p>}
+                </div>
+              );
+            })}
+          </div>
+          {reconciliation.hasShortfall && (
+            <p className="mt-3 text-xs text-red-700 font-medium">
+              Extracted counts are below the official roll totals. Review missing pages before relying on this data.
+            </p>
+          )}
+        </>
+      ) : (
+        <p className="text-xs text-gray-400">Official elector totals could not be read from the cover pages.</p>
+      )}
+    </div>
+  );
+};
+
+export default BoothSummaryPanel;
@@ -0,0 +1,84 @@
+import React, { useState, useEffect } from 'react';
+import { CacheFileStats, CacheSummary, listCacheStats, getCacheSummary, clearCache } from '../services/extractionCache';
+
+interface CacheStatsPanelProps {
+  bypassCache: boolean;
+  onToggleBypass: (bypass: boolean) => void;
+  isProcessing: boolean;
+}
+
+const formatMb = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+const CacheStatsPanel: React.FC<CacheStatsPanelProps> = ({ bypassCache, onToggleBypass, isProcessing }) => {
+  const [summary, setSummary] = useState<CacheSummary | null>(null);
+  const [stats, setStats] = useState<CacheFileStats[]>([]);
+  const [expanded, setExpanded] = useState(false);
+
+  const refresh = () => {
+    Promise.all([getCacheSummary(), listCacheStats()])
+      .then(([s, files]) => {
+        setSummary(s);
+        setStats(files);
+      })
+      .catch(err => console.warn("Could not read cache stats", err));
+  };
+
+  // Reload once a run finishes so the hit rates include it
+  useEffect(() => {
+    if (!isProcessing) refresh();
+  }, [isProcessing]);
+
+  const handleClear = async () => {
+    if (!window.confirm("Clear all cached extraction results? Pages will be re-extracted (and re-billed) next time.")) return;
+    await clearCache().catch(err => console.warn("Could not clear cache", err));
+    refresh();
+  };
+
+  return (
+    <div className="border rounded-lg p-3">
+      <label className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2 block">Result Cache</label>
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={bypassCache}
+          onChange={e => onToggleBypass(e.target.checked)}
+          disabled={isProcessing}
+          className="rounded text-indigo-600"
+        />
+        Bypass cache (re-extract every page)
+      </label>
+      {summary && (
+        <p className="text-[10px] text-gray-400 mt-1">
+          {summary.entries} pages cached, {formatMb(summary.sizeBytes)} of {formatMb(summary.capBytes)}
+        </p>
+      )}
+      <div className="mt-2 flex gap-3">
+        {stats.length > 0 && (
+          <button onClick={() => setExpanded(!expanded)} className="text-xs text-indigo-600 font-semibold hover:underline">
+            {expanded ? 'Hide Hit Rates' : 'Show Hit Rates'}
+          </button>
+        )}
+        {summary && summary.entries > 0 && (
+          <button onClick={handleClear} disabled={isProcessing} className="text-xs text-red-600 font-semibold hover:underline disabled:opacity-50">
+            Clear Cache
+          </button>
+        )}
+      </div>
+
+      {expanded && (
+        <div className="mt-2 max-h-40 overflow-y-auto divide-y divide-gray-100">
+          {stats.map(f => (
+            <div key={f.fileHash} className="py-1 flex justify-between gap-2 text-xs">
+              <span className="truncate text-gray-700" title={f.fileName}>{f.fileName}</span>
+              <span className="shrink-0 font-mono text-gray-500">
+                {f.lookups > 0 ? Math.round((f.hits / f.lookups) * 100) : 0}% ({f.hits}/{f.lookups})
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CacheStatsPanel;
@@ -0,0 +1,63 @@
+import React from 'react';
+import { CloudHealth, CloudHealthStatus, ExtractionMode } from '../types';
+
+interface CloudEnginePanelProps {
+  mode: ExtractionMode;
+  onModeChange: (mode: ExtractionMode) => void;
+  health: CloudHealth;
+  onRecheck: () => void;
+  isProcessing: boolean;
+}
+
+const MODE_LABELS: Record<ExtractionMode, string> = {
+  AUTO: 'Auto (cloud, local if it fails)',
+  CLOUD_ONLY: 'Cloud only',
+  LOCAL_ONLY: 'Local only (this device)'
+};
+
+const HEALTH_STYLES: Record<CloudHealthStatus, { dot: string; label: string }> = {
+  CHECKING: { dot: 'bg-gray-300 animate-pulse', label: 'Checking cloud engine...' },
+  ONLINE: { dot: 'bg-emerald-500', label: 'Cloud engine online' },
+  UNKNOWN: { dot: 'bg-yellow-400', label: 'Cloud engine reachable (no health check)' },
+  UNAUTHORIZED: { dot: 'bg-red-500', label: 'Cloud engine rejected your sign-in' },
+  OFFLINE: { dot: 'bg-red-500', label: 'Cloud engine offline' }
+};
+
+/**
+ * Choice of conversion engine, with the result of the cloud engine health probe
+ */
+const CloudEnginePanel: React.FC<CloudEnginePanelProps> = ({ mode, onModeChange, health, onRecheck, isProcessing }) => {
+  const style = HEALTH_STYLES[health.status];
+  const skipsCloud = mode === 'AUTO' && (health.status === 'OFFLINE' || health.status === 'UNAUTHORIZED');
+
+  return (
+    <div className="border rounded-lg p-3">
+      <label htmlFor="extraction-mode" className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2 block">Processing Engine</label>
+      <select
+        id="extraction-mode"
+        value={mode}
+        onChange={e => onModeChange(e.target.value as ExtractionMode)}
+        disabled={isProcessing}
+        className="w-full border border-gray-300 rounded px-2 py-1 text-sm text-gray-700"
+      >
+        {(Object.keys(MODE_LABELS) as ExtractionMode[]).map(m => <option key={m} value={m}>{MODE_LABELS[m]}</option>)}
+      </select>
+      <div className="text-[10px] text-gray-500 mt-1 flex items-center gap-1.5">
+        <span className={`inline-block w-2 h-2 rounded-full ${style.dot}`}></span>
+        <span title={health.error}>
+          {style.label}
+          {health.latencyMs !== undefined && health.status !== 'OFFLINE' ? ` (${health.latencyMs} ms)` : ''}
+        </span>
+        {health.status !== 'CHECKING' && (
+          <button onClick={onRecheck} className="text-indigo-600 hover:underline">Recheck</button>
+        )}
+      </div>
+      {skipsCloud && <p className="text-[10px] text-amber-700 mt-0.5">Auto will use the local engine until the cloud is back</p>}
+      {mode === 'CLOUD_ONLY' && (health.status === 'OFFLINE' || health.status === 'UNAUTHORIZED') && (
+        <p className="text-[10px] text-red-600 mt-0.5">Uploads will fail: {health.error || style.label}</p>
+      )}
+    </div>
+  );
+};
+
+export default CloudEnginePanel;
@@ -0,0 +1,205 @@
+import React, { useMemo, useState } from 'react';
+import {
+  CsvTable, ColumnMapping, ImportField, MappingPreset, IMPORT_FIELDS,
+  applyColumnMapping, missingRequiredFields, presetToMapping
+} from '../services/csvImport';
+
+interface CsvMappingWizardProps {
+  fileName: string;
+  table: CsvTable;
+  initialMapping: ColumnMapping;
+  presets: MappingPreset[];
+  onConfirm: (mapping: ColumnMapping, presetName: string | null) => void;
+  onDeletePreset: (preset: MappingPreset) => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_ROWS = 5;
+const ISSUES_SHOWN = 8;
+
+/**
+ * Column mapping for a CSV or Excel sheet whose headers were not all recognized, with a preview and row validation
+ */
+const CsvMappingWizard: React.FC<CsvMappingWizardProps> = ({ fileName, table, initialMapping, presets, onConfirm, onDeletePreset, onCancel }) => {
+  const [mapping, setMapping] = useState<ColumnMapping>(initialMapping);
+  const [presetId, setPresetId] = useState('');
+  const [savePreset, setSavePreset] = useState(true);
+  const [presetName, setPresetName] = useState(fileName.replace(/\.[^.]+$/, ''));
+
+  const result = useMemo(() => applyColumnMapping(table, mapping), [table, mapping]);
+  const missing = missingRequiredFields(mapping);
+  const mappedColumns = new Set(Object.values(mapping));
+  const ignored = table.headers.filter((h, i) => h.trim() && !mappedColumns.has(i));
+  const errors = result.issues.filter(i => i.severity === 'ERROR').length;
+  const warnings = result.issues.length - errors;
+
+  const setField = (field: ImportField, value: string) => {
+    setMapping(prev => {
+      const next = { ...prev };
+      if (value === '') delete next[field];
+      else next[field] = Number(value);
+      return next;
+    });
+  };
+
+  const applyPreset = (id: string) => {
+    setPresetId(id);
+    const preset = presets.find(p => p.id === id);
+    if (preset) {
+      setMapping(presetToMapping(preset, table.headers));
+      setSavePreset(false);
+    }
+  };
+
+  const selectedPreset = presets.find(p => p.id === presetId);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-5xl max-h-[90vh] flex flex-col">
+        <div className="px-5 py-3 border-b border-gray-100 flex justify-between items-center">
+          <div>
+            <h3 className="text-lg font-bold text-gray-900">Map Columns</h3>
+            <p className="text-xs text-gray-500">
+              {fileName} • {table.rows.length} rows. Some headers were not recognized; check which column holds each field.
+            </p>
+          </div>
+          <button onClick={onCancel} className="text-gray-400 hover:text-gray-600 p-2" aria-label="Close">✕</button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-5 space-y-5">
+          {presets.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <label htmlFor="mapping-preset" className="text-xs font-semibold text-gray-500 uppercase">Preset</label>
+              <select
+                id="mapping-preset"
+                value={presetId}
+                onChange={e => applyPreset(e.target.value)}
+                className="border border-gray-300 rounded px-2 py-1 text-sm"
+              >
+                <option value="">Choose a saved mapping…</option>
+                {presets.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+              </select>
+              {selectedPreset && (
+                <button
+                  onClick={() => { onDeletePreset(selectedPreset); setPresetId(''); }}
+                  className="text-xs text-red-600 hover:underline"
+                >
+                  Delete preset
+                </button>
+              )}
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+            {IMPORT_FIELDS.map(field => (
+              <label key={field.key} className="block">
+                <span className={`text-xs font-semibold ${missing.includes(field.key) ? 'text-red-600' : 'text-gray-500'}`}>
+                  {field.label}{field.required && ' *'}
+                </span>
+                <select
+                  value={mapping[field.key] ?? ''}
+                  onChange={e => setField(field.key, e.target.value)}
+                  className={`mt-0.5 w-full border rounded px-2 py-1 text-sm ${missing.includes(field.key) ? 'border-red-300' : 'border-gray-300'}`}
+                >
+                  <option value="">— not in file —</option>
+                  {table.headers.map((header, index) => (
+                    <option key={index} value={index}>
+                      {header || `Column ${index + 1}`}{table.rows[0]?.[index] ? ` (e.g. ${table.rows[0][index].slice(0, 20)})` : ''}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+
+          {ignored.length > 0 && (
+            <p className="text-xs text-gray-500">Ignored columns: {ignored.join(', ')}</p>
+          )}
+
+          <div>
+            <h4 className="text-xs font-semibold text-gray-500 uppercase mb-2">Preview</h4>
+            <div className="overflow-x-auto border border-gray-200 rounded-lg">
+              <table className="min-w-full text-xs">
+                <thead className="bg-gray-50 text-gray-500">
+                  <tr>
+                    {['Serial', 'EPIC', 'Name', 'Relative', 'House', 'Age', 'Gender', 'Booth'].map(h => (
+                      <th key={h} className="px-2 py-1 text-left font-semibold">{h}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {result.voters.slice(0, PREVIEW_ROWS).map((v, i) => (
+                    <tr key={i}>
+                      <td className="px-2 py-1">{v.sl_no}</td>
+                      <td className={`px-2 py-1 font-mono ${v.epicStatus === 'INVALID' ? 'text-red-600' : ''}`}>{v.epic_no}</td>
+                      <td className="px-2 py-1">{v.name_en}</td>
+                      <td className="px-2 py-1">{v.relative_name}</td>
+                      <td className="px-2 py-1">{v.house_no}</td>
+                      <td className="px-2 py-1">{v.age}</td>
+                      <td className="px-2 py-1">{v.gender}</td>
+                      <td className="px-2 py-1">{v.polling_station_no}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          <div>
+            <h4 className="text-xs font-semibold text-gray-500 uppercase mb-2">
+              Validation: {errors} error(s), {warnings} warning(s)
+            </h4>
+            {missing.length > 0 && (
+              <p className="text-sm text-red-600 mb-1">
+                Required: {missing.map(f => IMPORT_FIELDS.find(s => s.key === f)!.label).join(', ')}
+              </p>
+            )}
+            <ul className="text-xs space-y-0.5">
+              {result.issues.slice(0, ISSUES_SHOWN).map((issue, i) => (
+                <li key={i} className={issue.severity === 'ERROR' ? 'text-red-600' : 'text-yellow-700'}>
+                  Line {issue.row}: {issue.message}
+                </li>
+              ))}
+              {result.issues.length > ISSUES_SHOWN && (
+                <li className="text-gray-400">…and {result.issues.length - ISSUES_SHOWN} more</li>
+              )}
+            </ul>
+          </div>
+        </div>
+
+        <div className="px-5 py-3 border-t border-gray-100 flex flex-wrap items-center gap-3">
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input type="checkbox" checked={savePreset} onChange={e => setSavePreset(e.target.checked)} className="rounded text-indigo-600" />
+            Save as preset
+          </label>
+          {savePreset && (
+            <input
+              type="text"
+              value={presetName}
+              onChange={e => setPresetName(e.target.value)}
+              placeholder="Preset name"
+              className="border border-gray-300 rounded px-2 py-1 text-sm"
+            />
+          )}
+          <div className="ml-auto flex gap-2">
+            <button
+              onClick={onCancel}
+              className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 text-sm font-medium"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => onConfirm(mapping, savePreset && presetName.trim() ? presetName.trim() : null)}
+              disabled={missing.length > 0 || result.voters.length === 0}
+              className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 text-sm font-medium disabled:opacity-50"
+            >
+              Import {result.voters.length} Voters
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CsvMappingWizard;
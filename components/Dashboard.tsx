@@ -1,6 +1,13 @@
 
 import React, { useState, useMemo } from 'react';
-import { Voter, Party, DEFAULT_PARTIES } from '../types';
+import { Voter, Party, DEFAULT_PARTIES, ENGINE_LABELS, BoothMetadata, PdfDocument } from '../types';
+import BoothSummaryPanel from './BoothSummaryPanel';
+import ValidationPanel from './ValidationPanel';
+import VoterPhoto from './VoterPhoto';
+import SourcePageViewer from './SourcePageViewer';
+import ReviewQueuePanel from './ReviewQueuePanel';
+import { buildReviewQueue } from '../services/confidenceService';
+import { computePollingStats } from '../services/pollingStats';
 
 interface DashboardProps {
   voters: Voter[];
@@ -9,75 +16,25 @@ interface DashboardProps {
   parties: Party[];
   onUpdateParties: (parties: Party[]) => void;
   onLogout: () => void;
+  boothMetadata?: BoothMetadata | null;
+  sourcePdf?: PdfDocument | null; // The roll the voters came from, when it is still loaded
 }
 
-const Dashboard: React.FC<DashboardProps> = ({ voters, onUpdateVoter, onAddVoter, parties, onUpdateParties, onLogout }) => {
-  const [activeTab, setActiveTab] = useState<'ANALYTICS' | 'LIST'>('ANALYTICS');
+const Dashboard: React.FC<DashboardProps> = ({ voters, onUpdateVoter, onAddVoter, parties, onUpdateParties, onLogout, boothMetadata, sourcePdf }) => {
+  const [activeTab, setActiveTab] = useState<'ANALYTICS' | 'LIST' | 'REVIEW' | 'QUEUE'>('ANALYTICS');
   const [searchTerm, setSearchTerm] = useState('');
   const [filter, setFilter] = useState<'ALL' | 'VOTED' | 'NOT_VOTED'>('ALL');
+  const [pageFilter, setPageFilter] = useState<number | null>(null); // Source PDF page, set from the review panel
   const [page, setPage] = useState<number>(1);
   const [showPartyConfig, setShowPartyConfig] = useState(false);
   const [analysisParty, setAnalysisParty] = useState<string | 'OVERALL'>('OVERALL');
+  const [sourceVoter, setSourceVoter] = useState<Voter | null>(null); // Voter open in the source page viewer
+  const reviewCount = useMemo(() => buildReviewQueue(voters).length, [voters]);
   
   const ITEMS_PER_PAGE = 20;
 
   // --- Metrics Calculation ---
-  const stats = useMemo(() => {
-    const total = voters.length;
-    const voted = voters.filter(v => v.isVoted).length;
-    const remaining = total - voted;
-    const percentage = total > 0 ? ((voted / total) * 100).toFixed(1) : '0.0';
-
-    const partyCounts = voters.reduce((acc, v) => {
-      if (v.isVoted && v.votedParty) {
-        acc[v.votedParty] = (acc[v.votedParty] || 0) + 1;
-      }
-      return acc;
-    }, {} as Record<string, number>);
-    
-    // Detailed Demographics
-    const demographics = voters.reduce((acc, v) => {
-       const g = v.gender.toUpperCase().startsWith('M') ? 'Male' : v.gender.toUpperCase().startsWith('F') ? 'Female' : 'Other';
-       
-       let a = 'Unknown';
-       const ageVal = parseInt(v.age);
-       if (!isNaN(ageVal)) {
-           if (ageVal < 30) a = '18-29';
-           else if (ageVal < 45) a = '30-45';
-           else if (ageVal < 60) a = '46-60';
-           else a = '60+';
-       }
-
-       // Initialize if missing
-       if (!acc.gender[g]) acc.gender[g] = { total: 0, voted: 0, byParty: {} };
-       if (!acc.age[a]) acc.age[a] = { total: 0, voted: 0, byParty: {} };
-
-       // Increment Totals
-       acc.gender[g].total++;
-       acc.age[a].total++;
-
-       // Increment Voted Stats
-       if (v.isVoted) {
-           acc.gender[g].voted++;
-           acc.age[a].voted++;
-           if (v.votedParty) {
-               acc.gender[g].byParty[v.votedParty] = (acc.gender[g].byParty[v.votedParty] || 0) + 1;
-               acc.age[a].byParty[v.votedParty] = (acc.age[a].byParty[v.votedParty] || 0) + 1;
-           }
-       }
-
-       return acc;
-    }, { 
-        gender: {} as Record<string, { total: number, voted: number, byParty: Record<string, number> }>,
-        age: {} as Record<string, { total: number, voted: number, byParty: Record<string, number> }>
-    });
-
-    // Ensure standard keys exist for rendering safety
-    ['Male', 'Female'].forEach(k => { if (!demographics.gender[k]) demographics.gender[k] = { total: 0, voted: 0, byParty: {} } });
-    ['18-29', '30-45', '46-60', '60+'].forEach(k => { if (!demographics.age[k]) demographics.age[k] = { total: 0, voted: 0, byParty: {} } });
-
-    return { total, voted, remaining, percentage, partyCounts, demographics };
-  }, [voters]);
+  const stats = useMemo(() => computePollingStats(voters), [voters]);
 
   // --- Turnout Trend Calculation (Real-time / Minute precision) ---
   const turnoutTrend = useMemo(() => {
@@ -161,11 +118,13 @@ const Dashboard: React.FC<DashboardProps> = ({ voters, onUpdateVoter, onAddVoter
         (filter === 'VOTED' && v.isVoted) || 
         (filter === 'NOT_VOTED' && !v.isVoted);
 
-      return matchesSearch && matchesFilter;
+      const matchesPage = pageFilter === null || v.originalPage === pageFilter;
+
+      return matchesSearch && matchesFilter && matchesPage;
     }).sort((a, b) => {
         return parseInt(a.sl_no || '0') - parseInt(b.sl_no || '0');
     });
-  }, [voters, searchTerm, filter]);
+  }, [voters, searchTerm, filter, pageFilter]);
 
   const paginatedVoters = filteredVoters.slice((page - 1) * ITEMS_PER_PAGE, page * ITEMS_PER_PAGE);
   const totalPages = Math.ceil(filteredVoters.length / ITEMS_PER_PAGE);
@@ -205,6 +164,12 @@ const Dashboard: React.FC<DashboardProps> = ({ voters, onUpdateVoter, onAddVoter
       onUpdateParties(newP);
   };
 
+  const showPage = (pageNumber: number) => {
+      setPageFilter(pageNumber);
+      setPage(1);
+      setActiveTab('LIST');
+  };
+
   // Helper for rendering analytics bars
   const renderDemographicBar = (label: string, total: number, target: number, colorClass: string) => {
       const pct = total > 0 ? (target / total) * 100 : 0;
@@ -264,6 +229,18 @@ const Dashboard: React.FC<DashboardProps> = ({ voters, onUpdateVoter, onAddVoter
               >
                   Voter List
               </button>
+              <button 
+                onClick={() => setActiveTab('REVIEW')} 
+                className={`px-6 py-2 rounded-md text-sm font-medium transition-all ${activeTab === 'REVIEW' ? 'bg-white text-indigo-700 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+              >
+                  Roll Check
+              </button>
+              <button 
+                onClick={() => setActiveTab('QUEUE')} 
+                className={`px-6 py-2 rounded-md text-sm font-medium transition-all ${activeTab === 'QUEUE' ? 'bg-white text-indigo-700 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+              >
+                  Review Queue{reviewCount > 0 && <span className="ml-1.5 px-1.5 rounded-full bg-yellow-200 text-yellow-900 text-xs">{reviewCount}</span>}
+              </button>
           </div>
       </div>
 
@@ -272,6 +249,8 @@ const Dashboard: React.FC<DashboardProps> = ({ voters, onUpdateVoter, onAddVoter
       {/* 1. ANALYTICS TAB */}
       {activeTab === 'ANALYTICS' && (
           <div className="space-y-6 animate-fade-in">
+                {boothMetadata && <BoothSummaryPanel metadata={boothMetadata} voters={voters} />}
+
                 {/* Stats Cards */}
                 <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
                     <div className="bg-white p-4 rounded-xl shadow-sm border border-gray-100 flex flex-col justify-between">
@@ -490,6 +469,11 @@ const Dashboard: React.FC<DashboardProps> = ({ voters, onUpdateVoter, onAddVoter
                 <button onClick={() => setFilter('ALL')} className={`px-3 py-1.5 text-sm font-medium rounded-lg transition-colors ${filter === 'ALL' ? 'bg-indigo-600 text-white' : 'bg-white text-gray-600 border border-gray-200'}`}>All</button>
                 <button onClick={() => setFilter('NOT_VOTED')} className={`px-3 py-1.5 text-sm font-medium rounded-lg transition-colors ${filter === 'NOT_VOTED' ? 'bg-orange-500 text-white' : 'bg-white text-gray-600 border border-gray-200'}`}>Pending</button>
                 <button onClick={() => setFilter('VOTED')} className={`px-3 py-1.5 text-sm font-medium rounded-lg transition-colors ${filter === 'VOTED' ? 'bg-emerald-600 text-white' : 'bg-white text-gray-600 border border-gray-200'}`}>Voted</button>
+                {pageFilter !== null && (
+                    <button onClick={() => { setPageFilter(null); setPage(1); }} className="px-3 py-1.5 text-sm font-medium rounded-lg bg-indigo-100 text-indigo-700 border border-indigo-200">
+                        Page {pageFilter} ✕
+                    </button>
+                )}
             </div>
             <div className="relative w-full sm:w-64">
                 <input 
@@ -506,17 +490,31 @@ const Dashboard: React.FC<DashboardProps> = ({ voters, onUpdateVoter, onAddVoter
             {/* Table Body */}
             <div className="divide-y divide-gray-100">
                 {paginatedVoters.map((voter) => (
-                    <div key={`${voter.epic_no}-${voter.sl_no}`} className={`p-4 md:grid md:grid-cols-12 md:gap-4 items-center hover:bg-gray-50 transition-colors ${voter.isVoted ? 'bg-emerald-50/50' : ''}`}>
+                    <div key={voter.id} className={`p-4 md:grid md:grid-cols-12 md:gap-4 items-center hover:bg-gray-50 transition-colors ${voter.isVoted ? 'bg-emerald-50/50' : ''}`}>
                         <div className="col-span-1 flex items-center gap-3 mb-2 md:mb-0">
                             <span className="font-mono font-bold text-gray-700">#{voter.sl_no}</span>
-                            {voter.photoBase64 && (
-                                <img src={voter.photoBase64} alt="" className="w-10 h-12 object-cover rounded border border-gray-200 hidden md:block" />
-                            )}
+                            <VoterPhoto voter={voter} className="w-10 h-12 overflow-hidden rounded border border-gray-200 bg-gray-100 hidden md:block" />
                         </div>
                         <div className="col-span-3 mb-2 md:mb-0">
                             <h4 className="font-bold text-gray-900 font-telugu text-lg leading-tight">{voter.name_te}</h4>
                             <p className="text-sm text-gray-600 font-medium">{voter.name_en}</p>
-                            <p className="text-xs text-gray-400 mt-1">EPIC: <span className="text-indigo-600 font-mono">{voter.epic_no}</span> • {voter.age} {voter.gender.charAt(0)}</p>
+                            <p className="text-xs text-gray-400 mt-1">
+                                EPIC: <span className={`font-mono ${voter.epicStatus === 'INVALID' ? 'text-red-600' : 'text-indigo-600'}`} title={voter.epicOriginal ? `Read as ${voter.epicOriginal}` : undefined}>{voter.epic_no}</span>
+                                {voter.epicStatus === 'INVALID' && <span className="ml-1 text-red-600 font-semibold">(invalid)</span>}
+                                {voter.epicStatus === 'CORRECTED' && <span className="ml-1 text-amber-600">(corrected)</span>}
+                                {' '}• {voter.age} {voter.gender.charAt(0)}
+                            </p>
+                            {voter.engine && (
+                                <span className="inline-block mt-1 px-1.5 py-0.5 rounded text-[10px] font-medium bg-gray-100 text-gray-500">{ENGINE_LABELS[voter.engine]}</span>
+                            )}
+                            {sourcePdf && voter.originalPage ? (
+                                <button
+                                    onClick={() => setSourceVoter(voter)}
+                                    className="ml-2 text-[10px] font-semibold text-indigo-600 hover:underline"
+                                >
+                                    View page {voter.originalPage}
+                                </button>
+                            ) : null}
                         </div>
                         <div className="col-span-2 mb-2 md:mb-0">
                             <p className="text-xs font-semibold text-gray-700">H.No: {voter.house_no}</p>
@@ -569,6 +567,30 @@ const Dashboard: React.FC<DashboardProps> = ({ voters, onUpdateVoter, onAddVoter
           </div>
       )}
 
+      {/* 3. ROLL CHECK TAB */}
+      {activeTab === 'REVIEW' && (
+          <ValidationPanel voters={voters} onSelectPage={showPage} />
+      )}
+
+      {/* 4. REVIEW QUEUE TAB */}
+      {activeTab === 'QUEUE' && (
+          <ReviewQueuePanel voters={voters} onUpdateVoter={onUpdateVoter} onViewSource={sourcePdf ? setSourceVoter : undefined} />
+      )}
+
+      {/* Source Page Viewer */}
+      {sourceVoter && sourcePdf && (
+          <SourcePageViewer
+              pdf={sourcePdf}
+              voter={sourceVoter}
+              onSave={(edited) => {
+                  // Checked against the printed card, so it no longer needs review
+                  onUpdateVoter({ ...edited, reviewed: true });
+                  setSourceVoter(null);
+              }}
+              onClose={() => setSourceVoter(null)}
+          />
+      )}
+
       {/* Party Configuration Modal */}
       {showPartyConfig && (
           <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { PageReport, PageStatus, ENGINE_LABELS } from '../types';
+import { PriceTable, estimateCost, totalTokens, formatUsd } from '../services/usageService';
+
+interface PageReportPanelProps {
+  reports: PageReport[];
+  onRetryFailed: () => void;
+  isProcessing: boolean;
+  prices: PriceTable;
+}
+
+const STATUS_STYLES: Record<PageStatus, string> = {
+  SUCCESS: 'bg-emerald-100 text-emerald-800',
+  EMPTY: 'bg-yellow-100 text-yellow-800',
+  FAILED: 'bg-red-100 text-red-800'
+};
+
+const PageReportPanel: React.FC<PageReportPanelProps> = ({ reports, onRetryFailed, isProcessing, prices }) => {
+  const [expanded, setExpanded] = useState(false);
+
+  const counts = reports.reduce((acc, r) => {
+    acc[r.status]++;
+    return acc;
+  }, { SUCCESS: 0, EMPTY: 0, FAILED: 0 } as Record<PageStatus, number>);
+
+  // Problem pages first so they are visible without scrolling
+  const sorted = [...reports].sort((a, b) => {
+    const rank = (r: PageReport) => (r.status === 'FAILED' ? 0 : r.status === 'EMPTY' ? 1 : 2);
+    return rank(a) - rank(b) || a.pageNumber - b.pageNumber;
+  });
+
+  return (
+    <div className="mt-6 border border-gray-200 rounded-lg overflow-hidden">
+      <div className="p-3 bg-gray-50 flex flex-wrap items-center justify-between gap-2">
+        <div className="flex gap-2 text-xs font-medium">
+          <span className={`px-2 py-1 rounded ${STATUS_STYLES.SUCCESS}`}>{counts.SUCCESS} succeeded</span>
+          <span className={`px-2 py-1 rounded ${STATUS_STYLES.EMPTY}`}>{counts.EMPTY} empty</span>
+          <span className={`px-2 py-1 rounded ${STATUS_STYLES.FAILED}`}>{counts.FAILED} failed</span>
+        </div>
+        <div className="flex gap-3">
+          {counts.FAILED > 0 && (
+            <button
+              onClick={onRetryFailed}
+              disabled={isProcessing}
+              className="px-3 py-1 text-xs font-semibold bg-red-600 text-white rounded hover:bg-red-700 disabled:opacity-50"
+            >
+              Retry Failed Pages ({counts.FAILED})
+            </button>
+          )}
+          <button onClick={() => setExpanded(!expanded)} className="text-xs text-indigo-600 font-semibold hover:underline">
+            {expanded ? 'Hide Page Report' : 'Show Page Report'}
+          </button>
+        </div>
+      </div>
+
+      {expanded && (
+        <div className="max-h-64 overflow-y-auto divide-y divide-gray-100">
+          {sorted.map(r => (
+            <div key={r.pageNumber} className="px-3 py-2 grid grid-cols-12 gap-2 text-xs items-center">
+              <span className="col-span-2 font-mono text-gray-700">Page {r.pageNumber}</span>
+              <span className="col-span-2">
+                <span className={`px-1.5 py-0.5 rounded font-medium ${STATUS_STYLES[r.status]}`}>{r.status}</span>
+              </span>
+              <span className="col-span-2 text-gray-600">{r.voterCount} voters</span>
+              <span className="col-span-2 text-gray-500">
+                {r.engine ? ENGINE_LABELS[r.engine] : '-'}
+                {r.cached && <span className="ml-1 px-1 rounded bg-sky-100 text-sky-700 text-[10px]">cached</span>}
+              </span>
+              <span className="col-span-4 text-red-600 truncate" title={r.error}>{r.error || ''}</span>
+              {r.preprocessing && (
+                <span className="col-span-12 text-[10px] text-gray-400 font-mono">
+                  {r.preprocessing.method}{r.preprocessing.threshold !== undefined ? ` t=${r.preprocessing.threshold}` : ''}
+                  {' '}bg σ={r.preprocessing.backgroundStdDev} skew={r.preprocessing.skewAngle}° wm≥{r.preprocessing.watermarkCutoff}
+                  {' '}despeckle={r.preprocessing.despeckledPixels} ({r.preprocessing.durationMs}ms)
+                </span>
+              )}
+              {r.usage && (
+                <span className="col-span-12 text-[10px] text-gray-400 font-mono">
+                  gemini: {r.usage.calls} call(s){r.usage.failedCalls > 0 ? `, ${r.usage.failedCalls} failed` : ''}
+                  {' '}{totalTokens(r.usage).toLocaleString()} tokens ≈ {formatUsd(estimateCost(r.usage, prices).usd)}
+                </span>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PageReportPanel;
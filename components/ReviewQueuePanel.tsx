@@ -0,0 +1,121 @@
+import React, { useMemo, useState } from 'react';
+import { Voter, ConfidenceField, ENGINE_LABELS } from '../types';
+import { buildReviewQueue, CONFIDENCE_LABELS, REVIEW_THRESHOLD, ReviewItem } from '../services/confidenceService';
+
+interface ReviewQueuePanelProps {
+  voters: Voter[];
+  onUpdateVoter: (updatedVoter: Voter) => void;
+  onViewSource?: (voter: Voter) => void; // Only when the source PDF is loaded
+}
+
+const PAGE_SIZE = 25;
+
+const confidenceColor = (score: number) =>
+  score < 0.3 ? 'bg-red-100 text-red-800' : score < REVIEW_THRESHOLD ? 'bg-yellow-100 text-yellow-800' : 'bg-emerald-100 text-emerald-800';
+
+/**
+ * One queued voter: its low-confidence fields are editable in place
+ */
+const ReviewRow: React.FC<{ item: ReviewItem; onUpdateVoter: (v: Voter) => void; onViewSource?: (v: Voter) => void }> = ({ item, onUpdateVoter, onViewSource }) => {
+  const { voter, severity, fields } = item;
+  const [draft, setDraft] = useState<Partial<Record<ConfidenceField, string>>>({});
+
+  // EPIC is the record key, so it is corrected through re-extraction, not edited here
+  const editable = fields.filter(f => f !== 'epic_no');
+
+  const handleSave = () => onUpdateVoter({ ...voter, ...draft, reviewed: true });
+
+  return (
+    <div className="p-3 flex flex-col md:flex-row md:items-start gap-3">
+      <div className="md:w-56 shrink-0">
+        <div className="flex items-center gap-2">
+          <span className="text-xs font-mono font-bold text-gray-700">#{voter.sl_no || '?'}</span>
+          <span className={`text-xs font-mono ${voter.epicStatus === 'INVALID' ? 'text-red-600' : 'text-indigo-600'}`}>{voter.epic_no || '(no EPIC)'}</span>
+        </div>
+        <p className="text-sm font-medium text-gray-800 truncate">{voter.name_en}</p>
+        <p className="text-[10px] text-gray-400">
+          Page {voter.originalPage ?? '?'}{voter.engine ? ` • ${ENGINE_LABELS[voter.engine]}` : ''} • severity {severity.toFixed(2)}
+        </p>
+      </div>
+
+      <div className="flex-1 grid grid-cols-1 sm:grid-cols-2 gap-2">
+        {fields.map(field => (
+          <label key={field} className="block">
+            <span className="flex items-center gap-2 text-[10px] font-semibold text-gray-500 uppercase">
+              {CONFIDENCE_LABELS[field]}
+              <span className={`px-1.5 rounded normal-case ${confidenceColor(voter.confidence![field]!)}`}>
+                {Math.round(voter.confidence![field]! * 100)}%
+              </span>
+            </span>
+            <input
+              type="text"
+              value={draft[field] ?? String(voter[field] ?? '')}
+              onChange={e => setDraft(prev => ({ ...prev, [field]: e.target.value }))}
+              disabled={!editable.includes(field)}
+              className={`mt-0.5 w-full border border-gray-300 rounded px-2 py-1 text-sm disabled:bg-gray-50 disabled:text-gray-500 ${field === 'name_te' ? 'font-telugu' : ''}`}
+            />
+          </label>
+        ))}
+      </div>
+
+      <div className="flex md:flex-col gap-2 shrink-0">
+        <button onClick={handleSave} className="px-3 py-1.5 text-xs font-semibold bg-indigo-600 text-white rounded hover:bg-indigo-700">
+          {Object.keys(draft).length > 0 ? 'Save & Mark Reviewed' : 'Looks Correct'}
+        </button>
+        {onViewSource && voter.originalPage ? (
+          <button onClick={() => onViewSource(voter)} className="px-3 py-1.5 text-xs font-semibold bg-white border border-gray-300 text-gray-700 rounded hover:bg-gray-50">
+            View Page
+          </button>
+        ) : null}
+      </div>
+    </div>
+  );
+};
+
+const ReviewQueuePanel: React.FC<ReviewQueuePanelProps> = ({ voters, onUpdateVoter, onViewSource }) => {
+  const queue = useMemo(() => buildReviewQueue(voters), [voters]);
+  const [shown, setShown] = useState(PAGE_SIZE);
+  const reviewed = voters.filter(v => v.reviewed).length;
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg border border-gray-100 overflow-hidden animate-fade-in">
+      <div className="p-4 border-b border-gray-100 bg-gray-50 flex justify-between items-center">
+        <div>
+          <h3 className="text-lg font-bold text-gray-800">Review Queue</h3>
+          <p className="text-xs text-gray-500">
+            Voters with a field below {Math.round(REVIEW_THRESHOLD * 100)}% confidence, worst first. Fix or confirm them before polling day.
+          </p>
+        </div>
+        <div className="flex gap-2 text-xs font-medium">
+          <span className="px-2 py-1 rounded bg-yellow-100 text-yellow-800">{queue.length} to review</span>
+          <span className="px-2 py-1 rounded bg-emerald-100 text-emerald-800">{reviewed} reviewed</span>
+        </div>
+      </div>
+
+      {queue.length === 0 ? (
+        <div className="p-8 text-center text-sm text-emerald-700">Nothing to review. Every extracted field is above the confidence threshold.</div>
+      ) : (
+        <div className="divide-y divide-gray-100">
+          {queue.slice(0, shown).map(item => (
+            <ReviewRow
+              key={item.voter.id}
+              item={item}
+              onUpdateVoter={onUpdateVoter}
+              onViewSource={onViewSource}
+            />
+          ))}
+        </div>
+      )}
+
+      {queue.length > shown && (
+        <div className="p-3 border-t border-gray-100 text-center">
+          <button onClick={() => setShown(shown + PAGE_SIZE)} className="text-sm text-indigo-600 font-semibold hover:underline">
+            Show {Math.min(PAGE_SIZE, queue.length - shown)} more of {queue.length - shown}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReviewQueuePanel;
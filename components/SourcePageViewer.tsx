@@ -0,0 +1,156 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Voter, PdfDocument, ENGINE_LABELS, ConfidenceField } from '../types';
+import { REVIEW_THRESHOLD } from '../services/confidenceService';
+
+interface SourcePageViewerProps {
+  pdf: PdfDocument;
+  voter: Voter;
+  onSave: (voter: Voter) => void;
+  onClose: () => void;
+}
+
+// Fields that can be corrected against the page. EPIC is the record key, so it stays read-only here.
+const EDITABLE_FIELDS: { key: keyof Voter; label: string; script?: boolean }[] = [
+  { key: 'sl_no', label: 'Serial No' },
+  { key: 'name_en', label: 'Name (English)' },
+  { key: 'name_te', label: 'Name (Regional)', script: true },
+  { key: 'relative_name', label: 'Relative Name' },
+  { key: 'relative_name_te', label: 'Relative Name (Regional)', script: true },
+  { key: 'house_no', label: 'House No' },
+  { key: 'age', label: 'Age' },
+  { key: 'gender', label: 'Gender' }
+];
+
+// Rendered width of the page in CSS px; the canvas itself is scaled up for the device pixel ratio
+const PAGE_WIDTH = 720;
+
+/**
+ * The PDF page a voter was extracted from, with the source card highlighted, next to an edit form
+ */
+const SourcePageViewer: React.FC<SourcePageViewerProps> = ({ pdf, voter, onSave, onClose }) => {
+  const [draft, setDraft] = useState<Voter>(voter);
+  const [rendering, setRendering] = useState(true);
+  const [renderError, setRenderError] = useState<string | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const highlightRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => setDraft(voter), [voter]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const render = async () => {
+      setRendering(true);
+      setRenderError(null);
+      try {
+        const page = await pdf.getPage(voter.originalPage || 1);
+        const base = page.getViewport({ scale: 1 });
+        const ratio = window.devicePixelRatio || 1;
+        const viewport = page.getViewport({ scale: (PAGE_WIDTH / base.width) * ratio });
+        const canvas = canvasRef.current;
+        if (!canvas || cancelled) return;
+        canvas.width = Math.floor(viewport.width);
+        canvas.height = Math.floor(viewport.height);
+        const ctx = canvas.getContext('2d');
+        if (!ctx) throw new Error("Canvas context failed");
+        await page.render({ canvasContext: ctx, viewport }).promise;
+        page.cleanup();
+        if (cancelled) return;
+        setRendering(false);
+        highlightRef.current?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+      } catch (err: any) {
+        if (!cancelled) {
+          setRenderError(err?.message || String(err));
+          setRendering(false);
+        }
+      }
+    };
+    render();
+    return () => { cancelled = true; };
+  }, [pdf, voter.originalPage]);
+
+  const updateField = (key: keyof Voter, value: string) => setDraft(prev => ({ ...prev, [key]: value }));
+
+  const [ymin, xmin, ymax, xmax] = voter.cardBox || [];
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-6xl max-h-[90vh] flex flex-col">
+        <div className="px-5 py-3 border-b border-gray-100 flex justify-between items-center">
+          <div>
+            <h3 className="text-lg font-bold text-gray-900">Source Page {voter.originalPage}</h3>
+            <p className="text-xs text-gray-500">
+              EPIC <span className="font-mono">{voter.epic_no}</span>
+              {voter.engine && ` • read by ${ENGINE_LABELS[voter.engine]}`}
+              {!voter.cardBox && ' • card position not recorded for this voter'}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 p-2" aria-label="Close">✕</button>
+        </div>
+
+        <div className="flex-1 min-h-0 flex flex-col lg:flex-row">
+          <div className="flex-1 min-h-0 overflow-auto bg-gray-100 p-3">
+            <div className="relative mx-auto" style={{ width: PAGE_WIDTH }}>
+              <canvas ref={canvasRef} className="block w-full h-auto bg-white shadow" />
+              {voter.cardBox && !rendering && (
+                <div
+                  ref={highlightRef}
+                  className="absolute border-2 border-amber-500 bg-amber-300/20 rounded-sm pointer-events-none"
+                  style={{
+                    top: `${ymin / 10}%`,
+                    left: `${xmin / 10}%`,
+                    height: `${(ymax - ymin) / 10}%`,
+                    width: `${(xmax - xmin) / 10}%`
+                  }}
+                />
+              )}
+              {rendering && <p className="absolute inset-x-0 top-8 text-center text-sm text-gray-500">Rendering page…</p>}
+              {renderError && <p className="absolute inset-x-0 top-8 text-center text-sm text-red-600">Could not render page: {renderError}</p>}
+            </div>
+          </div>
+
+          <div className="lg:w-80 border-t lg:border-t-0 lg:border-l border-gray-100 p-4 overflow-y-auto">
+            <div className="space-y-3">
+              {EDITABLE_FIELDS.map(field => {
+                const score = voter.confidence?.[field.key as ConfidenceField];
+                return (
+                  <label key={field.key} className="block">
+                    <span className="text-xs font-semibold text-gray-500">
+                      {field.label}
+                      {score !== undefined && (
+                        <span className={`ml-2 font-normal ${score < REVIEW_THRESHOLD ? 'text-red-600' : 'text-gray-400'}`}>
+                          {Math.round(score * 100)}% sure
+                        </span>
+                      )}
+                    </span>
+                    <input
+                      type="text"
+                      value={(draft[field.key] as string | undefined) || ''}
+                      onChange={e => updateField(field.key, e.target.value)}
+                      className={`mt-1 w-full border border-gray-300 rounded px-2 py-1 text-sm ${field.script ? 'font-telugu' : ''}`}
+                    />
+                  </label>
+                );
+              })}
+            </div>
+            <div className="mt-4 flex gap-2">
+              <button
+                onClick={() => onSave(draft)}
+                className="flex-1 bg-indigo-600 text-white py-2 rounded-lg hover:bg-indigo-700 text-sm font-medium"
+              >
+                Save Changes
+              </button>
+              <button
+                onClick={onClose}
+                className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 text-sm font-medium"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SourcePageViewer;
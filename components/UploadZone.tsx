@@ -1,15 +1,27 @@
 import React from 'react';
+import { isZipFile } from '../services/photoBundle';
 
 interface UploadZoneProps {
   onFileSelect: (file: File) => void;
+  onBatchSelect?: (files: File[]) => void; // Several PDFs, or a zip of PDFs
   onDataFileSelect?: (file: File) => void;
   isProcessing: boolean;
 }
 
-const UploadZone: React.FC<UploadZoneProps> = ({ onFileSelect, isProcessing }) => {
+const UploadZone: React.FC<UploadZoneProps> = ({ onFileSelect, onBatchSelect, onDataFileSelect, isProcessing }) => {
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      onFileSelect(e.target.files[0]);
+    const files: File[] = e.target.files ? Array.from(e.target.files) : [];
+    if (files.length === 0) return;
+    if (onBatchSelect && (files.length > 1 || isZipFile(files[0]))) {
+      onBatchSelect(files);
+    } else {
+      onFileSelect(files[0]);
+    }
+  };
+
+  const handleDataFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (onDataFileSelect && e.target.files && e.target.files[0]) {
+      onDataFileSelect(e.target.files[0]);
     }
   };
 
@@ -30,19 +42,40 @@ const UploadZone: React.FC<UploadZoneProps> = ({ onFileSelect, isProcessing }) =
           <p className="mb-2 text-sm text-gray-500">
             <span className="font-semibold">Click to upload Electoral Roll PDF</span>
           </p>
-          <p className="text-xs text-gray-400">PDF files only (Max 300MB)</p>
+          <p className="text-xs text-gray-400">
+            {onBatchSelect ? 'PDF files (Max 300MB each). Select several, or a zip of PDFs, to queue a whole assembly' : 'PDF files only (Max 300MB)'}
+          </p>
         </div>
         {/* Updated accept attribute for better Android compatibility */}
         <input 
           id="pdf-upload" 
           type="file" 
-          accept="application/pdf,.pdf"
+          accept={onBatchSelect ? "application/pdf,.pdf,.zip,application/zip" : "application/pdf,.pdf"}
+          multiple={!!onBatchSelect}
           className="hidden" 
           onChange={handleFileChange}
           disabled={isProcessing}
           onClick={(e) => (e.target as HTMLInputElement).value = ''}
         />
       </label>
+
+      {onDataFileSelect && (
+        <label
+          htmlFor="data-upload"
+          className={`block text-center text-sm font-medium ${isProcessing ? 'text-gray-400 cursor-not-allowed' : 'text-indigo-600 hover:underline cursor-pointer'}`}
+        >
+          Or load saved data (CSV, Excel, zip with photos, or a saved session)
+          <input
+            id="data-upload"
+            type="file"
+            accept=".csv,text/csv,.xlsx,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet,.zip,application/zip,.json,application/json"
+            className="hidden"
+            onChange={handleDataFileChange}
+            disabled={isProcessing}
+            onClick={(e) => (e.target as HTMLInputElement).value = ''}
+          />
+        </label>
+      )}
     </div>
   );
 };
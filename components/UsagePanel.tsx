@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { UsageTotals, ModelUsageTotals } from '../types';
+import { PriceTable, estimateCost, totalTokens, formatUsd } from '../services/usageService';
+
+interface UsagePanelProps {
+  fileUsage: UsageTotals;
+  sessionUsage: UsageTotals;
+  prices: PriceTable;
+  onPricesChange: (prices: PriceTable) => void;
+}
+
+const UsageSummary: React.FC<{ label: string; usage: UsageTotals; prices: PriceTable }> = ({ label, usage, prices }) => {
+  const cost = estimateCost(usage, prices);
+  return (
+    <div className="flex-1 min-w-[10rem]">
+      <p className="text-[10px] font-semibold text-gray-500 uppercase tracking-wider">{label}</p>
+      <p className="text-lg font-bold text-gray-900">{formatUsd(cost.usd)}</p>
+      <p className="text-xs text-gray-500">
+        {totalTokens(usage).toLocaleString()} tokens, {usage.calls} calls{usage.failedCalls > 0 ? ` (${usage.failedCalls} failed)` : ''}
+      </p>
+      {cost.unpriced.length > 0 && (
+        <p className="text-[10px] text-amber-600">No price for {cost.unpriced.join(', ')}</p>
+      )}
+    </div>
+  );
+};
+
+const UsagePanel: React.FC<UsagePanelProps> = ({ fileUsage, sessionUsage, prices, onPricesChange }) => {
+  const [editing, setEditing] = useState(false);
+
+  const models = Array.from(new Set([...Object.keys(prices), ...Object.keys(sessionUsage.byModel)]));
+
+  const updatePrice = (model: string, field: 'inputPerMillion' | 'outputPerMillion', value: string) => {
+    const current = prices[model] || { inputPerMillion: 0, outputPerMillion: 0 };
+    const parsed = parseFloat(value);
+    onPricesChange({ ...prices, [model]: { ...current, [field]: isNaN(parsed) ? 0 : parsed } });
+  };
+
+  return (
+    <div className="mt-6 border border-gray-200 rounded-lg p-3">
+      <div className="flex flex-wrap gap-4">
+        <UsageSummary label="This PDF (estimated)" usage={fileUsage} prices={prices} />
+        <UsageSummary label="This Session (estimated)" usage={sessionUsage} prices={prices} />
+      </div>
+
+      {Object.keys(fileUsage.byModel).length > 0 && (
+        <div className="mt-2 flex flex-wrap gap-2">
+          {Object.entries(fileUsage.byModel).map(([model, m]: [string, ModelUsageTotals]) => (
+            <span key={model} className="text-[10px] px-2 py-0.5 bg-gray-100 rounded font-mono text-gray-600">
+              {model}: {m.calls} calls, {m.promptTokens.toLocaleString()} in / {m.outputTokens.toLocaleString()} out
+            </span>
+          ))}
+        </div>
+      )}
+
+      <button onClick={() => setEditing(!editing)} className="mt-2 text-xs text-indigo-600 font-semibold hover:underline">
+        {editing ? 'Hide Price Table' : 'Edit Price Table'}
+      </button>
+
+      {editing && (
+        <table className="mt-2 w-full text-xs">
+          <thead>
+            <tr className="text-gray-500 text-left">
+              <th className="font-medium py-1">Model</th>
+              <th className="font-medium py-1">$ / 1M input</th>
+              <th className="font-medium py-1">$ / 1M output</th>
+            </tr>
+          </thead>
+          <tbody>
+            {models.map(model => (
+              <tr key={model}>
+                <td className="py-1 font-mono text-gray-700">{model}</td>
+                {(['inputPerMillion', 'outputPerMillion'] as const).map(field => (
+                  <td key={field} className="py-1 pr-2">
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={prices[model]?.[field] ?? 0}
+                      onChange={e => updatePrice(model, field, e.target.value)}
+                      className="w-24 border border-gray-300 rounded px-1 py-0.5"
+                    />
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default UsagePanel;
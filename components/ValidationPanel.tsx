@@ -0,0 +1,67 @@
+import React, { useMemo } from 'react';
+import { Voter } from '../types';
+import { validateRoll, ValidationFindingType } from '../services/validationService';
+
+interface ValidationPanelProps {
+  voters: Voter[];
+  onSelectPage: (pageNumber: number) => void;
+}
+
+const TYPE_LABELS: Record<ValidationFindingType, string> = {
+  SERIAL_GAP: 'Serial Gap',
+  SERIAL_REPEAT: 'Repeated Serial',
+  DUPLICATE_EPIC: 'Duplicate EPIC',
+  PAGE_ORDER: 'Page Order',
+  HEADER_MISMATCH: 'Header Mismatch',
+  INVALID_EPIC: 'Invalid EPIC',
+  EPIC_CORRECTED: 'EPIC Corrected'
+};
+
+const ValidationPanel: React.FC<ValidationPanelProps> = ({ voters, onSelectPage }) => {
+  const report = useMemo(() => validateRoll(voters), [voters]);
+  const errors = report.findings.filter(f => f.severity === 'ERROR').length;
+  const warnings = report.findings.length - errors;
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg border border-gray-100 overflow-hidden animate-fade-in">
+      <div className="p-4 border-b border-gray-100 bg-gray-50 flex justify-between items-center">
+        <div>
+          <h3 className="text-lg font-bold text-gray-800">Roll Completeness Review</h3>
+          <p className="text-xs text-gray-500">Checked {voters.length} voters for serial gaps, duplicates, EPIC format and header consistency.</p>
+        </div>
+        <div className="flex gap-2 text-xs font-medium">
+          <span className="px-2 py-1 rounded bg-red-100 text-red-800">{errors} errors</span>
+          <span className="px-2 py-1 rounded bg-yellow-100 text-yellow-800">{warnings} warnings</span>
+        </div>
+      </div>
+
+      {report.findings.length === 0 ? (
+        <div className="p-8 text-center text-sm text-emerald-700">No problems found. The roll looks complete.</div>
+      ) : (
+        <div className="divide-y divide-gray-100 max-h-[60vh] overflow-y-auto">
+          {report.findings.map((finding, idx) => (
+            <div key={idx} className="p-3 flex flex-col sm:flex-row sm:items-center gap-2">
+              <span className={`shrink-0 w-32 text-xs font-semibold px-2 py-0.5 rounded text-center ${finding.severity === 'ERROR' ? 'bg-red-100 text-red-800' : 'bg-yellow-100 text-yellow-800'}`}>
+                {TYPE_LABELS[finding.type]}
+              </span>
+              <span className="flex-1 text-sm text-gray-700">{finding.message}</span>
+              <div className="flex flex-wrap gap-1">
+                {finding.pages.map(p => (
+                  <button
+                    key={p}
+                    onClick={() => onSelectPage(p)}
+                    className="text-xs font-mono text-indigo-600 hover:text-indigo-800 underline"
+                  >
+                    Page {p}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ValidationPanel;
@@ -1,5 +1,6 @@
 import React from 'react';
-import { Voter } from '../types';
+import { Voter, ENGINE_LABELS } from '../types';
+import VoterPhoto from './VoterPhoto';
 
 interface VoterCardProps {
   voter: Voter;
@@ -9,19 +10,17 @@ const VoterCard: React.FC<VoterCardProps> = ({ voter }) => {
   return (
     <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4 flex gap-4 hover:shadow-md transition-shadow duration-200">
       <div className="flex-shrink-0">
-        {voter.photoBase64 ? (
-          <img 
-            src={voter.photoBase64} 
-            alt={voter.name_en} 
-            className="w-20 h-24 object-cover rounded-md border border-gray-300 bg-gray-100"
-          />
-        ) : (
-          <div className="w-20 h-24 bg-gray-100 rounded-md border border-gray-300 flex items-center justify-center text-gray-400">
-            <svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8" viewBox="0 0 20 20" fill="currentColor">
-              <path fillRule="evenodd" d="M10 9a3 3 0 100-6 3 3 0 000 6zm-7 9a7 7 0 1114 0H3z" clipRule="evenodd" />
-            </svg>
-          </div>
-        )}
+        <VoterPhoto
+          voter={voter}
+          className="w-20 h-24 overflow-hidden rounded-md border border-gray-300 bg-gray-100"
+          placeholder={
+            <div className="w-20 h-24 bg-gray-100 rounded-md border border-gray-300 flex items-center justify-center text-gray-400">
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8" viewBox="0 0 20 20" fill="currentColor">
+                <path fillRule="evenodd" d="M10 9a3 3 0 100-6 3 3 0 000 6zm-7 9a7 7 0 1114 0H3z" clipRule="evenodd" />
+              </svg>
+            </div>
+          }
+        />
         <div className="mt-2 text-xs text-center text-gray-500 font-mono">
           {voter.sl_no}
         </div>
@@ -43,6 +42,11 @@ const VoterCard: React.FC<VoterCardProps> = ({ voter }) => {
         <p className="text-sm font-medium text-gray-700 truncate">
           {voter.name_en}
         </p>
+        {(voter.relative_name || voter.relative_name_te) && (
+          <p className="text-xs text-gray-500 truncate">
+            Rel: {voter.relative_name}{voter.relative_name_te && <span className="font-telugu ml-1">{voter.relative_name_te}</span>}
+          </p>
+        )}
         
         <div className="mt-3 flex items-center text-xs text-gray-500 space-x-3">
           <div className="flex items-center">
@@ -51,6 +55,9 @@ const VoterCard: React.FC<VoterCardProps> = ({ voter }) => {
           <div className="flex items-center">
             <span className="font-semibold mr-1">Sex:</span> {voter.gender}
           </div>
+          {voter.engine && (
+            <span className="px-1.5 py-0.5 rounded bg-gray-100 text-gray-500">{ENGINE_LABELS[voter.engine]}</span>
+          )}
         </div>
       </div>
     </div>
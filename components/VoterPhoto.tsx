@@ -0,0 +1,56 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Voter } from '../types';
+import { getThumbnailUrl } from '../services/photoStore';
+
+interface VoterPhotoProps {
+  voter: Voter;
+  className: string;
+  placeholder?: React.ReactNode; // Rendered when the voter has no photo
+}
+
+/**
+ * Voter thumbnail from the photo store, loaded only once the image scrolls into view
+ */
+const VoterPhoto: React.FC<VoterPhotoProps> = ({ voter, className, placeholder = null }) => {
+  const [src, setSrc] = useState<string | null>(voter.photoBase64 || null);
+  const [visible, setVisible] = useState(false);
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const el = ref.current;
+    if (!el || visible) return;
+    if (typeof IntersectionObserver === 'undefined') {
+      setVisible(true);
+      return;
+    }
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(e => e.isIntersecting)) setVisible(true);
+    }, { rootMargin: '200px' });
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, [visible, voter.hasPhoto]);
+
+  useEffect(() => {
+    if (voter.photoBase64) {
+      setSrc(voter.photoBase64);
+      return;
+    }
+    if (!voter.hasPhoto || !visible) {
+      setSrc(null);
+      return;
+    }
+    let cancelled = false;
+    getThumbnailUrl(voter.epic_no).then(url => { if (!cancelled) setSrc(url); });
+    return () => { cancelled = true; };
+  }, [voter.epic_no, voter.hasPhoto, voter.photoBase64, visible]);
+
+  if (!voter.hasPhoto && !voter.photoBase64) return <>{placeholder}</>;
+
+  return (
+    <div ref={ref} className={className}>
+      {src && <img src={src} alt={voter.name_en} className="w-full h-full object-cover" />}
+    </div>
+  );
+};
+
+export default VoterPhoto;
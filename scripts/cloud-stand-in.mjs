@@ -0,0 +1,217 @@
+// Local stand-in for the cloud conversion engine, speaking the streaming protocol in services/apiService.ts.
+// It does not read the PDF: every upload becomes a job that emits made-up voters page by page.
+//
+//   npm run cloud:stand-in            then set CLOUD_ENGINE_URL=http://localhost:8787 in .env.local
+//
+// Knobs (environment variables):
+//   PORT              listen port (8787)
+//   STAND_IN_PAGES    roll pages after the two cover pages (6)
+//   STAND_IN_PAGE_MS  delay between pages (800)
+//   STAND_IN_FORMAT   force 'ndjson', 'sse' or 'csv' instead of following the Accept header
+//   STAND_IN_DROP_AFTER  close the first connection of each job after this many events, to exercise resume
+//   STAND_IN_STALL_AT    stop emitting before this page, to exercise the idle timeout
+//   STAND_IN_FAIL_AT     emit an error event instead of this page
+//   STAND_IN_REQUIRE_AUTH  answer 401 to requests without a Bearer token (set to 1)
+
+import http from 'node:http';
+import { randomUUID } from 'node:crypto';
+
+const PORT = Number(process.env.PORT) || 8787;
+const PAGES = Number(process.env.STAND_IN_PAGES) || 6;
+const PAGE_MS = Number(process.env.STAND_IN_PAGE_MS) || 800;
+const FORMAT = process.env.STAND_IN_FORMAT || '';
+const DROP_AFTER = Number(process.env.STAND_IN_DROP_AFTER) || 0;
+const STALL_AT = Number(process.env.STAND_IN_STALL_AT) || 0;
+const FAIL_AT = Number(process.env.STAND_IN_FAIL_AT) || 0;
+const REQUIRE_AUTH = process.env.STAND_IN_REQUIRE_AUTH === '1';
+const VOTERS_PER_PAGE = 30;
+
+const FIRST_NAMES = ['Ramesh', 'Lakshmi', 'Srinivas', 'Padma', 'Venkatesh', 'Anitha', 'Mahesh', 'Sujatha', 'Ravi', 'Kavitha'];
+const SURNAMES = ['Reddy', 'Rao', 'Goud', 'Naidu', 'Sharma', 'Yadav'];
+
+/** @type {Map<string, { events: object[], done: boolean, timer: NodeJS.Timeout | null, listeners: Set<(e: object) => void>, emit: (e: object) => void }>} */
+const jobs = new Map();
+
+const makeVoters = (page, partNo) => Array.from({ length: VOTERS_PER_PAGE }, (_, i) => {
+  const serial = (page - 3) * VOTERS_PER_PAGE + i + 1;
+  const female = serial % 2 === 0;
+  return {
+    sl_no: String(serial),
+    epic_no: `STI${String(partNo * 10000 + serial).padStart(7, '0')}`,
+    name_en: `${FIRST_NAMES[serial % FIRST_NAMES.length]} ${SURNAMES[serial % SURNAMES.length]}`,
+    name_te: '',
+    relative_name: `${FIRST_NAMES[(serial + 3) % FIRST_NAMES.length]} ${SURNAMES[serial % SURNAMES.length]}`,
+    house_no: `${1 + (serial % 40)}-${serial % 7}`,
+    age: String(18 + (serial * 7) % 70),
+    gender: female ? 'F' : 'M',
+    assembly_name: 'Stand-in Assembly',
+    parliament_name: 'Stand-in Parliament',
+    polling_station_no: String(partNo),
+    originalPage: page
+  };
+});
+
+const startJob = (bytes) => {
+  const id = randomUUID();
+  // Uploads of different sizes land in different booths, so batch runs show several
+  const partNo = 1 + (bytes % 250);
+  const totalPages = PAGES + 2;
+  const job = { events: [], done: false, timer: null, listeners: new Set(), emit: null };
+  jobs.set(id, job);
+
+  const emit = (event) => {
+    job.events.push(event);
+    for (const listener of job.listeners) listener(event);
+  };
+  job.emit = emit;
+
+  emit({ type: 'job', jobId: id, totalPages });
+  let page = 3;
+  const next = () => {
+    if (page > totalPages) {
+      emit({ type: 'done', voterCount: PAGES * VOTERS_PER_PAGE });
+      job.done = true;
+      return;
+    }
+    if (page === STALL_AT) return;
+    if (page === FAIL_AT) {
+      emit({ type: 'error', message: `Stand-in failure on page ${page}` });
+      job.done = true;
+      return;
+    }
+    emit({ type: 'progress', page, totalPages, message: `Converting page ${page} of ${totalPages}...` });
+    emit({ type: 'page', page, totalPages, voters: makeVoters(page, partNo) });
+    page++;
+    job.timer = setTimeout(next, PAGE_MS);
+  };
+  job.timer = setTimeout(next, PAGE_MS);
+  return id;
+};
+
+const cors = (res) => {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type, Accept');
+};
+
+const pickFormat = (req, url) => {
+  const forced = url.searchParams.get('format') || FORMAT;
+  if (forced) return forced;
+  const accept = req.headers.accept || '';
+  if (accept.includes('application/x-ndjson')) return 'ndjson';
+  if (accept.includes('text/event-stream')) return 'sse';
+  return 'csv';
+};
+
+const csvCell = (value) => `"${String(value ?? '').replace(/"/g, '""')}"`;
+
+// The original protocol: one CSV once the whole job is done
+const sendCsv = (res, job) => {
+  const header = 'Serial No,EPIC No,Name (English),Name (Telugu),Relation Name,House No,Age,Gender,Assembly,Parliament,Polling Station,Voted?,Party,Page No,Timestamp,Engine';
+  const rows = job.events.filter(e => e.type === 'page').flatMap(e => e.voters).map(v => [
+    v.sl_no, v.epic_no, csvCell(v.name_en), csvCell(v.name_te), csvCell(v.relative_name), csvCell(v.house_no),
+    v.age, v.gender, csvCell(v.assembly_name), csvCell(v.parliament_name), csvCell(v.polling_station_no),
+    'NO', '', v.originalPage, '', ''
+  ].join(','));
+  res.writeHead(200, { 'Content-Type': 'text/csv; charset=utf-8' });
+  res.end([header, ...rows].join('\n'));
+};
+
+const streamJob = (req, res, jobId, format, after, dropAfter) => {
+  const job = jobs.get(jobId);
+  res.writeHead(200, {
+    'Content-Type': format === 'sse' ? 'text/event-stream' : 'application/x-ndjson',
+    'Cache-Control': 'no-cache'
+  });
+  let index = after;
+  let sent = 0;
+  const write = (event) => {
+    res.write(format === 'sse' ? `id: ${index}\ndata: ${JSON.stringify(event)}\n\n` : `${JSON.stringify(event)}\n`);
+    index++;
+    sent++;
+    if (event.type === 'done' || event.type === 'error') {
+      res.end();
+    } else if (dropAfter && sent >= dropAfter) {
+      console.log(`job ${jobId}: dropping connection after ${sent} events`);
+      res.destroy();
+    }
+  };
+  for (const event of job.events.slice(after)) {
+    if (res.writableEnded || res.destroyed) return;
+    write(event);
+  }
+  if (job.done || res.writableEnded || res.destroyed) return;
+  const listener = (event) => write(event);
+  job.listeners.add(listener);
+  res.on('close', () => job.listeners.delete(listener));
+};
+
+const server = http.createServer((req, res) => {
+  cors(res);
+  const url = new URL(req.url || '/', `http://localhost:${PORT}`);
+  const jobMatch = url.pathname.match(/^\/jobs\/([^/]+)(\/stream)?$/);
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204).end();
+    return;
+  }
+
+  // Tokens are not verified, only required; the real engine checks them with the Firebase Admin SDK
+  if (REQUIRE_AUTH && !/^Bearer \S+/.test(req.headers.authorization || '')) {
+    res.writeHead(401, { 'Content-Type': 'text/plain' }).end('Missing ID token');
+    return;
+  }
+
+  if (req.method === 'GET' && url.pathname === '/health') {
+    res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify({ status: 'ok', jobs: jobs.size }));
+    return;
+  }
+
+  if (req.method === 'POST' && url.pathname === '/') {
+    let bytes = 0;
+    req.on('data', chunk => { bytes += chunk.length; });
+    req.on('end', () => {
+      const jobId = startJob(bytes);
+      const format = pickFormat(req, url);
+      console.log(`job ${jobId}: ${bytes} bytes uploaded, answering as ${format}`);
+      if (format === 'csv') {
+        const job = jobs.get(jobId);
+        const wait = setInterval(() => {
+          if (!job.done) return;
+          clearInterval(wait);
+          sendCsv(res, job);
+        }, 100);
+        res.on('close', () => clearInterval(wait));
+        return;
+      }
+      streamJob(req, res, jobId, format, 0, DROP_AFTER);
+    });
+    return;
+  }
+
+  if (jobMatch && !jobs.has(jobMatch[1])) {
+    res.writeHead(404, { 'Content-Type': 'text/plain' }).end('Unknown job');
+    return;
+  }
+
+  if (req.method === 'GET' && jobMatch?.[2]) {
+    const after = Math.max(0, Number(url.searchParams.get('after')) || 0);
+    console.log(`job ${jobMatch[1]}: resumed after ${after} events`);
+    streamJob(req, res, jobMatch[1], pickFormat(req, url), after, 0);
+    return;
+  }
+
+  if (req.method === 'DELETE' && jobMatch && !jobMatch[2]) {
+    const job = jobs.get(jobMatch[1]);
+    clearTimeout(job.timer);
+    if (!job.done) job.emit({ type: 'error', message: 'Job cancelled' });
+    jobs.delete(jobMatch[1]);
+    console.log(`job ${jobMatch[1]}: cancelled`);
+    res.writeHead(204).end();
+    return;
+  }
+
+  res.writeHead(404, { 'Content-Type': 'text/plain' }).end('Not found');
+});
+
+server.listen(PORT, () => console.log(`Cloud engine stand-in listening on http://localhost:${PORT}`));
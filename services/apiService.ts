@@ -1,19 +1,350 @@
+import { Voter, ENGINE_LABELS, ExtractionEngineId, CloudHealth } from '../types';
+import { applyEpicNormalization } from './epicService';
+import { auth } from './firebase';
 
-export const uploadPdfToCloud = async (file: File): Promise<string> => {
-  const formData = new FormData();
-  formData.append('file', file);
+/**
+ * Client for the cloud conversion engine.
+ *
+ * POST <CLOUD_ENGINE_URL>/ with the PDF in the `file` form field. The engine answers either with one CSV
+ * (the original protocol) or with a stream of JSON events, as NDJSON (one per line) or SSE (`data:` lines):
+ *   { "type": "job", "jobId": "...", "totalPages": 40 }
+ *   { "type": "progress", "page": 3, "totalPages": 40, "message": "..." }
+ *   { "type": "page", "page": 3, "totalPages": 40, "voters": [{ "sl_no": "1", "epic_no": "...", ... }] }
+ *   { "type": "done", "voterCount": 1180 }
+ *   { "type": "error", "message": "..." }
+ * GET <url>/jobs/<jobId>/stream?after=<n> replays a job's events from the n-th on (0-based), so a dropped
+ * connection or a reload resumes instead of converting again. DELETE <url>/jobs/<jobId> cancels a job.
+ * GET <url>/health answers 200 when the engine is ready.
+ * Every request carries the signed-in user's Firebase ID token as a Bearer token.
+ * scripts/cloud-stand-in.mjs implements the protocol locally.
+ */
 
-  // Sending to the Cloud Run endpoint
-  // We assume the endpoint accepts a POST request with the file in 'file' field
-  const response = await fetch('https://multiple-booth-pdf-to-csv-converter-840142183900.us-west1.run.app/', {
-    method: 'POST',
-    body: formData,
+export const CLOUD_ENGINE_URL = (process.env.CLOUD_ENGINE_URL || 'https://multiple-booth-pdf-to-csv-converter-840142183900.us-west1.run.app').replace(/\/+$/, '');
+
+// The probe runs at startup, so it must not hold the upload screen up for long
+const HEALTH_TIMEOUT_MS = 5000;
+
+// Longest wait for any byte from the engine before the conversion is treated as hung
+export const DEFAULT_CLOUD_IDLE_TIMEOUT_MS = Number(process.env.CLOUD_TIMEOUT_MS) || 300_000;
+
+// Reconnects to a running job after the stream drops
+const MAX_RESUME_ATTEMPTS = 3;
+
+export type CloudVoterRow = Partial<Record<keyof Voter, string | number | null>>;
+
+type CloudStreamEvent =
+  | { type: 'job'; jobId: string; totalPages?: number }
+  | { type: 'progress'; page?: number; totalPages?: number; message?: string }
+  | { type: 'page'; page: number; totalPages?: number; voters: CloudVoterRow[] }
+  | { type: 'done'; voterCount?: number }
+  | { type: 'error'; message: string };
+
+export interface CloudProgress {
+  jobId: string | null;
+  page?: number;
+  totalPages?: number;
+  message?: string;
+}
+
+export interface CloudConversionOptions {
+  signal?: AbortSignal; // Aborting cancels the job on the engine as well
+  idleTimeoutMs?: number;
+  resumeJobId?: string; // Job started earlier for the same PDF, e.g. before a reload
+  onJob?: (jobId: string) => void;
+  onProgress?: (progress: CloudProgress) => void;
+  onPage?: (page: number, voters: Voter[]) => void; // Voters of one page as soon as the engine has them
+}
+
+// Streaming engines hand back voters; the original one returns a whole CSV
+export type CloudConversionResult =
+  | { format: 'CSV'; csv: string }
+  | { format: 'STREAM'; jobId: string | null; voters: Voter[] };
+
+const text = (value: unknown): string => (value === null || value === undefined ? '' : String(value));
+
+export const cloudRowToVoter = (row: CloudVoterRow, page: number): Voter => {
+  const engine = text(row.engine);
+  return applyEpicNormalization({
+    sl_no: text(row.sl_no),
+    epic_no: text(row.epic_no),
+    name_en: text(row.name_en),
+    name_te: text(row.name_te),
+    relative_name: text(row.relative_name),
+    relative_name_te: row.relative_name_te ? text(row.relative_name_te) : undefined,
+    house_no: text(row.house_no),
+    age: text(row.age),
+    gender: text(row.gender),
+    assembly_name: text(row.assembly_name),
+    parliament_name: text(row.parliament_name),
+    polling_station_no: text(row.polling_station_no),
+    originalPage: Number(row.originalPage) || page,
+    engine: engine in ENGINE_LABELS ? engine as ExtractionEngineId : undefined,
+    isVoted: false,
+    votedParty: null
   });
+};
+
+const isAbortError = (err: any) => err?.name === 'AbortError';
+
+/**
+ * Authorization header with a fresh Firebase ID token; the SDK refreshes it when close to expiry
+ */
+const authHeaders = async (): Promise<Record<string, string>> => {
+  const token = await auth.currentUser?.getIdToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+};
+
+/**
+ * Checks the engine is reachable and accepts our token. An engine without a health route
+ * (404/405) is reachable but its readiness is unknown.
+ */
+export const probeCloudEngine = async (): Promise<CloudHealth> => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), HEALTH_TIMEOUT_MS);
+  const startedAt = Date.now();
+  const checkedAt = new Date().toISOString();
+  try {
+    const response = await fetch(`${CLOUD_ENGINE_URL}/health`, { headers: await authHeaders(), signal: controller.signal });
+    const latencyMs = Date.now() - startedAt;
+    if (response.ok) return { status: 'ONLINE', latencyMs, checkedAt };
+    if (response.status === 401 || response.status === 403) {
+      return { status: 'UNAUTHORIZED', latencyMs, checkedAt, error: `HTTP ${response.status}` };
+    }
+    if (response.status === 404 || response.status === 405) return { status: 'UNKNOWN', latencyMs, checkedAt };
+    return { status: 'OFFLINE', latencyMs, checkedAt, error: `HTTP ${response.status}` };
+  } catch (err: any) {
+    return { status: 'OFFLINE', checkedAt, error: isAbortError(err) ? `No answer within ${HEALTH_TIMEOUT_MS / 1000}s` : err?.message || String(err) };
+  } finally {
+    clearTimeout(timer);
+  }
+};
 
-  if (!response.ok) {
-    const errorText = await response.text().catch(() => response.statusText);
-    throw new Error(`Cloud Engine Error (${response.status}): ${errorText}`);
+/**
+ * Yields the JSON events of an NDJSON or SSE body. Each chunk read counts as activity for the idle timer.
+ */
+async function* readEvents(body: ReadableStream<Uint8Array>, sse: boolean, onActivity: () => void): AsyncGenerator<CloudStreamEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let data: string[] = [];
+
+  const parse = (payload: string): CloudStreamEvent | null => {
+    try {
+      return JSON.parse(payload);
+    } catch {
+      console.warn("Skipping malformed cloud event", payload.slice(0, 200));
+      return null;
+    }
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      onActivity();
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split(/\r?\n/);
+      buffer = lines.pop() || '';
+      for (const line of lines) {
+        if (!sse) {
+          const event = line.trim() ? parse(line) : null;
+          if (event) yield event;
+          continue;
+        }
+        // SSE: an event is its data lines up to a blank line; comments and other fields are keep-alives
+        if (line.startsWith('data:')) {
+          data.push(line.slice(5).trimStart());
+        } else if (line === '' && data.length > 0) {
+          const event = parse(data.join('\n'));
+          data = [];
+          if (event) yield event;
+        }
+      }
+    }
+    const tail = sse ? data.join('\n') : buffer.trim();
+    if (tail) {
+      const event = parse(tail);
+      if (event) yield event;
+    }
+  } finally {
+    reader.releaseLock();
   }
+}
+
+/**
+ * Reads a plain-text body. Each chunk read counts as activity for the idle timer, as in readEvents.
+ */
+const readText = async (body: ReadableStream<Uint8Array>, onActivity: () => void): Promise<string> => {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let text = '';
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      onActivity();
+      text += decoder.decode(value, { stream: true });
+    }
+    return text + decoder.decode();
+  } finally {
+    reader.releaseLock();
+  }
+};
+
+/**
+ * Best effort: tells the engine to stop a job nobody is waiting for
+ */
+export const cancelCloudJob = async (jobId: string): Promise<void> => {
+  await authHeaders()
+    .then(headers => fetch(`${CLOUD_ENGINE_URL}/jobs/${encodeURIComponent(jobId)}`, { method: 'DELETE', headers }))
+    .catch(err => console.warn("Could not cancel cloud job", err));
+};
+
+/**
+ * Converts a PDF on the cloud engine, streaming voters and progress when the engine supports it.
+ * Rejects with an AbortError when cancelled through `signal`, and with a timeout error when the
+ * engine stays silent for `idleTimeoutMs`. Uploading the PDF does not count as silence: the timer
+ * starts once the engine answers.
+ */
+export const convertPdfInCloud = async (file: File, options: CloudConversionOptions = {}): Promise<CloudConversionResult> => {
+  const idleTimeoutMs = options.idleTimeoutMs ?? DEFAULT_CLOUD_IDLE_TIMEOUT_MS;
+  const controller = new AbortController();
+  let timedOut = false;
+  let idleTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const resetIdleTimer = () => {
+    clearTimeout(idleTimer);
+    idleTimer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, idleTimeoutMs);
+  };
+  const onUserAbort = () => controller.abort();
+  options.signal?.addEventListener('abort', onUserAbort);
+  if (options.signal?.aborted) controller.abort();
 
-  return await response.text();
+  let jobId: string | null = options.resumeJobId || null;
+  let totalPages: number | undefined;
+  let finished = false;
+  let engineError: string | null = null;
+  let received = 0; // Events of this job read so far, across reconnects
+  const seenPages = new Set<number>();
+  const voters: Voter[] = [];
+
+  const handle = (event: CloudStreamEvent) => {
+    received++;
+    switch (event.type) {
+      case 'job':
+        jobId = event.jobId;
+        totalPages = event.totalPages ?? totalPages;
+        options.onJob?.(event.jobId);
+        options.onProgress?.({ jobId, totalPages, message: 'Cloud Engine accepted the PDF' });
+        break;
+      case 'progress':
+        totalPages = event.totalPages ?? totalPages;
+        options.onProgress?.({ jobId, page: event.page, totalPages, message: event.message });
+        break;
+      case 'page': {
+        totalPages = event.totalPages ?? totalPages;
+        // Replayed pages after a resume are already in hand
+        if (seenPages.has(event.page)) break;
+        seenPages.add(event.page);
+        const pageVoters = (event.voters || []).map(row => cloudRowToVoter(row, event.page));
+        voters.push(...pageVoters);
+        options.onPage?.(event.page, pageVoters);
+        options.onProgress?.({ jobId, page: event.page, totalPages });
+        break;
+      }
+      case 'done':
+        finished = true;
+        break;
+      case 'error':
+        engineError = event.message;
+        break;
+    }
+  };
+
+  const request = async (resume: boolean): Promise<Response> => {
+    clearTimeout(idleTimer);
+    const headers = await authHeaders();
+    let response: Response;
+    if (resume && jobId) {
+      // Nothing to upload, so waiting for the engine already counts
+      resetIdleTimer();
+      response = await fetch(`${CLOUD_ENGINE_URL}/jobs/${encodeURIComponent(jobId)}/stream?after=${received}`, {
+        headers: { ...headers, Accept: 'application/x-ndjson, text/event-stream' },
+        signal: controller.signal
+      });
+    } else {
+      // A 300 MB roll on a slow mobile link can take longer than the idle timeout to upload
+      const formData = new FormData();
+      formData.append('file', file);
+      response = await fetch(`${CLOUD_ENGINE_URL}/`, {
+        method: 'POST',
+        body: formData,
+        headers: { ...headers, Accept: 'application/x-ndjson, text/event-stream;q=0.9, text/csv;q=0.5' },
+        signal: controller.signal
+      });
+    }
+    resetIdleTimer();
+    return response;
+  };
+
+  try {
+    let response: Response | null = null;
+    if (jobId) {
+      response = await request(true);
+      // The engine no longer knows the job (or cannot resume at all); convert from scratch
+      if (!response.ok && response.status !== 401 && response.status !== 403) {
+        jobId = null;
+        response = null;
+      }
+    }
+    if (!response) response = await request(false);
+
+    for (let attempt = 0; ; attempt++) {
+      if (response.status === 401 || response.status === 403) {
+        throw new Error(`Cloud Engine rejected the sign-in token (${response.status}); sign out and in again`);
+      }
+      if (!response.ok) {
+        const errorText = await response.text().catch(() => response!.statusText);
+        throw new Error(`Cloud Engine Error (${response.status}): ${errorText}`);
+      }
+
+      const contentType = response.headers.get('Content-Type') || '';
+      const streamed = /ndjson|event-stream/i.test(contentType);
+      if (!streamed || !response.body) {
+        return { format: 'CSV', csv: response.body ? await readText(response.body, resetIdleTimer) : await response.text() };
+      }
+
+      try {
+        for await (const event of readEvents(response.body, /event-stream/i.test(contentType), resetIdleTimer)) {
+          handle(event);
+          if (finished || engineError) break;
+        }
+      } catch (err) {
+        // Dropped connections resume from the last page received; cancel and timeout do not
+        if (isAbortError(err) || !jobId || attempt >= MAX_RESUME_ATTEMPTS) throw err;
+        console.warn(`Cloud stream dropped, resuming job ${jobId}`, err);
+      }
+      if (engineError) throw new Error(`Cloud Engine Error: ${engineError}`);
+      if (finished) return { format: 'STREAM', jobId, voters };
+      if (!jobId || attempt >= MAX_RESUME_ATTEMPTS) throw new Error('Cloud Engine stream ended before the conversion finished');
+
+      await new Promise(resolve => setTimeout(resolve, 1000 * (attempt + 1)));
+      options.onProgress?.({ jobId, totalPages, message: 'Reconnecting to Cloud Engine...' });
+      response = await request(true);
+    }
+  } catch (err: any) {
+    if (timedOut) {
+      if (jobId) cancelCloudJob(jobId);
+      throw new Error(`Cloud Engine timed out after ${Math.round(idleTimeoutMs / 1000)}s without progress`);
+    }
+    // Nobody will collect this job's results, so stop paying for it
+    if (jobId) cancelCloudJob(jobId);
+    throw err;
+  } finally {
+    clearTimeout(idleTimer);
+    options.signal?.removeEventListener('abort', onUserAbort);
+  }
 };
@@ -0,0 +1,190 @@
+import { Unzip, UnzipInflate } from 'fflate';
+import { BatchItem, BoothResult } from '../types';
+import { openDb, requestToPromise, transactionDone, hashFile, STORES } from './indexedDb';
+import { isZipFile } from './photoBundle';
+
+/**
+ * Persistent queue for batch uploads of a whole assembly (250+ part PDFs).
+ * Queue entries, the PDF bytes waiting their turn and the finished booths all live in IndexedDB,
+ * so a reload picks the queue up where it stopped.
+ */
+
+interface BatchFileRecord {
+  id: string;
+  file: Blob;
+}
+
+const isPdfName = (name: string) => /\.pdf$/i.test(name) && !name.split('/').pop()!.startsWith('._');
+
+export const listBatchItems = async (): Promise<BatchItem[]> => {
+  const db = await openDb();
+  const items: BatchItem[] = await requestToPromise(db.transaction(STORES.BATCH_ITEMS, 'readonly').objectStore(STORES.BATCH_ITEMS).getAll());
+  return items.sort((a, b) => a.addedAt - b.addedAt || a.fileName.localeCompare(b.fileName, undefined, { numeric: true }));
+};
+
+export const saveBatchItem = async (item: BatchItem): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(STORES.BATCH_ITEMS, 'readwrite');
+  tx.objectStore(STORES.BATCH_ITEMS).put(item);
+  await transactionDone(tx);
+};
+
+export const getBatchFile = async (item: BatchItem): Promise<File | null> => {
+  const db = await openDb();
+  const record: BatchFileRecord | undefined = await requestToPromise(
+    db.transaction(STORES.BATCH_FILES, 'readonly').objectStore(STORES.BATCH_FILES).get(item.id)
+  );
+  return record ? new File([record.file], item.fileName, { type: 'application/pdf' }) : null;
+};
+
+/**
+ * Drops the stored PDF once it is no longer needed (extracted and synced)
+ */
+export const deleteBatchFile = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(STORES.BATCH_FILES, 'readwrite');
+  tx.objectStore(STORES.BATCH_FILES).delete(id);
+  await transactionDone(tx);
+};
+
+/**
+ * Queues one PDF; returns null when the same file is already in the queue
+ */
+const enqueuePdf = async (file: Blob, fileName: string, existing: Set<string>): Promise<BatchItem | null> => {
+  const id = await hashFile(file);
+  if (existing.has(id)) return null;
+  existing.add(id);
+
+  const item: BatchItem = { id, fileName, status: 'QUEUED', addedAt: Date.now() };
+  const db = await openDb();
+  const tx = db.transaction([STORES.BATCH_ITEMS, STORES.BATCH_FILES], 'readwrite');
+  const record: BatchFileRecord = { id, file };
+  tx.objectStore(STORES.BATCH_FILES).put(record);
+  tx.objectStore(STORES.BATCH_ITEMS).put(item);
+  await transactionDone(tx);
+  return item;
+};
+
+/**
+ * PDF entries of a zip, inflated while the archive streams from disk. Each entry is yielded as soon as
+ * it is complete, so neither the zip nor more than one inflated PDF is held in memory.
+ */
+async function* zipPdfEntries(file: Blob): AsyncGenerator<{ name: string; blob: Blob }> {
+  const ready: { name: string; blob: Blob }[] = [];
+  let failure: Error | null = null;
+  const unzip = new Unzip(entry => {
+    if (!isPdfName(entry.name)) return; // Entries that are never started are skipped
+    const chunks: Uint8Array[] = [];
+    entry.ondata = (err, chunk, final) => {
+      if (err) {
+        failure = err;
+        return;
+      }
+      chunks.push(chunk);
+      if (final) ready.push({ name: entry.name, blob: new Blob(chunks, { type: 'application/pdf' }) });
+    };
+    entry.start();
+  });
+  unzip.register(UnzipInflate);
+
+  const reader = file.stream().getReader();
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      unzip.push(done ? new Uint8Array(0) : value, done);
+      if (failure) throw failure;
+      yield* ready.splice(0);
+      if (done) break;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Adds PDFs and zips of PDFs to the queue. Zip entries are inflated one at a time
+ * so a whole assembly never sits in memory at once.
+ */
+export const enqueueBatchFiles = async (files: File[]): Promise<{ added: BatchItem[]; skipped: number }> => {
+  const existing = new Set((await listBatchItems()).map(i => i.id));
+  const added: BatchItem[] = [];
+  let skipped = 0;
+
+  const enqueue = async (file: Blob, name: string) => {
+    const item = await enqueuePdf(file, name, existing);
+    if (item) added.push(item);
+    else skipped++;
+  };
+
+  for (const file of files) {
+    if (isZipFile(file)) {
+      for await (const { name, blob } of zipPdfEntries(file)) {
+        await enqueue(blob, name.split('/').pop()!);
+      }
+    } else if (isPdfName(file.name) || file.type === 'application/pdf') {
+      await enqueue(file, file.name);
+    } else {
+      skipped++;
+    }
+  }
+  return { added, skipped };
+};
+
+/**
+ * Removes a queue entry with its stored PDF; booth results it produced are kept
+ */
+export const removeBatchItem = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([STORES.BATCH_ITEMS, STORES.BATCH_FILES], 'readwrite');
+  tx.objectStore(STORES.BATCH_ITEMS).delete(id);
+  tx.objectStore(STORES.BATCH_FILES).delete(id);
+  await transactionDone(tx);
+};
+
+/**
+ * Entries left PROCESSING by a reload go back to the queue; their page checkpoints let them resume
+ */
+export const requeueInterrupted = async (items: BatchItem[]): Promise<BatchItem[]> => {
+  const interrupted = items.filter(i => i.status === 'PROCESSING');
+  await Promise.all(interrupted.map(i => saveBatchItem({ ...i, status: 'QUEUED' })));
+  return items.map(i => (i.status === 'PROCESSING' ? { ...i, status: 'QUEUED' } : i));
+};
+
+export const listBoothResults = async (): Promise<BoothResult[]> => {
+  const db = await openDb();
+  const booths: BoothResult[] = await requestToPromise(db.transaction(STORES.BATCH_BOOTHS, 'readonly').objectStore(STORES.BATCH_BOOTHS).getAll());
+  return booths.sort((a, b) => a.boothNo.localeCompare(b.boothNo, undefined, { numeric: true }));
+};
+
+/**
+ * Stores a booth's voters. A re-extracted part replaces the earlier result for the same booth.
+ */
+export const saveBoothResult = async (booth: BoothResult): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(STORES.BATCH_BOOTHS, 'readwrite');
+  tx.objectStore(STORES.BATCH_BOOTHS).put(booth);
+  await transactionDone(tx);
+};
+
+export const clearBatch = async (): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([STORES.BATCH_ITEMS, STORES.BATCH_FILES, STORES.BATCH_BOOTHS], 'readwrite');
+  tx.objectStore(STORES.BATCH_ITEMS).clear();
+  tx.objectStore(STORES.BATCH_FILES).clear();
+  tx.objectStore(STORES.BATCH_BOOTHS).clear();
+  await transactionDone(tx);
+};
+
+/**
+ * Booth number for a finished part: the cover page part number, else the polling station most voters carry
+ */
+export const resolveBoothNo = (voters: { polling_station_no: string }[], partNo: string | undefined, fileName: string): string => {
+  if (partNo) return partNo;
+  const counts = new Map<string, number>();
+  for (const v of voters) {
+    const station = (v.polling_station_no || '').trim();
+    if (station) counts.set(station, (counts.get(station) || 0) + 1);
+  }
+  const [top] = Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+  return top ? top[0] : fileName.replace(/\.pdf$/i, '');
+};
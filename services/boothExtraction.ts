@@ -0,0 +1,125 @@
+import { Voter, PageReport, PdfDocument, BoothMetadata, UsageTotals, LayoutProfileId } from '../types';
+import { extractPage, PageExtractionResult, PipelineOptions } from './extractionPipeline';
+import { createExtractionPool, isWorkerExtractionSupported } from './extractionPool';
+import { startSchedulerRun, runPagesAdaptively } from './modelScheduler';
+import { mergePageVoters } from './voterUtils';
+import { parseCoverPages, applyBoothMetadata } from './coverPageService';
+import { loadCheckpoint, savePageCheckpoint, clearCheckpoint } from './checkpointService';
+import { recordCacheUsage } from './extractionCache';
+import { DEFAULT_LAYOUT_PROFILE_ID } from './layoutProfiles';
+import { openPdfFile } from './pdfService';
+import { EMPTY_USAGE, summarizeCalls, addUsage } from './usageService';
+
+/**
+ * Extracts a whole roll PDF without touching UI state, for the batch queue.
+ * Same pipeline as the single-file flow: cover pages, worker pool, adaptive scheduler and page checkpoints.
+ */
+
+export interface BoothExtractionOptions {
+  concurrency: number;
+  includePhotos: boolean;
+  bypassCache: boolean;
+  layoutProfile: LayoutProfileId | 'AUTO';
+  onPage?: (report: PageReport, done: number, total: number) => void;
+}
+
+export interface BoothExtractionResult {
+  voters: Voter[];
+  metadata: BoothMetadata | null;
+  reports: PageReport[];
+  usage: UsageTotals;
+}
+
+export const toPageReport = (pageNum: number, result: PageExtractionResult): PageReport => ({
+  pageNumber: pageNum,
+  status: result.status,
+  voterCount: result.voters.length,
+  engine: result.engine,
+  error: result.error,
+  preprocessing: result.preprocessing,
+  cached: result.cached,
+  usage: result.usage.length > 0 ? summarizeCalls(result.usage) : undefined
+});
+
+/**
+ * Pages run in the worker pool when the browser supports it, else inline on the main thread
+ */
+export const createPageExtractor = (file: File, pdf: PdfDocument, concurrency: number, options: PipelineOptions) => {
+  if (isWorkerExtractionSupported()) {
+    const pool = createExtractionPool(file, concurrency, options);
+    return { extract: pool.extract, dispose: pool.terminate };
+  }
+  return { extract: (pageNum: number) => extractPage(pdf, pageNum, options), dispose: () => {} };
+};
+
+/**
+ * Cover page details of a roll, or null when the covers cannot be read
+ */
+export const readBoothMetadata = (pdf: PdfDocument): Promise<BoothMetadata | null> =>
+  parseCoverPages(pdf).catch(err => {
+    console.warn("Could not parse cover pages", err);
+    return null;
+  });
+
+export const extractBoothLocally = async (file: File, fileHash: string, options: BoothExtractionOptions): Promise<BoothExtractionResult> => {
+  const pdf = await openPdfFile(file);
+  const metadata = await readBoothMetadata(pdf);
+  const layoutProfileId = options.layoutProfile === 'AUTO'
+    ? metadata?.detectedProfile ?? DEFAULT_LAYOUT_PROFILE_ID
+    : options.layoutProfile;
+
+  // An interrupted run resumes from its checkpoint; failed pages are run again
+  const checkpoint = await loadCheckpoint(fileHash).catch(() => null);
+  const donePages = (checkpoint?.pages || []).filter(r => r.status !== 'FAILED');
+  const done = new Set(donePages.map(r => r.pageNumber));
+  const pages = Array.from({ length: pdf.numPages }, (_, i) => i + 1).slice(2).filter(p => !done.has(p));
+
+  let voters = checkpoint?.voters || [];
+  const reports: PageReport[] = [...donePages];
+  let usage = EMPTY_USAGE;
+  let lookups = 0;
+  let hits = 0;
+
+  const extractor = createPageExtractor(file, pdf, options.concurrency, {
+    includePhotos: options.includePhotos,
+    bypassCache: options.bypassCache,
+    layoutProfileId
+  });
+  startSchedulerRun(options.concurrency);
+  try {
+    await runPagesAdaptively(pages, async (pageNum) => {
+      let report: PageReport;
+      let pageVoters: Voter[] = [];
+      try {
+        const result = await extractor.extract(pageNum);
+        report = toPageReport(pageNum, result);
+        pageVoters = result.voters;
+        lookups += result.cacheLookups;
+        hits += result.cacheHits;
+        if (report.usage) usage = addUsage(usage, report.usage);
+        if (pageVoters.length > 0) voters = mergePageVoters(voters, pageNum, pageVoters);
+      } catch (err: any) {
+        console.error(`Error processing page ${pageNum} of ${file.name}:`, err);
+        report = { pageNumber: pageNum, status: 'FAILED', voterCount: 0, engine: null, error: err?.message || String(err) };
+      }
+      reports.push(report);
+      savePageCheckpoint(fileHash, file.name, pdf.numPages, report, pageVoters)
+        .catch(err => console.warn("Could not save checkpoint", err));
+      options.onPage?.(report, reports.length - donePages.length, pages.length);
+    });
+  } finally {
+    extractor.dispose();
+  }
+
+  if (lookups > 0) recordCacheUsage(fileHash, file.name, lookups, hits).catch(err => console.warn("Could not record cache usage", err));
+  if (!reports.some(r => r.status === 'FAILED')) {
+    clearCheckpoint(fileHash).catch(err => console.warn("Could not clear checkpoint", err));
+  }
+
+  return {
+    voters: metadata ? applyBoothMetadata(voters, metadata) : voters,
+    metadata,
+    reports: reports.sort((a, b) => a.pageNumber - b.pageNumber),
+    usage
+  };
+};
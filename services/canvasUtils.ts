@@ -0,0 +1,70 @@
+/**
+ * Canvas helpers that work both on the main thread and inside the extraction workers.
+ * Workers have no DOM, so drawing goes through OffscreenCanvas and images decode via createImageBitmap.
+ */
+
+export type DrawingCanvas = HTMLCanvasElement | OffscreenCanvas;
+export type DrawingContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+export const createCanvas = (width: number, height: number): { canvas: DrawingCanvas; ctx: DrawingContext } => {
+    let canvas: DrawingCanvas;
+    if (typeof OffscreenCanvas !== 'undefined') {
+        canvas = new OffscreenCanvas(width, height);
+    } else {
+        canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+    }
+    const ctx = canvas.getContext('2d') as DrawingContext | null;
+    if (!ctx) throw new Error("Canvas context failed");
+    return { canvas, ctx };
+};
+
+// Shrinking to zero frees the backing store now instead of at the next GC
+export const releaseCanvas = (canvas: DrawingCanvas) => {
+    canvas.width = 0;
+    canvas.height = 0;
+};
+
+/**
+ * Encodes a canvas as a data URL (OffscreenCanvas has no toDataURL, so it goes through a Blob)
+ */
+export const canvasToDataUrl = async (canvas: DrawingCanvas, type: string, quality: number): Promise<string> => {
+    if (!(typeof OffscreenCanvas !== 'undefined' && canvas instanceof OffscreenCanvas)) {
+        return (canvas as HTMLCanvasElement).toDataURL(type, quality);
+    }
+    const blob = await canvas.convertToBlob({ type, quality });
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(new Error("Could not encode canvas"));
+        reader.readAsDataURL(blob);
+    });
+};
+
+export const canvasToBlob = (canvas: DrawingCanvas, type: string, quality: number): Promise<Blob> => {
+    if (typeof OffscreenCanvas !== 'undefined' && canvas instanceof OffscreenCanvas) {
+        return canvas.convertToBlob({ type, quality });
+    }
+    return new Promise((resolve, reject) => {
+        (canvas as HTMLCanvasElement).toBlob(
+            blob => (blob ? resolve(blob) : reject(new Error("Could not encode canvas"))),
+            type,
+            quality
+        );
+    });
+};
+
+/**
+ * Decodes a raw base64 JPEG (no data URL prefix). Close the bitmap when done with it.
+ */
+export const decodeBase64Image = async (base64: string): Promise<ImageBitmap> => {
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    try {
+        return await createImageBitmap(new Blob([bytes], { type: 'image/jpeg' }));
+    } catch {
+        throw new Error("Could not decode page image");
+    }
+};
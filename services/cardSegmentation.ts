@@ -0,0 +1,192 @@
+/**
+ * Card grid segmentation for electoral roll pages.
+ * Finds the ruled lines of the card grid with projection profiles, so card and photo
+ * regions follow the page itself instead of fixed offsets tied to one render scale.
+ * Works on raw pixel data only, so it can run anywhere ImageData exists.
+ */
+
+export interface Box {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface CardCell {
+    card: Box;
+    photo: Box | null; // Photo cell inside the card, when its ruled border was found
+}
+
+export interface PixelImage {
+    data: Uint8ClampedArray;
+    width: number;
+    height: number;
+}
+
+/**
+ * Box as [ymin, xmin, ymax, xmax] normalized to 0-1000 of the page, the convention Gemini uses for photo_box_2d
+ */
+export const toNormalizedBox = (box: Box, pageWidth: number, pageHeight: number): number[] => {
+    const clamp = (v: number) => Math.max(0, Math.min(1000, Math.round(v)));
+    return [
+        clamp((box.y / pageHeight) * 1000),
+        clamp((box.x / pageWidth) * 1000),
+        clamp(((box.y + box.height) / pageHeight) * 1000),
+        clamp(((box.x + box.width) / pageWidth) * 1000)
+    ];
+};
+
+// A ruled line covers at least this share of the grid extent; text rows never get close
+const LINE_COVERAGE = 0.5;
+// Lines closer than this (px) belong to the same stroke
+const LINE_MERGE_GAP = 3;
+// Cells smaller than these page fractions are gutters between cards, not cards
+const MIN_CARD_WIDTH = 0.15;
+const MIN_CARD_HEIGHT = 0.04;
+
+const DARK = 128;
+
+const isDark = (img: PixelImage, x: number, y: number): boolean => {
+    const i = (y * img.width + x) * 4;
+    return (0.299 * img.data[i] + 0.587 * img.data[i + 1] + 0.114 * img.data[i + 2]) < DARK;
+};
+
+/**
+ * Collapses runs of profile entries above `minCount` into line centre positions
+ */
+const findLines = (profile: number[], minCount: number, offset: number = 0): number[] => {
+    const lines: number[] = [];
+    let runStart = -1;
+    let lastHit = -1;
+
+    for (let i = 0; i < profile.length; i++) {
+        if (profile[i] < minCount) continue;
+        if (runStart === -1 || i - lastHit > LINE_MERGE_GAP) {
+            if (runStart !== -1) lines.push(offset + Math.round((runStart + lastHit) / 2));
+            runStart = i;
+        }
+        lastHit = i;
+    }
+    if (runStart !== -1) lines.push(offset + Math.round((runStart + lastHit) / 2));
+    return lines;
+};
+
+const rowProfile = (img: PixelImage, box: Box): number[] => {
+    const profile = new Array(box.height).fill(0);
+    for (let y = 0; y < box.height; y++) {
+        for (let x = 0; x < box.width; x++) {
+            if (isDark(img, box.x + x, box.y + y)) profile[y]++;
+        }
+    }
+    return profile;
+};
+
+const columnProfile = (img: PixelImage, box: Box): number[] => {
+    const profile = new Array(box.width).fill(0);
+    for (let y = 0; y < box.height; y++) {
+        for (let x = 0; x < box.width; x++) {
+            if (isDark(img, box.x + x, box.y + y)) profile[x]++;
+        }
+    }
+    return profile;
+};
+
+/**
+ * The photo sits in its own ruled cell at the right of the card.
+ * Looks for the rightmost full-height vertical line in the right half of the card.
+ */
+const findPhotoCell = (img: PixelImage, card: Box): Box | null => {
+    const inset = 4; // Skip the card's own border
+    const inner: Box = {
+        x: card.x + Math.round(card.width * 0.5),
+        y: card.y + inset,
+        width: Math.round(card.width * 0.5) - inset,
+        height: card.height - inset * 2
+    };
+    if (inner.width <= 0 || inner.height <= 0) return null;
+
+    const lines = findLines(columnProfile(img, inner), inner.height * 0.6, inner.x);
+    if (lines.length === 0) return null;
+
+    const left = lines[lines.length - 1] + 2;
+    const right = card.x + card.width - inset;
+    if (right - left < card.width * 0.1) return null;
+
+    // Narrow the photo vertically to the ruled box if it has one
+    const photoCol: Box = { x: left, y: inner.y, width: right - left, height: inner.height };
+    const rows = findLines(rowProfile(img, photoCol), photoCol.width * 0.6, photoCol.y);
+    const top = rows.length >= 2 ? rows[0] + 2 : photoCol.y;
+    const bottom = rows.length >= 2 ? rows[rows.length - 1] - 2 : photoCol.y + photoCol.height;
+
+    return { x: left, y: top, width: right - left, height: Math.max(bottom - top, 1) };
+};
+
+/**
+ * Card columns from the dark runs along a horizontal ruling.
+ * When cards are separated by gutters, each run is exactly one card's top border.
+ */
+const columnsFromRuling = (img: PixelImage, y: number): [number, number][] => {
+    const runs: [number, number][] = [];
+    let start = -1;
+    let last = -1;
+    for (let x = 0; x < img.width; x++) {
+        const hit = [y - 1, y, y + 1].some(yy => yy >= 0 && yy < img.height && isDark(img, x, yy));
+        if (!hit) continue;
+        if (start === -1 || x - last > LINE_MERGE_GAP) {
+            if (start !== -1) runs.push([start, last]);
+            start = x;
+        }
+        last = x;
+    }
+    if (start !== -1) runs.push([start, last]);
+    return runs.filter(([a, b]) => b - a >= img.width * MIN_CARD_WIDTH);
+};
+
+/**
+ * Card columns from full-height vertical lines, for grids where cards share borders.
+ * The photo divider is a full-height line too, so a narrow cell is folded into the card on its left.
+ */
+const columnsFromVerticalLines = (vLines: number[], pageWidth: number): [number, number][] => {
+    const columns: [number, number][] = [];
+    for (let i = 0; i < vLines.length - 1; i++) {
+        const left = vLines[i];
+        const right = vLines[i + 1];
+        if (right - left < pageWidth * MIN_CARD_WIDTH && columns.length > 0) {
+            columns[columns.length - 1][1] = right;
+        } else {
+            columns.push([left, right]);
+        }
+    }
+    return columns.filter(([a, b]) => b - a >= pageWidth * MIN_CARD_WIDTH);
+};
+
+/**
+ * Detects the card grid and returns cards in reading order (row by row, left to right).
+ * Returns an empty array when no grid is found, e.g. for cover or summary pages.
+ */
+export const detectCardGrid = (img: PixelImage): CardCell[] => {
+    const page: Box = { x: 0, y: 0, width: img.width, height: img.height };
+
+    const hLines = findLines(rowProfile(img, page), img.width * LINE_COVERAGE);
+    if (hLines.length < 2) return [];
+
+    let columns = columnsFromRuling(img, hLines[0]);
+    if (columns.length < 2) {
+        // Vertical lines only need to span the grid, not the whole page (header and footer sit outside it)
+        const gridBox: Box = { x: 0, y: hLines[0], width: img.width, height: hLines[hLines.length - 1] - hLines[0] };
+        columns = columnsFromVerticalLines(findLines(columnProfile(img, gridBox), gridBox.height * LINE_COVERAGE), img.width);
+    }
+    if (columns.length === 0) return [];
+
+    const cells: CardCell[] = [];
+    for (let r = 0; r < hLines.length - 1; r++) {
+        const height = hLines[r + 1] - hLines[r];
+        // Gaps between card rows show up as thin rows bounded by two rulings
+        if (height < img.height * MIN_CARD_HEIGHT) continue;
+        for (const [left, right] of columns) {
+            const card: Box = { x: left, y: hLines[r], width: right - left, height };
+            cells.push({ card, photo: findPhotoCell(img, card) });
+        }
+    }
+    return cells;
+};
@@ -0,0 +1,70 @@
+import { PageReport, Voter } from '../types';
+import { openDb, requestToPromise, transactionDone, STORES } from './indexedDb';
+
+/**
+ * Per-page extraction checkpoints, keyed by the SHA-256 of the PDF.
+ * Lets a reload or crash resume from the pages that were not finished yet.
+ */
+
+export interface ExtractionCheckpoint {
+  fileHash: string;
+  fileName: string;
+  totalPages: number;
+  updatedAt: number;
+  pages: PageReport[];
+  voters: Voter[];
+}
+
+interface CheckpointPageRecord {
+  fileHash: string;
+  pageNumber: number;
+  report: PageReport;
+  voters: Voter[];
+}
+
+/**
+ * Stores one finished page. Failed pages are stored too so the report survives a reload.
+ */
+export const savePageCheckpoint = async (
+  fileHash: string,
+  fileName: string,
+  totalPages: number,
+  report: PageReport,
+  voters: Voter[]
+): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([STORES.CHECKPOINT_FILES, STORES.CHECKPOINT_PAGES], 'readwrite');
+  tx.objectStore(STORES.CHECKPOINT_FILES).put({ fileHash, fileName, totalPages, updatedAt: Date.now() });
+  const page: CheckpointPageRecord = { fileHash, pageNumber: report.pageNumber, report, voters };
+  tx.objectStore(STORES.CHECKPOINT_PAGES).put(page);
+  await transactionDone(tx);
+};
+
+/**
+ * Loads everything checkpointed for a PDF, or null if it was never started
+ */
+export const loadCheckpoint = async (fileHash: string): Promise<ExtractionCheckpoint | null> => {
+  const db = await openDb();
+  const tx = db.transaction([STORES.CHECKPOINT_FILES, STORES.CHECKPOINT_PAGES], 'readonly');
+  const meta = await requestToPromise(tx.objectStore(STORES.CHECKPOINT_FILES).get(fileHash));
+  if (!meta) return null;
+
+  const records: CheckpointPageRecord[] = await requestToPromise(
+    tx.objectStore(STORES.CHECKPOINT_PAGES).index('fileHash').getAll(fileHash)
+  );
+  records.sort((a, b) => a.pageNumber - b.pageNumber);
+
+  return {
+    ...meta,
+    pages: records.map(r => r.report),
+    voters: records.flatMap(r => r.voters)
+  };
+};
+
+export const clearCheckpoint = async (fileHash: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([STORES.CHECKPOINT_FILES, STORES.CHECKPOINT_PAGES], 'readwrite');
+  tx.objectStore(STORES.CHECKPOINT_FILES).delete(fileHash);
+  tx.objectStore(STORES.CHECKPOINT_PAGES).delete(IDBKeyRange.bound([fileHash, -Infinity], [fileHash, Infinity]));
+  await transactionDone(tx);
+};
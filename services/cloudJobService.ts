@@ -0,0 +1,33 @@
+import { openDb, requestToPromise, transactionDone, STORES } from './indexedDb';
+
+/**
+ * Cloud conversion jobs in flight, keyed by the SHA-256 of the PDF.
+ * Uploading the same PDF again after a reload resumes its job instead of paying for a second conversion.
+ */
+
+export interface CloudJobRecord {
+  fileHash: string;
+  fileName: string;
+  jobId: string;
+  startedAt: number;
+}
+
+export const saveCloudJob = async (record: CloudJobRecord): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(STORES.CLOUD_JOBS, 'readwrite');
+  tx.objectStore(STORES.CLOUD_JOBS).put(record);
+  await transactionDone(tx);
+};
+
+export const getCloudJob = async (fileHash: string): Promise<CloudJobRecord | null> => {
+  const db = await openDb();
+  const record = await requestToPromise(db.transaction(STORES.CLOUD_JOBS, 'readonly').objectStore(STORES.CLOUD_JOBS).get(fileHash));
+  return record || null;
+};
+
+export const clearCloudJob = async (fileHash: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(STORES.CLOUD_JOBS, 'readwrite');
+  tx.objectStore(STORES.CLOUD_JOBS).delete(fileHash);
+  await transactionDone(tx);
+};
@@ -0,0 +1,146 @@
+import { Voter, ConfidenceField, FieldConfidence } from '../types';
+import { normalizeEpic } from './epicService';
+
+/**
+ * Per-field confidence for extracted voters.
+ * Each field's score is how plausible the value looks (regex hit, format, range) multiplied
+ * by what the engine itself reported: Tesseract word confidence, or the LLM's own certainty.
+ * The digital text layer is exact, so there only plausibility counts.
+ */
+
+export const CONFIDENCE_FIELDS: ConfidenceField[] = ['epic_no', 'name_en', 'name_te', 'relative_name', 'house_no', 'age', 'gender'];
+
+export const CONFIDENCE_LABELS: Record<ConfidenceField, string> = {
+  epic_no: 'EPIC',
+  name_en: 'Name',
+  name_te: 'Regional Name',
+  relative_name: 'Relative',
+  house_no: 'House No',
+  age: 'Age',
+  gender: 'Gender'
+};
+
+// Below this a field goes to the review queue
+export const REVIEW_THRESHOLD = 0.6;
+
+// A wrong EPIC or name costs more on polling day than a wrong house number
+const FIELD_WEIGHTS: Record<ConfidenceField, number> = {
+  epic_no: 3,
+  name_en: 2,
+  name_te: 1,
+  relative_name: 1,
+  house_no: 0.5,
+  age: 1,
+  gender: 1
+};
+
+// Printed on every card; an empty value is a failed read rather than a blank field
+const REQUIRED_FIELDS = new Set<ConfidenceField>(['epic_no', 'name_en', 'age', 'gender']);
+
+const GENDER_VALUES = /^(m|f|t|o|male|female|other|third\s*gender)$/i;
+
+const namePlausibility = (value: string): number => {
+  if (value === 'Unknown') return 0; // Regex fallback when no Name label was found
+  if (/\d/.test(value)) return 0.4;
+  return value.length < 2 ? 0.3 : 1;
+};
+
+/**
+ * How believable a non-empty value is for its field, 0-1
+ */
+const plausibility = (field: ConfidenceField, value: string): number => {
+  switch (field) {
+    case 'epic_no': {
+      const status = normalizeEpic(value).status;
+      return status === 'VALID' ? 1 : status === 'CORRECTED' ? 0.7 : 0.2;
+    }
+    case 'name_en':
+    case 'name_te':
+    case 'relative_name':
+      return namePlausibility(value);
+    case 'age': {
+      if (!/^\d+$/.test(value)) return 0.1;
+      const age = parseInt(value, 10);
+      return age >= 18 && age <= 120 ? 1 : 0.3;
+    }
+    case 'gender':
+      return GENDER_VALUES.test(value) ? 1 : 0.3;
+    case 'house_no':
+      return 1;
+  }
+};
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Scores every field of a voter. `source` holds the engine's own 0-1 confidence per field, when it has one.
+ */
+export const scoreVoterFields = (voter: Voter, source: FieldConfidence = {}): FieldConfidence => {
+  const scores: FieldConfidence = {};
+  for (const field of CONFIDENCE_FIELDS) {
+    const value = String(voter[field] ?? '').trim();
+    if (!value) {
+      if (REQUIRED_FIELDS.has(field)) scores[field] = 0;
+      continue;
+    }
+    const reported = source[field];
+    const engine = typeof reported === 'number' && !isNaN(reported) ? Math.max(0, Math.min(1, reported)) : 1;
+    scores[field] = round2(plausibility(field, value) * engine);
+  }
+  return scores;
+};
+
+export interface OcrWord {
+  text: string;
+  confidence: number; // Tesseract word confidence, 0-100
+}
+
+/**
+ * Mean Tesseract confidence (0-1) of the OCR words that make up a value, or undefined when none match
+ */
+export const wordConfidence = (words: OcrWord[], value: string): number | undefined => {
+  const tokens = value.split(/\s+/).filter(Boolean);
+  const scores: number[] = [];
+  for (const token of tokens) {
+    const word = words.find(w => w.text.includes(token) || (w.text.length > 2 && token.includes(w.text)));
+    if (word) scores.push(word.confidence / 100);
+  }
+  return scores.length > 0 ? scores.reduce((a, b) => a + b, 0) / scores.length : undefined;
+};
+
+/**
+ * Engine confidence for every field of an OCR-read voter, from the words its values came from
+ */
+export const ocrSourceConfidence = (voter: Voter, words: OcrWord[]): FieldConfidence => {
+  const source: FieldConfidence = {};
+  for (const field of CONFIDENCE_FIELDS) {
+    const score = wordConfidence(words, String(voter[field] ?? ''));
+    if (score !== undefined) source[field] = score;
+  }
+  return source;
+};
+
+export const lowConfidenceFields = (voter: Voter, threshold: number = REVIEW_THRESHOLD): ConfidenceField[] =>
+  CONFIDENCE_FIELDS.filter(f => voter.confidence?.[f] !== undefined && voter.confidence[f]! < threshold);
+
+/**
+ * Weighted shortfall below the threshold across all fields; 0 means nothing to review
+ */
+export const reviewSeverity = (voter: Voter, threshold: number = REVIEW_THRESHOLD): number =>
+  round2(lowConfidenceFields(voter, threshold).reduce((sum, f) => sum + FIELD_WEIGHTS[f] * (threshold - voter.confidence![f]!), 0));
+
+export interface ReviewItem {
+  voter: Voter;
+  severity: number;
+  fields: ConfidenceField[];
+}
+
+/**
+ * Unreviewed voters with at least one low-confidence field, worst first
+ */
+export const buildReviewQueue = (voters: Voter[], threshold: number = REVIEW_THRESHOLD): ReviewItem[] =>
+  voters
+    .filter(v => !v.reviewed && v.confidence)
+    .map(voter => ({ voter, severity: reviewSeverity(voter, threshold), fields: lowConfidenceFields(voter, threshold) }))
+    .filter(item => item.fields.length > 0)
+    .sort((a, b) => b.severity - a.severity);
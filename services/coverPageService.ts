@@ -0,0 +1,134 @@
+import { BoothMetadata, ElectorTotals, PdfDocument, Voter } from '../types';
+import { getPdfPageAsBase64, getPdfPageTextItems } from './pdfService';
+import { recognizePageText } from './ocrService';
+import { detectLayoutProfile, getLayoutProfile } from './layoutProfiles';
+
+/**
+ * Cover page patterns for the ECI roll layout.
+ * They run on flattened text, so every capture stops at the next known label.
+ */
+const COVER_PATTERNS = {
+    PART_NO: /Part\s*No\.?\s*[:\-]?\s*(\d+)/i,
+    ASSEMBLY: /Name\s+of\s+Assembly\s+Constituency[^:]*[:\-]\s*(.+?)(?=\s+(?:No\.?\s+and\s+Name|Part\s*No|Parliamentary|Reservation|$))/i,
+    POLLING_STATION: /Name\s+of\s+Polling\s+Station\s*[:\-]\s*(.+?)(?=\s+(?:Address|Type\s+of|Number\s+of|Male|$))/i,
+    PS_ADDRESS: /Address\s+of\s+Polling\s+Station\s*[:\-]\s*(.+?)(?=\s+(?:Number\s+of|Type\s+of|\d+\.\s*NUMBER|Starting|Male|$))/i,
+    SECTIONS: /Sections?\s+in\s+the\s+part\s*[:\-]?\s*(.+?)(?=\s+(?:\d+\.\s*POLLING|Polling\s+Station\s+Details|Main\s+Town|$))/i,
+    SECTION_ITEM: /(\d+)\s*[-.]\s*([^\d]+?)(?=\s+\d+\s*[-.]|$)/g,
+    TOTALS: /Male\s+Female\s+Third\s*Gender\s+Total\D*?(\d+)\s+(\d+)\s+(\d+)\s+(\d+)/i
+};
+
+const emptyMetadata = (): BoothMetadata => ({
+    partNo: "",
+    assemblyName: "",
+    pollingStationName: "",
+    pollingStationAddress: "",
+    sections: [],
+    officialTotals: null,
+    detectedProfile: null
+});
+
+/**
+ * Parses flattened cover page text into booth metadata. Missing fields stay empty.
+ */
+export const parseCoverText = (text: string): BoothMetadata => {
+    const flat = text.replace(/\s+/g, ' ').trim();
+    const meta = emptyMetadata();
+    meta.detectedProfile = detectLayoutProfile(flat);
+
+    meta.partNo = flat.match(COVER_PATTERNS.PART_NO)?.[1] || "";
+    meta.assemblyName = flat.match(COVER_PATTERNS.ASSEMBLY)?.[1].trim() || "";
+    meta.pollingStationName = flat.match(COVER_PATTERNS.POLLING_STATION)?.[1].trim() || "";
+    meta.pollingStationAddress = flat.match(COVER_PATTERNS.PS_ADDRESS)?.[1].trim() || "";
+
+    const sectionBlock = flat.match(COVER_PATTERNS.SECTIONS)?.[1];
+    if (sectionBlock) {
+        meta.sections = Array.from(sectionBlock.matchAll(COVER_PATTERNS.SECTION_ITEM))
+            .map(m => `${m[1]}-${m[2].trim()}`);
+    }
+
+    const totals = flat.match(COVER_PATTERNS.TOTALS);
+    if (totals) {
+        meta.officialTotals = {
+            male: parseInt(totals[1]),
+            female: parseInt(totals[2]),
+            thirdGender: parseInt(totals[3]),
+            total: parseInt(totals[4])
+        };
+    }
+
+    return meta;
+};
+
+/**
+ * Reads pages 1-2 of a roll (text layer first, OCR for scanned covers) and parses them.
+ * Also detects the layout profile, so it must finish before extraction when the profile is auto-detected.
+ * Scanned covers get a cheap English pass to find the state; only a detected profile's script is then read,
+ * instead of loading every supported language up front.
+ */
+export const parseCoverPages = async (pdf: PdfDocument): Promise<BoothMetadata> => {
+    const coverPages = [1, 2].filter(p => p <= pdf.numPages);
+    const pages = await Promise.all(coverPages.map(async (pageNum) => {
+        const items = await getPdfPageTextItems(pdf, pageNum);
+        if (items.length > 0) return { text: items.map(i => i.str).join(' '), image: null as string | null };
+        const image = await getPdfPageAsBase64(pdf, pageNum);
+        return { text: await recognizePageText(image, 'eng'), image };
+    }));
+    const firstPass = pages.map(p => p.text).join(' ');
+    const profileId = detectLayoutProfile(firstPass);
+    if (!profileId || pages.every(p => !p.image)) return parseCoverText(firstPass);
+
+    const languages = `eng+${getLayoutProfile(profileId).tesseractLanguage}`;
+    const texts = await Promise.all(pages.map(p => (p.image ? recognizePageText(p.image, languages) : p.text)));
+    return { ...parseCoverText(texts.join(' ')), detectedProfile: profileId };
+};
+
+/**
+ * Fills header fields the page extraction left empty with the cover page values
+ */
+export const applyBoothMetadata = (voters: Voter[], meta: BoothMetadata): Voter[] => {
+    const station = meta.partNo || meta.pollingStationName;
+    if (!meta.assemblyName && !station) return voters;
+    return voters.map(v => ({
+        ...v,
+        assembly_name: v.assembly_name || meta.assemblyName,
+        polling_station_no: v.polling_station_no || station
+    }));
+};
+
+export interface TotalsReconciliation {
+    official: ElectorTotals;
+    extracted: ElectorTotals;
+    shortfall: ElectorTotals; // Positive = voters missing from the extraction
+    hasShortfall: boolean;
+}
+
+// Same gender bucketing as the Dashboard demographics
+const countByGender = (voters: Voter[]): ElectorTotals => {
+    return voters.reduce((acc, v) => {
+        const g = v.gender.trim().toUpperCase();
+        if (g.startsWith('M')) acc.male++;
+        else if (g.startsWith('F')) acc.female++;
+        else if (g) acc.thirdGender++;
+        acc.total++;
+        return acc;
+    }, { male: 0, female: 0, thirdGender: 0, total: 0 });
+};
+
+/**
+ * Compares extracted voter counts against the official cover page totals
+ */
+export const reconcileTotals = (voters: Voter[], official: ElectorTotals): TotalsReconciliation => {
+    const extracted = countByGender(voters);
+    const shortfall: ElectorTotals = {
+        male: official.male - extracted.male,
+        female: official.female - extracted.female,
+        thirdGender: official.thirdGender - extracted.thirdGender,
+        total: official.total - extracted.total
+    };
+    return {
+        official,
+        extracted,
+        shortfall,
+        hasShortfall: Object.values(shortfall).some(n => n > 0)
+    };
+};
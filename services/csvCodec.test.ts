@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import { parseCSV, parseCSVStream, createCSVParser, sniffDelimiter, formatCSVField, serializeCSV, CsvRow } from './csvCodec';
+
+const streamOf = (...chunks: string[]): ReadableStream<Uint8Array> => {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    }
+  });
+};
+
+const collect = async (rows: AsyncIterable<CsvRow>): Promise<CsvRow[]> => {
+  const all: CsvRow[] = [];
+  for await (const row of rows) all.push(row);
+  return all;
+};
+
+describe('parseCSV', () => {
+  it('reads quoted fields with delimiters, doubled quotes and line breaks', () => {
+    const text = 'a,b,c\r\n"x, y","say ""hi""","line 1\nline 2\r\nline 3"\r\n';
+    expect(parseCSV(text)).toEqual([
+      ['a', 'b', 'c'],
+      ['x, y', 'say "hi"', 'line 1\nline 2\r\nline 3']
+    ]);
+  });
+
+  it('accepts LF, CRLF and CR record endings and skips blank lines', () => {
+    expect(parseCSV('a,b\n1,2\r\n\r\n3,4\r5,6')).toEqual([['a', 'b'], ['1', '2'], ['3', '4'], ['5', '6']]);
+  });
+
+  it('keeps empty fields, including trailing ones', () => {
+    expect(parseCSV('a,b,c\n,,\n1,,\n"",x,""')).toEqual([['a', 'b', 'c'], ['', '', ''], ['1', '', ''], ['', 'x', '']]);
+  });
+
+  it('drops a leading BOM', () => {
+    expect(parseCSV('\uFEFFEPIC No,Name\nABC1234567,Ravi')).toEqual([['EPIC No', 'Name'], ['ABC1234567', 'Ravi']]);
+  });
+
+  it('ends an unterminated quoted field with the input', () => {
+    expect(parseCSV('a,"open')).toEqual([['a', 'open']]);
+  });
+
+  it('uses the delimiter it is given instead of sniffing', () => {
+    expect(parseCSV('a;b,c\n1;2,3', { delimiter: ';' })).toEqual([['a', 'b,c'], ['1', '2,3']]);
+  });
+});
+
+describe('sniffDelimiter', () => {
+  it.each([
+    [',', 'name,age,gender\nRavi,34,M\nSita,29,F'],
+    [';', 'name;age;gender\nRavi;34;M\nSita;29;F'],
+    ['\t', 'name\tage\tgender\nRavi\t34\tM'],
+    ['|', 'name|age|gender\nRavi|34|M']
+  ])('detects %j', (delimiter, sample) => {
+    expect(sniffDelimiter(sample)).toBe(delimiter);
+  });
+
+  it('ignores delimiters inside quoted text', () => {
+    expect(sniffDelimiter('name;address\n"Rao, K";"1-2, Main Road, Ward 3"\n"Devi, S";"4-5, Temple St"')).toBe(';');
+  });
+
+  it('falls back to a comma for a single column', () => {
+    expect(sniffDelimiter('name\nRavi\nSita')).toBe(',');
+  });
+});
+
+describe('streaming', () => {
+  it('parses records split across chunks, mid-quote and between CR and LF', async () => {
+    const rows = await collect(parseCSVStream(streamOf('\uFEFFa;b\r', '\n"x;', '""y""', '\n";2\r', '\n3;4')));
+    expect(rows).toEqual([['a', 'b'], ['x;"y"\n', '2'], ['3', '4']]);
+  });
+
+  it('decodes multi-byte characters split across chunks', async () => {
+    const bytes = new TextEncoder().encode('name\nరవి');
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(bytes.slice(0, bytes.length - 1));
+        controller.enqueue(bytes.slice(bytes.length - 1));
+        controller.close();
+      }
+    });
+    expect(await collect(parseCSVStream(stream))).toEqual([['name'], ['రవి']]);
+  });
+
+  it('gives the same records whatever the chunk size', () => {
+    const text = serializeCSV([['h1', 'h2'], ['a "quoted", value', 'multi\r\nline'], ['', 'x']]);
+    const rows: CsvRow[] = [];
+    const parser = createCSVParser(row => rows.push(row));
+    for (const char of text) parser.write(char);
+    parser.end();
+    expect(rows).toEqual(parseCSV(text));
+  });
+});
+
+describe('serializing', () => {
+  it('quotes only the fields that need it', () => {
+    expect(formatCSVField('plain')).toBe('plain');
+    expect(formatCSVField('a,b')).toBe('"a,b"');
+    expect(formatCSVField('say "hi"')).toBe('"say ""hi"""');
+    expect(formatCSVField('two\nlines')).toBe('"two\nlines"');
+    expect(formatCSVField(' padded ')).toBe('" padded "');
+    expect(formatCSVField('a,b', ';')).toBe('a,b');
+    expect(formatCSVField('a;b', ';')).toBe('"a;b"');
+  });
+
+  it('writes CRLF records and an optional BOM', () => {
+    expect(serializeCSV([['a', 'b'], ['1', '2']], { bom: true })).toBe('\uFEFFa,b\r\n1,2\r\n');
+  });
+
+  it.each([',', ';', '\t', '|'])('round-trips awkward fields with %j', (delimiter) => {
+    const rows: CsvRow[] = [
+      ['Name', 'Address', 'Note'],
+      ['Rao, K "Babu"', '1-2;3|4\t5', ' leading and trailing '],
+      ['', 'line 1\r\nline 2\nline 3', '""'],
+      ['రవి కుమార్', '', '']
+    ];
+    expect(parseCSV(serializeCSV(rows, { delimiter, bom: true }))).toEqual(rows);
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * RFC 4180 CSV codec shared by import, export and cloud sync.
+ * Quoted fields may hold delimiters, doubled quotes and line breaks. Parsing runs incrementally over
+ * chunks so large files stream from disk; serializing yields one record at a time for the same reason.
+ * Blank lines are skipped rather than read as records with one empty field.
+ */
+
+export type CsvRow = string[];
+
+export interface CsvParseOptions {
+  delimiter?: string; // Sniffed from the start of the input when left out
+}
+
+export interface CsvSerializeOptions {
+  delimiter?: string;
+  eol?: string; // CRLF per RFC 4180
+  bom?: boolean; // Lets Excel detect UTF-8 (Telugu and other scripts)
+}
+
+export interface CsvStreamParser {
+  write: (chunk: string) => void;
+  end: () => void;
+}
+
+const CANDIDATE_DELIMITERS = [',', ';', '\t', '|'];
+
+// Enough text for several records; the delimiter is settled before any row is emitted
+const SNIFF_SAMPLE_SIZE = 64 * 1024;
+const SNIFF_LINES = 10;
+
+/**
+ * Picks the candidate delimiter that splits the first records into the most, equally sized, fields.
+ * Quoted text is ignored, so commas inside names do not count.
+ */
+export const sniffDelimiter = (sample: string): string => {
+  const lines: string[] = [];
+  let current = '';
+  let inQuotes = false;
+  for (const char of sample) {
+    if (char === '"') inQuotes = !inQuotes;
+    if ((char === '\n' || char === '\r') && !inQuotes) {
+      if (current.trim()) lines.push(current);
+      current = '';
+      if (lines.length >= SNIFF_LINES) break;
+      continue;
+    }
+    if (!inQuotes && char !== '"') current += char;
+  }
+  if (current.trim() && lines.length < SNIFF_LINES) lines.push(current);
+
+  let best = ',';
+  let bestScore = 0;
+  for (const delimiter of CANDIDATE_DELIMITERS) {
+    const counts = lines.map(line => line.split(delimiter).length - 1);
+    if (counts.length === 0 || counts[0] === 0) continue;
+    const consistency = counts.filter(c => c === counts[0]).length / counts.length;
+    const score = consistency * 1000 + counts[0];
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  }
+  return best;
+};
+
+/**
+ * Incremental parser: feed chunks with `write`, then call `end`; complete records go to `onRow`
+ */
+export const createCSVParser = (onRow: (row: CsvRow) => void, options: CsvParseOptions = {}): CsvStreamParser => {
+  let delimiter = options.delimiter;
+  let pending = ''; // Held back until the delimiter is known
+  let first = true;
+  let row: CsvRow = [];
+  let field = '';
+  let inQuotes = false;
+  let quoteSeen = false; // A quote inside a quoted field: either an escaped quote or the closing one
+  let afterCR = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') onRow(row);
+    row = [];
+    field = '';
+  };
+
+  const consume = (text: string) => {
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      if (inQuotes) {
+        if (quoteSeen) {
+          quoteSeen = false;
+          if (char === '"') {
+            field += '"';
+            continue;
+          }
+          inQuotes = false; // The quote closed the field; handle this character as unquoted
+        } else {
+          if (char === '"') quoteSeen = true;
+          else field += char;
+          continue;
+        }
+      }
+      if (afterCR) {
+        afterCR = false;
+        if (char === '\n') continue;
+      }
+      if (char === '"' && field === '') {
+        inQuotes = true;
+      } else if (char === delimiter) {
+        row.push(field);
+        field = '';
+      } else if (char === '\r') {
+        endRow();
+        afterCR = true;
+      } else if (char === '\n') {
+        endRow();
+      } else {
+        field += char; // Lenient: a stray quote mid-field is kept as text
+      }
+    }
+  };
+
+  const feed = (text: string) => {
+    if (first) {
+      first = false;
+      if (text.charCodeAt(0) === 0xFEFF) text = text.slice(1);
+    }
+    if (delimiter) {
+      consume(text);
+      return;
+    }
+    pending += text;
+    if (pending.length >= SNIFF_SAMPLE_SIZE) {
+      delimiter = sniffDelimiter(pending);
+      consume(pending);
+      pending = '';
+    }
+  };
+
+  return {
+    write: (chunk) => {
+      if (chunk) feed(chunk);
+    },
+    end: () => {
+      if (!delimiter) {
+        delimiter = sniffDelimiter(pending);
+        consume(pending);
+        pending = '';
+      }
+      // An unterminated quoted field ends with the input
+      inQuotes = false;
+      quoteSeen = false;
+      if (field !== '' || row.length > 0) endRow();
+    }
+  };
+};
+
+export const parseCSV = (text: string, options: CsvParseOptions = {}): CsvRow[] => {
+  const rows: CsvRow[] = [];
+  const parser = createCSVParser(row => rows.push(row), options);
+  parser.write(text);
+  parser.end();
+  return rows;
+};
+
+/**
+ * Records of a UTF-8 byte stream (e.g. `file.stream()`), yielded as each chunk is parsed
+ */
+export async function* parseCSVStream(stream: ReadableStream<Uint8Array>, options: CsvParseOptions = {}): AsyncGenerator<CsvRow> {
+  const rows: CsvRow[] = [];
+  const parser = createCSVParser(row => rows.push(row), options);
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      parser.write(decoder.decode(value, { stream: true }));
+      yield* rows.splice(0);
+    }
+    parser.write(decoder.decode());
+    parser.end();
+    yield* rows.splice(0);
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Quotes a field only when it has to: delimiter, quote, line break, or edge whitespace a reader might trim
+ */
+export const formatCSVField = (value: string, delimiter: string = ','): string =>
+  value.includes(delimiter) || /["\r\n]/.test(value) || /^\s|\s$/.test(value)
+    ? `"${value.replace(/"/g, '""')}"`
+    : value;
+
+export const formatCSVRow = (row: CsvRow, delimiter: string = ','): string =>
+  row.map(field => formatCSVField(field, delimiter)).join(delimiter);
+
+export function* serializeCSVRows(rows: Iterable<CsvRow>, options: CsvSerializeOptions = {}): Generator<string> {
+  const delimiter = options.delimiter ?? ',';
+  const eol = options.eol ?? '\r\n';
+  if (options.bom) yield '\uFEFF';
+  for (const row of rows) {
+    yield formatCSVRow(row, delimiter) + eol;
+  }
+}
+
+export const serializeCSV = (rows: Iterable<CsvRow>, options: CsvSerializeOptions = {}): string =>
+  Array.from(serializeCSVRows(rows, options)).join('');
@@ -0,0 +1,274 @@
+import { Voter, ENGINE_LABELS, ExtractionEngineId } from '../types';
+import { applyEpicNormalization, normalizeEpic } from './epicService';
+import { CsvRow, parseCSV, parseCSVStream } from './csvCodec';
+import { openDb, requestToPromise, transactionDone, STORES } from './indexedDb';
+
+/**
+ * Header-aware CSV import. Columns are matched to voter fields by header name through a list of aliases,
+ * so files from other tools (or a cloud engine that reorders columns) load correctly.
+ * When some headers are not recognized the user maps them in the import wizard, and can save that
+ * mapping as a preset for files with the same headers.
+ * Files written by services/voterCsv.ts map completely, and import back to the same voters.
+ */
+
+export type ImportField =
+  | 'sl_no' | 'epic_no' | 'name_en' | 'name_te' | 'relative_name' | 'relative_name_te' | 'house_no' | 'age' | 'gender'
+  | 'assembly_name' | 'parliament_name' | 'polling_station_no' | 'isVoted' | 'votedParty' | 'originalPage' | 'timestamp' | 'engine'
+  | 'epicOriginal' | 'cardBox' | 'confidence' | 'reviewed';
+
+export interface ImportFieldSpec {
+  key: ImportField;
+  label: string;
+  aliases: string[]; // Compared after normalizeHeader, so case, spaces and punctuation do not matter
+  required?: boolean;
+}
+
+export const IMPORT_FIELDS: ImportFieldSpec[] = [
+  { key: 'sl_no', label: 'Serial No', aliases: ['Serial No', 'sl_no', 'S.No', 'Sl No', 'Sr No', 'Serial', 'Serial Number'] },
+  { key: 'epic_no', label: 'EPIC No', aliases: ['EPIC No', 'epic_no', 'EPIC', 'EPIC Number', 'Voter ID', 'Voter ID No', 'Voter Card No', 'ID Card No'], required: true },
+  { key: 'name_en', label: 'Name (English)', aliases: ['Name (English)', 'name_en', 'Name', 'Voter Name', 'Elector Name', 'Name English'], required: true },
+  { key: 'name_te', label: 'Name (Regional)', aliases: ['Name (Telugu)', 'name_te', 'Name (Regional)', 'Regional Name', 'Telugu Name', 'Name Telugu'] },
+  { key: 'relative_name', label: 'Relative Name', aliases: ['Relation Name', 'relative_name', 'Relative Name', 'Father/Husband Name', "Father's Name", 'Father Name', 'Husband Name', 'Guardian Name'] },
+  { key: 'relative_name_te', label: 'Relative Name (Regional)', aliases: ['Relative Name (Regional)', 'relative_name_te', 'Relation Name (Telugu)', 'Relative Name (Telugu)'] },
+  { key: 'house_no', label: 'House No', aliases: ['House No', 'house_no', 'House Number', 'Door No', 'H.No'] },
+  { key: 'age', label: 'Age', aliases: ['Age'] },
+  { key: 'gender', label: 'Gender', aliases: ['Gender', 'Sex'] },
+  { key: 'assembly_name', label: 'Assembly', aliases: ['Assembly', 'assembly_name', 'Assembly Name', 'Assembly Constituency', 'AC Name', 'Constituency'] },
+  { key: 'parliament_name', label: 'Parliament', aliases: ['Parliament', 'parliament_name', 'Parliament Name', 'Parliamentary Constituency', 'PC Name'] },
+  { key: 'polling_station_no', label: 'Polling Station', aliases: ['Polling Station', 'polling_station_no', 'Polling Station No', 'Part No', 'Booth No', 'PS No'] },
+  { key: 'isVoted', label: 'Voted?', aliases: ['Voted?', 'isVoted', 'Voted', 'Has Voted'] },
+  { key: 'votedParty', label: 'Party', aliases: ['Party', 'votedParty', 'Voted Party'] },
+  { key: 'originalPage', label: 'Page No', aliases: ['Page No', 'originalPage', 'Page', 'Source Page'] },
+  { key: 'timestamp', label: 'Timestamp', aliases: ['Timestamp', 'Voted At'] },
+  { key: 'engine', label: 'Engine', aliases: ['Engine', 'Extraction Engine'] },
+  { key: 'epicOriginal', label: 'EPIC (as read)', aliases: ['EPIC (as read)', 'epicOriginal', 'Raw EPIC', 'Original EPIC'] },
+  { key: 'cardBox', label: 'Card Box', aliases: ['Card Box', 'cardBox'] },
+  { key: 'confidence', label: 'Confidence', aliases: ['Confidence'] },
+  { key: 'reviewed', label: 'Reviewed', aliases: ['Reviewed'] }
+];
+
+// Column index per field; fields the file does not have are left out
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+export interface CsvTable {
+  headers: string[];
+  rows: string[][];
+}
+
+export interface ImportIssue {
+  row: number; // Line in the file, header being line 1
+  field?: ImportField;
+  message: string;
+  severity: 'ERROR' | 'WARNING'; // Rows with an error are skipped
+}
+
+export interface MappedImport {
+  voters: Voter[];
+  issues: ImportIssue[];
+  skippedRows: number;
+}
+
+export const normalizeHeader = (header: string): string => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const ALIAS_INDEX = new Map<string, ImportField>(
+  IMPORT_FIELDS.flatMap(f => f.aliases.map(a => [normalizeHeader(a), f.key] as [string, ImportField]))
+);
+
+/**
+ * Header row plus records; shared with the Excel import
+ */
+export const rowsToTable = (rows: string[][]): CsvTable => {
+  if (rows.length < 2) {
+    throw new Error("Data appears to be empty or missing headers.");
+  }
+  return { headers: rows[0].map(h => h.trim()), rows: rows.slice(1) };
+};
+
+export const parseCSVTable = (text: string): CsvTable => rowsToTable(parseCSV(text));
+
+/**
+ * Same as parseCSVTable, parsing the file as it is read instead of decoding it to one string first
+ */
+export const readCSVTable = async (file: Blob): Promise<CsvTable> => {
+  const rows: CsvRow[] = [];
+  for await (const row of parseCSVStream(file.stream())) rows.push(row);
+  return rowsToTable(rows);
+};
+
+/**
+ * Maps every header whose name is a known alias; the first column wins when two map to the same field
+ */
+export const autoMapColumns = (headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  headers.forEach((header, index) => {
+    const field = ALIAS_INDEX.get(normalizeHeader(header));
+    if (field && mapping[field] === undefined) mapping[field] = index;
+  });
+  return mapping;
+};
+
+export const missingRequiredFields = (mapping: ColumnMapping): ImportField[] =>
+  IMPORT_FIELDS.filter(f => f.required && mapping[f.key] === undefined).map(f => f.key);
+
+/**
+ * Headers that no alias matched; their columns would be dropped without the user knowing
+ */
+export const unrecognizedHeaders = (headers: string[]): string[] =>
+  headers.filter(h => h.trim() && !ALIAS_INDEX.has(normalizeHeader(h)));
+
+const VOTED_VALUES = /^(yes|y|true|1|voted)$/i;
+const GENDER_VALUES = /^(m|f|t|o|male|female|other|third\s*gender)$/i;
+
+const parseJson = (text: string, valid: (value: any) => boolean): any => {
+  try {
+    const value = JSON.parse(text);
+    return valid(value) ? value : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const isCardBox = (value: any) => Array.isArray(value) && value.length === 4 && value.every(n => typeof n === 'number');
+const isConfidence = (value: any) =>
+  value !== null && typeof value === 'object' && !Array.isArray(value) && Object.values(value).every(n => typeof n === 'number');
+
+/**
+ * Builds voters from the mapped columns and validates each row
+ */
+export const applyColumnMapping = (table: CsvTable, mapping: ColumnMapping): MappedImport => {
+  const voters: Voter[] = [];
+  const issues: ImportIssue[] = [];
+  let skippedRows = 0;
+
+  table.rows.forEach((cols, i) => {
+    const row = i + 2;
+    // Free text is taken as written so a round trip keeps it exactly; codes and numbers are trimmed
+    const text = (field: ImportField) => {
+      const index = mapping[field];
+      return index === undefined ? '' : (cols[index] ?? '');
+    };
+    const get = (field: ImportField) => text(field).trim();
+    const warn = (field: ImportField, message: string) => issues.push({ row, field, message, severity: 'WARNING' });
+
+    if (!get('epic_no') && !get('name_en')) {
+      issues.push({ row, message: 'No EPIC or name; row skipped', severity: 'ERROR' });
+      skippedRows++;
+      return;
+    }
+
+    const age = get('age');
+    if (age && !/^\d{1,3}$/.test(age)) warn('age', `Age "${age}" is not a number`);
+    const gender = get('gender');
+    if (gender && !GENDER_VALUES.test(gender)) warn('gender', `Unrecognized gender "${gender}"`);
+    const page = get('originalPage');
+    if (page && isNaN(parseInt(page))) warn('originalPage', `Page "${page}" is not a number`);
+    const timestamp = get('timestamp');
+    const parsedTimestamp = timestamp ? (/^\d+$/.test(timestamp) ? Number(timestamp) : Date.parse(timestamp)) : NaN;
+    if (timestamp && isNaN(parsedTimestamp)) warn('timestamp', `Timestamp "${timestamp}" is not a date`);
+    const engine = get('engine');
+    const party = get('votedParty');
+    const cardBoxText = get('cardBox');
+    const cardBox = cardBoxText ? parseJson(cardBoxText, isCardBox) : undefined;
+    if (cardBoxText && !cardBox) warn('cardBox', `Card box "${cardBoxText}" is not [ymin, xmin, ymax, xmax]`);
+    const confidenceText = get('confidence');
+    const confidence = confidenceText ? parseJson(confidenceText, isConfidence) : undefined;
+    if (confidenceText && !confidence) warn('confidence', 'Confidence is not a JSON object of scores');
+    const reviewed = get('reviewed');
+
+    const voter = applyEpicNormalization({
+      sl_no: get('sl_no'),
+      epic_no: get('epic_no'),
+      name_en: text('name_en'),
+      name_te: text('name_te'),
+      relative_name: text('relative_name'),
+      relative_name_te: text('relative_name_te') || undefined,
+      house_no: text('house_no'),
+      age,
+      gender,
+      assembly_name: text('assembly_name'),
+      parliament_name: text('parliament_name'),
+      polling_station_no: text('polling_station_no'),
+      isVoted: VOTED_VALUES.test(get('isVoted')),
+      votedParty: party && party !== 'null' ? party : null,
+      originalPage: page ? parseInt(page) || 0 : undefined,
+      timestamp: isNaN(parsedTimestamp) ? undefined : parsedTimestamp,
+      engine: engine in ENGINE_LABELS ? engine as ExtractionEngineId : undefined,
+      cardBox,
+      confidence,
+      reviewed: reviewed ? VOTED_VALUES.test(reviewed) : undefined,
+      photoBase64: undefined
+    });
+    // The file's EPIC is already normalized; the raw value it was read from decides the status
+    const asRead = get('epicOriginal');
+    if (asRead && asRead !== voter.epic_no) {
+      const fromRaw = normalizeEpic(asRead);
+      voter.epicOriginal = asRead;
+      if (fromRaw.value === voter.epic_no) voter.epicStatus = fromRaw.status;
+    }
+    if (voter.epicStatus === 'INVALID') warn('epic_no', `EPIC "${voter.epic_no}" is not in the 3 letters + 7 digits format`);
+    voters.push(voter);
+  });
+
+  return { voters, issues, skippedRows };
+};
+
+// --- Mapping presets ---
+
+export interface MappingPreset {
+  id: string;
+  name: string;
+  signature: string; // Normalized headers of the source it was made for
+  columns: Partial<Record<ImportField, string>>; // Header name per field, so column order may change
+  createdAt: string;
+}
+
+const headerSignature = (headers: string[]) => headers.map(normalizeHeader).filter(Boolean).sort().join('|');
+
+export const createPreset = (name: string, headers: string[], mapping: ColumnMapping): MappingPreset => {
+  const columns: MappingPreset['columns'] = {};
+  for (const [field, index] of Object.entries(mapping) as [ImportField, number][]) {
+    columns[field] = headers[index];
+  }
+  return { id: crypto.randomUUID(), name, signature: headerSignature(headers), columns, createdAt: new Date().toISOString() };
+};
+
+/**
+ * Mapping for these headers from a preset; columns the file lacks are dropped
+ */
+export const presetToMapping = (preset: MappingPreset, headers: string[]): ColumnMapping => {
+  const byName = new Map(headers.map((h, i) => [normalizeHeader(h), i]));
+  const mapping: ColumnMapping = {};
+  for (const [field, header] of Object.entries(preset.columns) as [ImportField, string][]) {
+    const index = byName.get(normalizeHeader(header));
+    if (index !== undefined) mapping[field] = index;
+  }
+  return mapping;
+};
+
+export const listPresets = async (): Promise<MappingPreset[]> => {
+  const db = await openDb();
+  const presets: MappingPreset[] = await requestToPromise(db.transaction(STORES.CSV_PRESETS, 'readonly').objectStore(STORES.CSV_PRESETS).getAll());
+  return presets.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+/**
+ * Preset made for exactly these headers, if one was saved
+ */
+export const findPresetFor = async (headers: string[]): Promise<MappingPreset | null> => {
+  const signature = headerSignature(headers);
+  return (await listPresets()).find(p => p.signature === signature) || null;
+};
+
+export const savePreset = async (preset: MappingPreset): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(STORES.CSV_PRESETS, 'readwrite');
+  tx.objectStore(STORES.CSV_PRESETS).put(preset);
+  await transactionDone(tx);
+};
+
+export const deletePreset = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(STORES.CSV_PRESETS, 'readwrite');
+  tx.objectStore(STORES.CSV_PRESETS).delete(id);
+  await transactionDone(tx);
+};
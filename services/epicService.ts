@@ -0,0 +1,61 @@
+import { Voter, EpicStatus } from '../types';
+
+/**
+ * EPIC (Voter ID) normalization shared by every extraction engine and CSV import.
+ * Current EPICs are 3 letters followed by 7 digits, so each position can only hold
+ * one character class and OCR confusions can be corrected by position.
+ */
+
+export interface EpicCorrection {
+  position: number; // 0-based index in the cleaned EPIC
+  from: string;
+  to: string;
+}
+
+export interface EpicResult {
+  value: string;
+  original: string;
+  status: EpicStatus;
+  corrections: EpicCorrection[];
+}
+
+const EPIC_FORMAT = /^[A-Z]{3}\d{7}$/;
+
+// Characters OCR engines swap, mapped to the class expected at that position
+const TO_LETTER: Record<string, string> = { '0': 'O', '1': 'I', '5': 'S', '8': 'B' };
+const TO_DIGIT: Record<string, string> = { 'O': '0', 'I': '1', 'S': '5', 'B': '8' };
+
+export const normalizeEpic = (raw: string): EpicResult => {
+  const original = raw || "";
+  // OCR often inserts spaces, dashes or dots inside the ID
+  const cleaned = original.toUpperCase().replace(/[^A-Z0-9]/g, '');
+  const corrections: EpicCorrection[] = [];
+
+  if (cleaned.length !== 10) {
+    return { value: cleaned, original, status: 'INVALID', corrections };
+  }
+
+  const chars = cleaned.split('').map((ch, i) => {
+    const fix = i < 3 ? TO_LETTER[ch] : TO_DIGIT[ch];
+    if (!fix) return ch;
+    corrections.push({ position: i, from: ch, to: fix });
+    return fix;
+  });
+
+  const value = chars.join('');
+  const status: EpicStatus = !EPIC_FORMAT.test(value) ? 'INVALID' : corrections.length > 0 ? 'CORRECTED' : 'VALID';
+  return { value, original, status, corrections };
+};
+
+/**
+ * Normalizes a voter's EPIC in place of the raw value, keeping the raw value when it changed
+ */
+export const applyEpicNormalization = (voter: Voter): Voter => {
+  const result = normalizeEpic(voter.epic_no);
+  return {
+    ...voter,
+    epic_no: result.value,
+    epicStatus: result.status,
+    epicOriginal: result.value !== result.original ? result.original : undefined
+  };
+};
@@ -0,0 +1,93 @@
+import * as pdfjs from 'pdfjs-dist';
+import * as pdfjsWorker from 'pdfjs-dist/build/pdf.worker.js';
+import * as Tesseract from 'tesseract.js';
+import { PdfDocument } from '../types';
+import { extractPage, PipelineOptions, PageExtractionResult } from './extractionPipeline';
+import { createFileRangeTransport, PDF_RANGE_CHUNK_SIZE } from './pdfService';
+
+/**
+ * One extraction pool worker: renders, preprocesses and OCRs pages entirely off the main thread.
+ * The PDF is read from the File in ranges on demand, so a worker never holds the whole roll in memory.
+ */
+
+export type ExtractionRequest =
+    | { type: 'OPEN'; file: File; options: PipelineOptions }
+    | { type: 'EXTRACT'; id: number; pageNumber: number };
+
+export interface ExtractionReply {
+    id: number;
+    result?: PageExtractionResult;
+    error?: string;
+}
+
+// PDF.js parses in this thread instead of spawning a nested worker per pool slot.
+// Its worker module also attaches a listener to self and announces itself; the pool ignores those messages.
+(self as any).pdfjsWorker = pdfjsWorker;
+// ocrService and the pipeline look Tesseract up as a global, as on the main thread
+(self as any).Tesseract = Tesseract;
+
+// PDF.js creates scratch canvases for patterns and soft masks; the default factory needs a document
+const offscreenCanvasFactory = {
+    create: (width: number, height: number) => {
+        const canvas = new OffscreenCanvas(width, height);
+        return { canvas, context: canvas.getContext('2d') };
+    },
+    reset: (entry: { canvas: OffscreenCanvas }, width: number, height: number) => {
+        entry.canvas.width = width;
+        entry.canvas.height = height;
+    },
+    destroy: (entry: { canvas: OffscreenCanvas | null; context: unknown }) => {
+        if (entry.canvas) {
+            entry.canvas.width = 0;
+            entry.canvas.height = 0;
+        }
+        entry.canvas = null;
+        entry.context = null;
+    }
+};
+
+// Transfer-map filters are SVG/DOM based; without a document they are skipped
+const noFilterFactory = {
+    addFilter: () => 'none',
+    addHCMFilter: () => 'none',
+    addHighlightHCMFilter: () => 'none',
+    destroy: () => {}
+};
+
+let pdf: Promise<PdfDocument> | null = null;
+let pipelineOptions: PipelineOptions = { includePhotos: false };
+
+const openDocument = (file: File): Promise<PdfDocument> =>
+    pdfjs.getDocument({
+        range: createFileRangeTransport(pdfjs, file),
+        rangeChunkSize: PDF_RANGE_CHUNK_SIZE,
+        disableAutoFetch: true, // Only the chunks the requested pages need
+        disableStream: true,
+        disableFontFace: true, // FontFace needs a document; glyphs are drawn as paths instead
+        canvasFactory: offscreenCanvasFactory,
+        filterFactory: noFilterFactory
+    }).promise as unknown as Promise<PdfDocument>;
+
+const reply = (message: ExtractionReply) => (self as unknown as Worker).postMessage(message);
+
+self.onmessage = async (event: MessageEvent<ExtractionRequest>) => {
+    const request = event.data;
+    if (request.type === 'OPEN') {
+        pdf = openDocument(request.file);
+        pipelineOptions = request.options;
+        // Surfaced on the first EXTRACT instead of as an unhandled rejection
+        pdf.catch(() => {});
+        return;
+    }
+
+    if (request.type === 'EXTRACT') {
+        const { id, pageNumber } = request;
+        try {
+            if (!pdf) throw new Error("No document opened");
+            const result = await extractPage(await pdf, pageNumber, pipelineOptions);
+            reply({ id, result });
+        } catch (err: any) {
+            reply({ id, error: err?.message || String(err) });
+        }
+    }
+};
@@ -0,0 +1,168 @@
+import { Voter, PreprocessParams, ExtractionEngineId } from '../types';
+import { openDb, requestToPromise, transactionDone, hashText, STORES } from './indexedDb';
+
+/**
+ * Content-addressed cache of engine results, shared by every upload.
+ * Keyed by the page image hash plus engine, model and prompt/pipeline version, so re-uploading
+ * a roll or retrying after a crash never re-bills Gemini or re-runs OCR for a page it has seen.
+ * All operations are best effort: a cache failure only costs a cache miss.
+ */
+
+export const CACHE_SIZE_CAP_BYTES = 50 * 1024 * 1024;
+// Evict down to this fraction of the cap so every write does not trigger another eviction
+const EVICT_TO_FRACTION = 0.9;
+
+export interface CacheKeyParts {
+  imageHash: string;
+  engine: ExtractionEngineId;
+  model: string;
+  version: string; // Prompt / pipeline version; bump it when output for the same image would change
+}
+
+export interface CachedResult {
+  voters: Voter[];
+  preprocessing?: PreprocessParams;
+}
+
+interface CacheEntry extends CachedResult {
+  key: string;
+}
+
+interface CacheMeta {
+  key: string;
+  engine: ExtractionEngineId;
+  model: string;
+  sizeBytes: number;
+  createdAt: number;
+  lastUsedAt: number;
+}
+
+export interface CacheFileStats {
+  fileHash: string;
+  fileName: string;
+  lookups: number;
+  hits: number;
+  updatedAt: number;
+}
+
+export interface CacheSummary {
+  entries: number;
+  sizeBytes: number;
+  capBytes: number;
+}
+
+const buildKey = (parts: CacheKeyParts) => [parts.imageHash, parts.engine, parts.model, parts.version].join('|');
+
+export const hashPageImage = (base64Image: string): Promise<string> => hashText(base64Image);
+
+/**
+ * Returns the cached result and marks it recently used, or null on a miss
+ */
+export const getCachedResult = async (parts: CacheKeyParts): Promise<CachedResult | null> => {
+  try {
+    const db = await openDb();
+    const key = buildKey(parts);
+    const tx = db.transaction([STORES.CACHE_ENTRIES, STORES.CACHE_META], 'readwrite');
+    const entry: CacheEntry | undefined = await requestToPromise(tx.objectStore(STORES.CACHE_ENTRIES).get(key));
+    if (!entry) return null;
+    const metaStore = tx.objectStore(STORES.CACHE_META);
+    const meta: CacheMeta | undefined = await requestToPromise(metaStore.get(key));
+    if (meta) metaStore.put({ ...meta, lastUsedAt: Date.now() });
+    await transactionDone(tx);
+    return { voters: entry.voters, preprocessing: entry.preprocessing };
+  } catch (err) {
+    console.warn("Cache lookup failed", err);
+    return null;
+  }
+};
+
+// Drops least recently used entries once the total passes the cap
+const enforceSizeCap = async (): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([STORES.CACHE_ENTRIES, STORES.CACHE_META], 'readwrite');
+  const metaStore = tx.objectStore(STORES.CACHE_META);
+  const metas: CacheMeta[] = await requestToPromise(metaStore.index('lastUsedAt').getAll());
+  let total = metas.reduce((sum, m) => sum + m.sizeBytes, 0);
+  if (total > CACHE_SIZE_CAP_BYTES) {
+    const entryStore = tx.objectStore(STORES.CACHE_ENTRIES);
+    for (const meta of metas) {
+      if (total <= CACHE_SIZE_CAP_BYTES * EVICT_TO_FRACTION) break;
+      entryStore.delete(meta.key);
+      metaStore.delete(meta.key);
+      total -= meta.sizeBytes;
+    }
+  }
+  await transactionDone(tx);
+};
+
+export const storeCachedResult = async (parts: CacheKeyParts, result: CachedResult): Promise<void> => {
+  try {
+    const db = await openDb();
+    const key = buildKey(parts);
+    const entry: CacheEntry = { key, voters: result.voters, preprocessing: result.preprocessing };
+    const now = Date.now();
+    const meta: CacheMeta = {
+      key,
+      engine: parts.engine,
+      model: parts.model,
+      sizeBytes: JSON.stringify(entry).length * 2, // UTF-16 estimate, close enough for a cap
+      createdAt: now,
+      lastUsedAt: now
+    };
+    const tx = db.transaction([STORES.CACHE_ENTRIES, STORES.CACHE_META], 'readwrite');
+    tx.objectStore(STORES.CACHE_ENTRIES).put(entry);
+    tx.objectStore(STORES.CACHE_META).put(meta);
+    await transactionDone(tx);
+    await enforceSizeCap();
+  } catch (err) {
+    console.warn("Could not store cache entry", err);
+  }
+};
+
+/**
+ * Adds one page's lookups and hits to the running totals for a file
+ */
+export const recordCacheUsage = async (fileHash: string, fileName: string, lookups: number, hits: number): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(STORES.CACHE_STATS, 'readwrite');
+  const store = tx.objectStore(STORES.CACHE_STATS);
+  const existing: CacheFileStats | undefined = await requestToPromise(store.get(fileHash));
+  const stats: CacheFileStats = {
+    fileHash,
+    fileName,
+    lookups: (existing?.lookups ?? 0) + lookups,
+    hits: (existing?.hits ?? 0) + hits,
+    updatedAt: Date.now()
+  };
+  store.put(stats);
+  await transactionDone(tx);
+};
+
+export const listCacheStats = async (): Promise<CacheFileStats[]> => {
+  const db = await openDb();
+  const stats: CacheFileStats[] = await requestToPromise(
+    db.transaction(STORES.CACHE_STATS, 'readonly').objectStore(STORES.CACHE_STATS).getAll()
+  );
+  return stats.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getCacheSummary = async (): Promise<CacheSummary> => {
+  const db = await openDb();
+  const metas: CacheMeta[] = await requestToPromise(
+    db.transaction(STORES.CACHE_META, 'readonly').objectStore(STORES.CACHE_META).getAll()
+  );
+  return {
+    entries: metas.length,
+    sizeBytes: metas.reduce((sum, m) => sum + m.sizeBytes, 0),
+    capBytes: CACHE_SIZE_CAP_BYTES
+  };
+};
+
+export const clearCache = async (): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([STORES.CACHE_ENTRIES, STORES.CACHE_META, STORES.CACHE_STATS], 'readwrite');
+  tx.objectStore(STORES.CACHE_ENTRIES).clear();
+  tx.objectStore(STORES.CACHE_META).clear();
+  tx.objectStore(STORES.CACHE_STATS).clear();
+  await transactionDone(tx);
+};
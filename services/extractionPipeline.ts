@@ -0,0 +1,177 @@
+import { Voter, ExtractionEngineId, PdfDocument, PageStatus, PreprocessParams, ModelCallUsage, LayoutProfileId } from '../types';
+import { extractVotersFromDigitalText, extractVotersFromImage as extractVotersWithTesseract } from './ocrService';
+import { extractVotersFromImage as extractVotersWithGemini, isLlmConfigured } from './geminiService';
+import { getPdfPageAsBase64, getPdfPageTextItems, getPdfPageViewport } from './pdfService';
+import { getLayoutProfile } from './layoutProfiles';
+import { detachPhotos } from './photoStore';
+
+/**
+ * A single page as seen by the extraction engines.
+ * The page image is rendered lazily, so the digital-text strategy never pays for a canvas render.
+ */
+export interface PageContext {
+    pdf: PdfDocument;
+    pageNumber: number;
+    textItems: any[]; // PDF.js text layer (empty for scanned pages)
+    getImage: () => Promise<string>; // Base64 JPEG, rendered once and cached
+    usage: ModelCallUsage[]; // Paid model calls made for this page, across all engines
+}
+
+export interface EngineResult {
+    voters: Voter[];
+    preprocessing?: PreprocessParams;
+    cached?: boolean; // Set by engines backed by the result cache
+}
+
+/**
+ * Common interface implemented by every extraction strategy
+ */
+export interface ExtractionEngine {
+    id: ExtractionEngineId;
+    isAvailable: (page: PageContext) => boolean;
+    extract: (page: PageContext, options: PipelineOptions) => Promise<EngineResult>;
+}
+
+export interface PageExtractionResult {
+    pageNumber: number;
+    voters: Voter[];
+    engine: ExtractionEngineId | null; // null when no engine produced any voter
+    status: PageStatus;
+    error?: string; // Last engine error, kept even when a later engine succeeded
+    preprocessing?: PreprocessParams; // From the Tesseract engine, whether or not it won
+    cached: boolean; // The winning result came from the cache
+    cacheLookups: number;
+    cacheHits: number;
+    usage: ModelCallUsage[];
+}
+
+export interface PipelineOptions {
+    includePhotos: boolean;
+    minEpicAnchors?: number;
+    bypassCache?: boolean; // Skip cache reads; fresh results are still written back
+    layoutProfileId?: LayoutProfileId; // Roll layout; an id so the options can be posted to workers
+}
+
+// A full roll page holds ~30 cards; fewer anchors than this means the cheaper strategy misread the page
+export const MIN_EPIC_ANCHORS = 10;
+
+const digitalTextEngine: ExtractionEngine = {
+    id: 'DIGITAL_TEXT',
+    isAvailable: (page) => page.textItems.length > 0,
+    extract: async (page, options) => ({
+        voters: await extractVotersFromDigitalText(
+            page.textItems, page.pageNumber, getLayoutProfile(options.layoutProfileId), await getPdfPageViewport(page.pdf, page.pageNumber)
+        )
+    })
+};
+
+const tesseractEngine: ExtractionEngine = {
+    id: 'TESSERACT',
+    isAvailable: () => typeof (globalThis as any).Tesseract !== 'undefined',
+    extract: async (page, options) =>
+        extractVotersWithTesseract(
+            await page.getImage(), page.pageNumber, options.includePhotos, !options.bypassCache, getLayoutProfile(options.layoutProfileId)
+        )
+};
+
+const geminiEngine: ExtractionEngine = {
+    id: 'GEMINI',
+    isAvailable: () => isLlmConfigured(),
+    extract: async (page, options) =>
+        extractVotersWithGemini(await page.getImage(), page.pageNumber, options.includePhotos, {
+            useCache: !options.bypassCache,
+            onUsage: (usage) => page.usage.push(usage),
+            layoutProfileId: options.layoutProfileId
+        })
+};
+
+// Ordered cheapest first; the pipeline stops at the first engine that finds enough anchors
+export const ENGINES: ExtractionEngine[] = [digitalTextEngine, tesseractEngine, geminiEngine];
+
+const countEpicAnchors = (voters: Voter[]) => voters.filter(v => v.epic_no.trim().length > 0).length;
+
+/**
+ * Extracts one page, escalating through the engines until one yields enough EPIC anchors.
+ * If none reaches the threshold, the result with the most anchors wins.
+ */
+export const extractPage = async (
+    pdf: PdfDocument,
+    pageNumber: number,
+    options: PipelineOptions
+): Promise<PageExtractionResult> => {
+    const minAnchors = options.minEpicAnchors ?? MIN_EPIC_ANCHORS;
+
+    let textItems: any[] = [];
+    try {
+        textItems = await getPdfPageTextItems(pdf, pageNumber);
+    } catch (err) {
+        console.warn(`Could not read text layer on page ${pageNumber}`, err);
+    }
+
+    let image: Promise<string> | null = null;
+    const page: PageContext = {
+        pdf,
+        pageNumber,
+        textItems,
+        getImage: () => {
+            if (!image) image = getPdfPageAsBase64(pdf, pageNumber);
+            return image;
+        },
+        usage: []
+    };
+
+    let best: PageExtractionResult = { pageNumber, voters: [], engine: null, status: 'EMPTY', cached: false, cacheLookups: 0, cacheHits: 0, usage: [] };
+    let lastError: string | undefined;
+    let preprocessing: PreprocessParams | undefined;
+    let cacheLookups = 0;
+    let cacheHits = 0;
+
+    for (const engine of ENGINES) {
+        if (!engine.isAvailable(page)) continue;
+
+        let voters: Voter[] = [];
+        let cached = false;
+        try {
+            const output = await engine.extract(page, options);
+            voters = output.voters;
+            preprocessing = output.preprocessing ?? preprocessing;
+            cached = !!output.cached;
+            if (output.cached !== undefined && !options.bypassCache) {
+                cacheLookups++;
+                if (cached) cacheHits++;
+            }
+        } catch (err: any) {
+            console.warn(`${engine.id} failed on page ${pageNumber}`, err);
+            lastError = `${engine.id}: ${err?.message || err}`;
+            continue;
+        }
+
+        const anchors = countEpicAnchors(voters);
+        if (anchors > countEpicAnchors(best.voters)) {
+            best = {
+                pageNumber,
+                voters: voters.map(v => ({ ...v, engine: engine.id })),
+                engine: engine.id,
+                status: 'SUCCESS',
+                cached,
+                cacheLookups: 0,
+                cacheHits: 0,
+                usage: []
+            };
+        }
+        if (anchors >= minAnchors) break;
+    }
+
+    // A page with no voters is only "empty" if every engine ran cleanly
+    if (best.voters.length === 0 && lastError) {
+        best.status = 'FAILED';
+    }
+    // Photos go to IndexedDB here, so they never travel back from the workers or into checkpoints
+    if (options.includePhotos) {
+        best.voters = await detachPhotos(best.voters).catch(err => {
+            console.warn(`Could not store photos for page ${pageNumber}, keeping them inline`, err);
+            return best.voters;
+        });
+    }
+    return { ...best, error: lastError, preprocessing, cacheLookups, cacheHits, usage: page.usage };
+};
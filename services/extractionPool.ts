@@ -0,0 +1,169 @@
+import { PipelineOptions, PageExtractionResult } from './extractionPipeline';
+import type { ExtractionRequest, ExtractionReply } from './extraction.worker';
+import type { SchedulerRequest, SchedulerGrant } from './schedulerClient';
+import { acquireModel, reportModelResult } from './modelScheduler';
+
+/**
+ * Main-thread side of the extraction worker pool.
+ * Each worker renders and OCRs one page at a time and sends back only the page result (voters + report),
+ * so page images, pixel buffers and Tesseract never touch the main thread.
+ * Workers are started on demand up to `size`, capped by the device (see maxExtractionWorkers), and forward
+ * Gemini quota requests to the shared scheduler. Pages requested beyond the worker count wait in the queue,
+ * so a high concurrency setting only raises the number of model calls in flight.
+ */
+
+export interface ExtractionPool {
+    size: number;
+    extract: (pageNumber: number) => Promise<PageExtractionResult>;
+    terminate: () => void;
+}
+
+// PDF.js and Tesseract caches only grow within a worker; a fresh one after this many pages caps its memory
+const PAGES_PER_WORKER = 20;
+
+interface Task {
+    pageNumber: number;
+    resolve: (result: PageExtractionResult) => void;
+    reject: (err: Error) => void;
+}
+
+interface Slot {
+    worker: Worker;
+    task: Task | null;
+    pagesDone: number;
+    run: (task: Task) => void;
+}
+
+// Each worker holds its own PDF.js instance and Tesseract with the English and regional traineddata
+const DEVICE_MEMORY_GB_PER_WORKER = 2;
+// Browsers without navigator.deviceMemory (Safari, Firefox) may be phones
+const UNKNOWN_MEMORY_WORKERS = 2;
+
+/**
+ * Workers this device can run side by side: one core is left to the main thread, and
+ * navigator.deviceMemory (GB, rounded down by the browser) bounds the total memory they use
+ */
+export const maxExtractionWorkers = (): number => {
+    const cores = navigator.hardwareConcurrency || 2;
+    const memory: number | undefined = (navigator as any).deviceMemory;
+    const byMemory = memory ? Math.floor(memory / DEVICE_MEMORY_GB_PER_WORKER) : UNKNOWN_MEMORY_WORKERS;
+    return Math.max(1, Math.min(cores - 1, byMemory));
+};
+
+/**
+ * Workers need OffscreenCanvas and createImageBitmap to render without a DOM
+ */
+export const isWorkerExtractionSupported = (): boolean =>
+    typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined' && typeof createImageBitmap !== 'undefined';
+
+export const createExtractionPool = (file: File, size: number, options: PipelineOptions): ExtractionPool => {
+    const queue: Task[] = [];
+    const slots: Slot[] = [];
+    const maxWorkers = Math.max(1, Math.min(size, maxExtractionWorkers()));
+    let nextId = 1;
+    let terminated = false;
+
+    const spawn = (): Slot => {
+        const worker = new Worker(new URL('./extraction.worker.ts', import.meta.url), { type: 'module' });
+        const post = (message: ExtractionRequest) => worker.postMessage(message);
+        let taskId = 0;
+
+        const slot: Slot = {
+            worker,
+            task: null,
+            pagesDone: 0,
+            run: (task) => {
+                taskId = nextId++;
+                slot.task = task;
+                post({ type: 'EXTRACT', id: taskId, pageNumber: task.pageNumber });
+            }
+        };
+
+        worker.onmessage = (event: MessageEvent<ExtractionReply | SchedulerRequest>) => {
+            const data = event.data as any;
+            if (data?.type === 'MODEL_ACQUIRE') {
+                const { requestId, candidates, exclude } = data;
+                acquireModel(candidates, exclude).then(model => {
+                    const grant: SchedulerGrant = { type: 'MODEL_GRANT', requestId, model };
+                    worker.postMessage(grant);
+                });
+                return;
+            }
+            if (data?.type === 'MODEL_RESULT') {
+                reportModelResult(data.model, data.outcome);
+                return;
+            }
+
+            const { id, result, error } = data as ExtractionReply;
+            // PDF.js's in-worker message handler also posts here; only numbered replies are ours
+            if (typeof id !== 'number' || id !== taskId || !slot.task) return;
+            const task = slot.task;
+            slot.task = null;
+            slot.pagesDone++;
+            if (result) task.resolve(result);
+            else task.reject(new Error(error || `Page ${task.pageNumber} failed in worker`));
+            recycle(slot);
+            dispatch();
+        };
+
+        worker.onerror = (event) => {
+            // A crashed worker (usually out of memory) fails only its own page; the slot is replaced
+            event.preventDefault();
+            const task = slot.task;
+            slot.task = null;
+            task?.reject(new Error(event.message || "Extraction worker crashed"));
+            replace(slot);
+            dispatch();
+        };
+
+        // The File is passed by reference; the worker reads byte ranges from it as PDF.js needs them
+        post({ type: 'OPEN', file, options });
+        return slot;
+    };
+
+    const replace = (slot: Slot) => {
+        slot.worker.terminate();
+        if (terminated) return;
+        slots[slots.indexOf(slot)] = spawn();
+    };
+
+    const recycle = (slot: Slot) => {
+        if (slot.pagesDone >= PAGES_PER_WORKER) replace(slot);
+    };
+
+    const dispatch = () => {
+        if (terminated) return;
+        for (const slot of slots) {
+            if (queue.length === 0) return;
+            if (slot.task) continue;
+            slot.run(queue.shift()!);
+        }
+        while (queue.length > 0 && slots.length < maxWorkers) {
+            const slot = spawn();
+            slots.push(slot);
+            slot.run(queue.shift()!);
+        }
+    };
+
+    return {
+        size: maxWorkers,
+        extract: (pageNumber) => new Promise((resolve, reject) => {
+            if (terminated) {
+                reject(new Error("Extraction pool terminated"));
+                return;
+            }
+            queue.push({ pageNumber, resolve, reject });
+            dispatch();
+        }),
+        terminate: () => {
+            terminated = true;
+            const cancelled = new Error("Extraction cancelled");
+            queue.splice(0).forEach(task => task.reject(cancelled));
+            slots.forEach(slot => {
+                slot.task?.reject(cancelled);
+                slot.task = null;
+                slot.worker.terminate();
+            });
+        }
+    };
+};
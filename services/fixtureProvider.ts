@@ -0,0 +1,36 @@
+import { LlmProvider } from "./llmContract";
+import { hashPageImage } from "./extractionCache";
+
+/**
+ * Deterministic replay of recorded model responses, for offline development and tests.
+ * A response is looked up by the SHA-256 of the page image: first among fixtures registered in code,
+ * then as `<LLM_FIXTURE_URL>/<hash>.json` (default /llm-fixtures), holding the raw response text.
+ * A page without a fixture fails like a provider error; nothing is ever made up.
+ */
+
+const FIXTURE_BASE_URL = (process.env.LLM_FIXTURE_URL || '/llm-fixtures').replace(/\/+$/, '');
+
+const fixtures = new Map<string, string>();
+
+export const registerFixture = (imageHash: string, responseText: string) => {
+  fixtures.set(imageHash, responseText);
+};
+
+export const clearFixtures = () => fixtures.clear();
+
+export const fixtureProvider: LlmProvider = {
+  id: 'FIXTURE',
+  label: 'Fixture replay',
+  models: ['fixture-replay'],
+  isConfigured: () => true,
+  generate: async ({ imageBase64 }) => {
+    const hash = await hashPageImage(imageBase64);
+    let text = fixtures.get(hash);
+    if (text === undefined) {
+      const response = await fetch(`${FIXTURE_BASE_URL}/${hash}.json`).catch(() => null);
+      if (!response?.ok) throw new Error(`No fixture recorded for page image ${hash}`);
+      text = await response.text();
+    }
+    return { text, promptTokens: 0, outputTokens: 0 };
+  }
+};
@@ -0,0 +1,60 @@
+import { GoogleGenAI, HarmCategory, HarmBlockThreshold } from "@google/genai";
+import { LlmProvider } from "./llmContract";
+
+/**
+ * Google Gemini through @google/genai, using Gemini's native response schema
+ */
+
+// List of models to rotate through, prioritizing Gemini 3 Pro
+const FALLBACK_MODELS = [
+  "gemini-3-pro-preview",     // Primary: High intelligence for complex layouts
+  "gemini-2.5-flash",         // Secondary: Fast and reliable
+  "gemini-2.0-flash"          // Backup
+];
+
+export const geminiProvider: LlmProvider = {
+  id: 'GEMINI',
+  label: 'Gemini',
+  models: FALLBACK_MODELS,
+  isConfigured: () => !!process.env.API_KEY,
+  generate: async ({ model, imageBase64, prompt, schema }) => {
+    // Use environment variable for API Key
+    const apiKey = process.env.API_KEY;
+    if (!apiKey) {
+      throw new Error("API Key is missing. Please check your environment configuration.");
+    }
+
+    const ai = new GoogleGenAI({ apiKey });
+    const response = await ai.models.generateContent({
+      model,
+      contents: [
+        {
+          role: "user",
+          parts: [
+            { inlineData: { mimeType: "image/jpeg", data: imageBase64 } },
+            { text: prompt }
+          ]
+        }
+      ],
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: schema,
+        // Removed temperature to let model decide best determinism for OCR
+        safetySettings: [
+          { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_NONE },
+          { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.BLOCK_NONE },
+          { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_NONE },
+          { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_NONE },
+        ]
+      }
+    });
+
+    const usage = response.usageMetadata;
+    return {
+      text: response.text || "[]",
+      promptTokens: usage?.promptTokenCount ?? 0,
+      // Thinking tokens bill as output
+      outputTokens: (usage?.candidatesTokenCount ?? 0) + (usage?.thoughtsTokenCount ?? 0)
+    };
+  }
+};
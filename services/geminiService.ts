@@ -1,143 +1,81 @@
-import { GoogleGenAI, Schema, Type, HarmCategory, HarmBlockThreshold } from "@google/genai";
-import { Voter, VoterRawData } from "../types";
-
-// Define the response schema for Gemini
-const VOTER_SCHEMA: Schema = {
-  type: Type.ARRAY,
-  items: {
-    type: Type.OBJECT,
-    properties: {
-      sl_no: { type: Type.STRING, description: "Serial number of the voter" },
-      epic_no: { type: Type.STRING, description: "EPIC (Voter ID) number, e.g., ABC1234567" },
-      name_en: { type: Type.STRING, description: "Name of the voter in English" },
-      name_te: { type: Type.STRING, description: "Name of the voter in Telugu" },
-      relative_name: { type: Type.STRING, description: "Name of the Relative (Father, Husband, Mother, etc.)" },
-      house_no: { type: Type.STRING, description: "House number" },
-      age: { type: Type.STRING, description: "Age of the voter" },
-      gender: { type: Type.STRING, description: "Gender (Male/Female/Other)" },
-      assembly_name: { type: Type.STRING, description: "Assembly Constituency Name (found in page header)" },
-      parliament_name: { type: Type.STRING, description: "Parliamentary Constituency Name (found in page header)" },
-      polling_station_no: { type: Type.STRING, description: "Polling Station Number/Name (found in page header)" },
-      photo_box_2d: {
-        type: Type.ARRAY,
-        items: { type: Type.NUMBER },
-        description: "The bounding box of the voter's photo formatted as [ymin, xmin, ymax, xmax] normalized to 0-1000."
-      }
-    },
-    required: ["name_en", "epic_no"]
-  }
-};
-
-// List of models to rotate through, prioritizing Gemini 3 Pro
-const FALLBACK_MODELS = [
-  "gemini-3-pro-preview",     // Primary: High intelligence for complex layouts
-  "gemini-2.5-flash",         // Secondary: Fast and reliable
-  "gemini-2.0-flash"          // Backup
-];
+import { Voter, VoterRawData, ModelCallUsage, LayoutProfileId } from "../types";
+import { applyEpicNormalization } from "./epicService";
+import { createCanvas, canvasToDataUrl, decodeBase64Image, releaseCanvas } from "./canvasUtils";
+import { acquireModel, reportModelResult, isRateLimitError } from "./schedulerClient";
+import { hashPageImage, getCachedResult, storeCachedResult } from "./extractionCache";
+import { PROMPT_VERSION, buildVoterSchema, buildExtractionPrompt, parseVoterJson } from "./llmContract";
+import { getLayoutProfile } from "./layoutProfiles";
+import { scoreVoterFields } from "./confidenceService";
+import { getActiveProvider } from "./llmProviders";
+
+/**
+ * Vision-LLM extraction of one page: cache, scheduling, retries and usage around whichever
+ * provider LLM_PROVIDER selects (Gemini by default, see llmProviders.ts).
+ */
+
+export interface GeminiPageResult {
+  voters: Voter[];
+  cached: boolean;
+}
+
+export interface GeminiCallOptions {
+  useCache?: boolean; // Default true
+  onUsage?: (usage: ModelCallUsage) => void; // Called for every model call, failed ones included
+  layoutProfileId?: LayoutProfileId; // Default: Telangana/AP
+}
+
+export const isLlmConfigured = (): boolean => getActiveProvider().isConfigured();
 
 export const extractVotersFromImage = async (
   base64Image: string, 
   pageNumber: number,
-  includePhotos: boolean
-): Promise<Voter[]> => {
-  // Use environment variable for API Key
-  const apiKey = process.env.API_KEY;
+  includePhotos: boolean,
+  { useCache = true, onUsage, layoutProfileId }: GeminiCallOptions = {}
+): Promise<GeminiPageResult> => {
+  const provider = getActiveProvider();
   
-  if (!apiKey) {
-    throw new Error("API Key is missing. Please check your environment configuration.");
+  if (!provider.isConfigured()) {
+    throw new Error(`${provider.label} provider is not configured. Please check your environment configuration.`);
   }
 
-  const ai = new GoogleGenAI({ apiKey });
-  
+  // A page image already extracted by any model under this prompt is not billed again
+  const imageHash = await hashPageImage(base64Image);
+  const profile = getLayoutProfile(layoutProfileId);
+  const version = `${PROMPT_VERSION}:${profile.id}${includePhotos ? '+photos' : ''}`;
+  if (useCache) {
+    for (const model of provider.models) {
+      const cached = await getCachedResult({ imageHash, engine: 'GEMINI', model, version });
+      if (cached) {
+        return { voters: cached.voters.map(v => ({ ...v, originalPage: pageNumber })), cached: true };
+      }
+    }
+  }
+
+  const prompt = buildExtractionPrompt(includePhotos, profile);
+  const schema = buildVoterSchema(profile);
   const maxRetries = 6; 
   let attempt = 0;
   // Reduced base delay to keep parallel processing snappy
   let baseDelay = 1500; 
+  const failedModels: string[] = [];
 
   while (attempt < maxRetries) {
-    // Rotate model based on attempt number to bypass quota buckets
-    const currentModel = FALLBACK_MODELS[attempt % FALLBACK_MODELS.length];
+    // The shared scheduler waits for quota and picks the healthiest model not yet failed on this page
+    const currentModel = await acquireModel(provider.models, failedModels);
+    const started = Date.now();
+    let latencyMs: number | null = null; // Set once the model has answered
+    let usageRecorded = false;
 
     try {
-      // Prompt designed to handle the "chunk" of voters visible on one page
-      const response = await ai.models.generateContent({
-        model: currentModel,
-        contents: [
-          {
-            role: "user",
-            parts: [
-              {
-                inlineData: {
-                  mimeType: "image/jpeg",
-                  data: base64Image
-                }
-              },
-              {
-                text: `Analyze this Electoral Roll page image. 
-                Identify the grid of voter ID cards. Each card typically contains:
-                - Name (English & Telugu)
-                - Father's/Husband's Name
-                - House Number
-                - Age & Gender
-                - EPIC Number (Top of the card)
-                - Serial Number (Section/Part Number)
-
-                Extract ALL voter records visible in the table/grid.
-                Ignore general instructions or footers unless they contain Assembly/Polling station info.
-                
-                For each voter row, extract:
-                - Name (English & Telugu)
-                - Relative's Name (Father/Husband)
-                - House No, Age, Gender, Serial No, and EPIC No.
-                - Page Header Info (Assembly, Parliament, Polling Station) - repeat this for every voter.
-
-                ${includePhotos ? 'Identify photo bounding boxes [ymin, xmin, ymax, xmax] (0-1000).' : 'Ignore photo bounding boxes.'}
-                
-                Return a JSON array of objects following the schema.`
-              }
-            ]
-          }
-        ],
-        config: {
-          responseMimeType: "application/json",
-          responseSchema: VOTER_SCHEMA,
-          // Removed temperature to let model decide best determinism for OCR
-          safetySettings: [
-            { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_NONE },
-            { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.BLOCK_NONE },
-            { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_NONE },
-            { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_NONE },
-          ]
-        }
-      });
+      const response = await provider.generate({ model: currentModel, imageBase64: base64Image, prompt, schema });
+      latencyMs = Date.now() - started;
 
-      let jsonString = response.text || "[]";
-      
-      // Robust JSON Extraction: Find outer brackets to strip markdown/conversational text
-      const firstBracket = jsonString.indexOf('[');
-      const lastBracket = jsonString.lastIndexOf(']');
-      
-      if (firstBracket !== -1 && lastBracket !== -1 && lastBracket > firstBracket) {
-          jsonString = jsonString.substring(firstBracket, lastBracket + 1);
-      } else {
-          // Fallback if structure is messy
-          jsonString = jsonString.replace(/^```json\s*/, "").replace(/^```\s*/, "").replace(/\s*```$/, "");
-      }
+      // Billed even if the JSON below turns out unusable
+      onUsage?.({ model: currentModel, promptTokens: response.promptTokens, outputTokens: response.outputTokens, ok: true });
+      usageRecorded = true;
 
-      let rawData: VoterRawData[] = [];
-      try {
-          const parsed = JSON.parse(jsonString);
-          if (Array.isArray(parsed)) {
-            rawData = parsed;
-          } else if (typeof parsed === 'object' && parsed !== null) {
-             if (parsed.voters && Array.isArray(parsed.voters)) {
-               rawData = parsed.voters;
-             } else {
-               // Single object return
-               rawData = [parsed];
-             }
-          }
-      } catch (e) {
+      const rawData: VoterRawData[] | null = parseVoterJson(response.text);
+      if (!rawData) {
           console.error(`JSON Parse Error on page ${pageNumber} (Model: ${currentModel})`);
           throw new Error("JSON Parse Failed");
       }
@@ -150,7 +88,7 @@ export const extractVotersFromImage = async (
           photoBase64 = await cropImage(base64Image, raw.photo_box_2d);
         }
 
-        return {
+        const voter: Voter = {
           sl_no: raw.sl_no || "",
           epic_no: raw.epic_no || "",
           name_en: raw.name_en || "",
@@ -164,70 +102,75 @@ export const extractVotersFromImage = async (
           polling_station_no: raw.polling_station_no || "",
           photoBase64: photoBase64,
           originalPage: pageNumber,
+          cardBox: raw.card_box_2d && raw.card_box_2d.length === 4 ? raw.card_box_2d : undefined,
           isVoted: false,
           votedParty: null
         };
+        return { ...voter, confidence: scoreVoterFields(voter, raw.confidence || {}) };
       }));
       
-      return processedVoters;
+      const voters = processedVoters.map(applyEpicNormalization);
+      storeCachedResult({ imageHash, engine: 'GEMINI', model: currentModel, version }, { voters });
+      // Reported once the answer proved usable; malformed JSON counts as a failed call
+      reportModelResult(currentModel, { ok: true, latencyMs });
+      return { voters, cached: false };
 
     } catch (error: any) {
       attempt++;
+      failedModels.push(currentModel);
+      if (!usageRecorded) {
+          onUsage?.({ model: currentModel, promptTokens: 0, outputTokens: 0, ok: false });
+      }
+      const rateLimited = isRateLimitError(error);
+      // Every failure counts against the model's health, not only 429s
+      reportModelResult(currentModel, { ok: false, rateLimited, latencyMs: latencyMs ?? Date.now() - started });
       
       if (attempt >= maxRetries) {
-          console.error(`Max retries reached for page ${pageNumber}. Skipping.`);
-          return [];
+          console.error(`Max retries reached for page ${pageNumber}.`);
+          // Surface the failure so the page is reported instead of silently dropped
+          throw new Error(`Max retries reached (${currentModel}): ${error?.message || error}`);
       }
       
-      const nextModel = FALLBACK_MODELS[attempt % FALLBACK_MODELS.length];
+      // Rate limits are paced by the scheduler's cool-down; other errors get a short local backoff
+      const delay = rateLimited ? 0 : baseDelay * attempt + (Math.random() * 500); 
       
-      // Use shorter delays when model switching to keep things fast
-      const delay = baseDelay * attempt + (Math.random() * 500); 
-      
-      console.warn(`Attempt ${attempt} failed on ${currentModel}. Switching to ${nextModel} in ${Math.round(delay)}ms`);
+      console.warn(`Attempt ${attempt} failed on ${currentModel}${rateLimited ? ' (rate limited)' : ''}. Retrying in ${Math.round(delay)}ms`);
       
       await new Promise(resolve => setTimeout(resolve, delay));
     }
   }
-  return [];
+  return { voters: [], cached: false };
 };
 
 // Helper to crop face from the page using bounding box
-const cropImage = (base64Source: string, box: number[]): Promise<string> => {
-  return new Promise((resolve) => {
-    const img = new Image();
-    img.onload = () => {
-      const canvas = document.createElement('canvas');
-      const ctx = canvas.getContext('2d');
-      if (!ctx) {
-        resolve("");
-        return;
-      }
+const cropImage = async (base64Source: string, box: number[]): Promise<string> => {
+  try {
+    const img = await decodeBase64Image(base64Source);
 
-      // Gemini returns 0-1000 normalized coordinates [ymin, xmin, ymax, xmax]
-      const [ymin, xmin, ymax, xmax] = box;
+    // Gemini returns 0-1000 normalized coordinates [ymin, xmin, ymax, xmax]
+    const [ymin, xmin, ymax, xmax] = box;
 
-      const width = img.width;
-      const height = img.height;
+    const width = img.width;
+    const height = img.height;
 
-      const x = (xmin / 1000) * width;
-      const y = (ymin / 1000) * height;
-      const w = ((xmax - xmin) / 1000) * width;
-      const h = ((ymax - ymin) / 1000) * height;
+    const x = (xmin / 1000) * width;
+    const y = (ymin / 1000) * height;
+    const w = ((xmax - xmin) / 1000) * width;
+    const h = ((ymax - ymin) / 1000) * height;
 
-      // Add a small padding
-      const padding = 2;
-      
-      canvas.width = w + (padding * 2);
-      canvas.height = h + (padding * 2);
+    // Add a small padding
+    const padding = 2;
 
-      // Draw cropped region
-      ctx.drawImage(img, x - padding, y - padding, w + (padding * 2), h + (padding * 2), 0, 0, canvas.width, canvas.height);
-      
-      const dataUrl = canvas.toDataURL('image/jpeg', 0.8);
-      resolve(dataUrl);
-    };
-    img.onerror = () => resolve("");
-    img.src = `data:image/jpeg;base64,${base64Source}`; 
-  });
-};
\ No newline at end of file
+    const { canvas, ctx } = createCanvas(Math.round(w + (padding * 2)), Math.round(h + (padding * 2)));
+
+    // Draw cropped region
+    ctx.drawImage(img, x - padding, y - padding, w + (padding * 2), h + (padding * 2), 0, 0, canvas.width, canvas.height);
+    img.close();
+
+    const dataUrl = await canvasToDataUrl(canvas, 'image/jpeg', 0.8);
+    releaseCanvas(canvas);
+    return dataUrl;
+  } catch {
+    return "";
+  }
+};
@@ -0,0 +1,266 @@
+import { PreprocessParams } from '../types';
+import { PixelImage, Box } from './cardSegmentation';
+
+/**
+ * Adaptive preprocessing for scanned roll pages:
+ * watermark/background suppression -> deskew -> Otsu or Sauvola binarization -> despeckle.
+ * Pure pixel code with no DOM access, so it runs inside the preprocessing worker.
+ */
+
+const SAUVOLA_WINDOW = 25; // px at the default 2.5x render scale, roughly one text line
+const SAUVOLA_K = 0.34;
+const SAUVOLA_R = 128;
+const MAX_SKEW_DEGREES = 3;
+const SKEW_STEP_DEGREES = 0.2;
+// Background block means spreading more than this means uneven lighting, where a global threshold fails
+const UNEVEN_BACKGROUND_STDDEV = 12;
+
+const toGray = (img: PixelImage): Uint8ClampedArray => {
+    const gray = new Uint8ClampedArray(img.width * img.height);
+    for (let i = 0, p = 0; p < gray.length; i += 4, p++) {
+        gray[p] = 0.299 * img.data[i] + 0.587 * img.data[i + 1] + 0.114 * img.data[i + 2];
+    }
+    return gray;
+};
+
+/**
+ * Otsu's global threshold; gray levels at or below it are ink
+ */
+export const otsuThreshold = (gray: Uint8ClampedArray): number => {
+    const hist = new Array(256).fill(0);
+    for (let i = 0; i < gray.length; i++) hist[gray[i]]++;
+
+    const total = gray.length;
+    let sumAll = 0;
+    for (let t = 0; t < 256; t++) sumAll += t * hist[t];
+
+    let sumBg = 0;
+    let weightBg = 0;
+    let best = 0;
+    let threshold = 128;
+    for (let t = 0; t < 256; t++) {
+        weightBg += hist[t];
+        if (weightBg === 0) continue;
+        const weightFg = total - weightBg;
+        if (weightFg === 0) break;
+        sumBg += t * hist[t];
+        const meanBg = sumBg / weightBg;
+        const meanFg = (sumAll - sumBg) / weightFg;
+        const between = weightBg * weightFg * (meanBg - meanFg) ** 2;
+        if (between > best) {
+            best = between;
+            threshold = t;
+        }
+    }
+    return threshold;
+};
+
+/**
+ * Spread of 32px block means over background blocks; high values mean shading or gray patterns
+ */
+const backgroundUnevenness = (gray: Uint8ClampedArray, width: number, height: number, threshold: number): number => {
+    const block = 32;
+    const means: number[] = [];
+    for (let by = 0; by + block <= height; by += block) {
+        for (let bx = 0; bx + block <= width; bx += block) {
+            let sum = 0;
+            for (let y = by; y < by + block; y++) {
+                for (let x = bx; x < bx + block; x++) sum += gray[y * width + x];
+            }
+            const mean = sum / (block * block);
+            if (mean > threshold) means.push(mean);
+        }
+    }
+    if (means.length < 2) return 0;
+    const avg = means.reduce((a, b) => a + b, 0) / means.length;
+    return Math.sqrt(means.reduce((a, b) => a + (b - avg) ** 2, 0) / means.length);
+};
+
+/**
+ * Skew angle (degrees) maximising the sharpness of the dark-row projection.
+ * Runs on a downsampled copy; text lines and card rulings line up best at the true angle.
+ */
+const estimateSkew = (gray: Uint8ClampedArray, width: number, height: number, threshold: number): number => {
+    const step = Math.max(1, Math.floor(width / 800));
+    const points: [number, number][] = [];
+    for (let y = 0; y < height; y += step) {
+        for (let x = 0; x < width; x += step) {
+            if (gray[y * width + x] <= threshold) points.push([x / step, y / step]);
+        }
+    }
+    if (points.length === 0) return 0;
+
+    const rows = Math.ceil(height / step) + Math.ceil(width / step);
+    let bestAngle = 0;
+    let bestScore = -1;
+    for (let deg = -MAX_SKEW_DEGREES; deg <= MAX_SKEW_DEGREES + 1e-9; deg += SKEW_STEP_DEGREES) {
+        const tan = Math.tan((deg * Math.PI) / 180);
+        const profile = new Uint32Array(rows * 2);
+        for (const [x, y] of points) {
+            const r = Math.round(y - x * tan) + rows;
+            if (r >= 0 && r < profile.length) profile[r]++;
+        }
+        let score = 0;
+        for (let i = 0; i < profile.length; i++) score += profile[i] * profile[i];
+        if (score > bestScore) {
+            bestScore = score;
+            bestAngle = deg;
+        }
+    }
+    return Math.round(bestAngle * 100) / 100;
+};
+
+// Inverse-mapped nearest-neighbour rotation about the page centre, filling with white
+const rotateGray = (gray: Uint8ClampedArray, width: number, height: number, degrees: number): Uint8ClampedArray => {
+    const out = new Uint8ClampedArray(gray.length).fill(255);
+    const rad = (degrees * Math.PI) / 180;
+    const cos = Math.cos(rad);
+    const sin = Math.sin(rad);
+    const cx = width / 2;
+    const cy = height / 2;
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const sx = Math.round(cos * (x - cx) - sin * (y - cy) + cx);
+            const sy = Math.round(sin * (x - cx) + cos * (y - cy) + cy);
+            if (sx >= 0 && sx < width && sy >= 0 && sy < height) out[y * width + x] = gray[sy * width + sx];
+        }
+    }
+    return out;
+};
+
+const isDeskewed = (skewAngle: number) => Math.abs(skewAngle) >= SKEW_STEP_DEGREES;
+
+/**
+ * Bounding box in the source image of a box found on the deskewed one: the same mapping rotateGray samples with.
+ * Photo crops and card boxes must refer to the unrotated page, which is what the PDF viewer shows.
+ */
+export const toSourceBox = (box: Box, skewAngle: number, width: number, height: number): Box => {
+    if (!isDeskewed(skewAngle)) return box;
+    const rad = (skewAngle * Math.PI) / 180;
+    const cos = Math.cos(rad);
+    const sin = Math.sin(rad);
+    const cx = width / 2;
+    const cy = height / 2;
+    const corners = [[box.x, box.y], [box.x + box.width, box.y], [box.x, box.y + box.height], [box.x + box.width, box.y + box.height]]
+        .map(([x, y]) => [cos * (x - cx) - sin * (y - cy) + cx, sin * (x - cx) + cos * (y - cy) + cy]);
+    const x0 = Math.max(0, Math.floor(Math.min(...corners.map(c => c[0]))));
+    const y0 = Math.max(0, Math.floor(Math.min(...corners.map(c => c[1]))));
+    const x1 = Math.min(width, Math.ceil(Math.max(...corners.map(c => c[0]))));
+    const y1 = Math.min(height, Math.ceil(Math.max(...corners.map(c => c[1]))));
+    return { x: x0, y: y0, width: Math.max(0, x1 - x0), height: Math.max(0, y1 - y0) };
+};
+
+const binarizeGlobal = (gray: Uint8ClampedArray, threshold: number): Uint8ClampedArray => {
+    const out = new Uint8ClampedArray(gray.length);
+    for (let i = 0; i < gray.length; i++) out[i] = gray[i] > threshold ? 255 : 0;
+    return out;
+};
+
+/**
+ * Sauvola local thresholding using integral images of the values and their squares
+ */
+const binarizeSauvola = (gray: Uint8ClampedArray, width: number, height: number): Uint8ClampedArray => {
+    const w1 = width + 1;
+    const sum = new Float64Array(w1 * (height + 1));
+    const sumSq = new Float64Array(w1 * (height + 1));
+    for (let y = 0; y < height; y++) {
+        let rowSum = 0;
+        let rowSq = 0;
+        for (let x = 0; x < width; x++) {
+            const v = gray[y * width + x];
+            rowSum += v;
+            rowSq += v * v;
+            sum[(y + 1) * w1 + x + 1] = sum[y * w1 + x + 1] + rowSum;
+            sumSq[(y + 1) * w1 + x + 1] = sumSq[y * w1 + x + 1] + rowSq;
+        }
+    }
+
+    const half = Math.floor(SAUVOLA_WINDOW / 2);
+    const out = new Uint8ClampedArray(gray.length);
+    for (let y = 0; y < height; y++) {
+        const y0 = Math.max(0, y - half);
+        const y1 = Math.min(height, y + half + 1);
+        for (let x = 0; x < width; x++) {
+            const x0 = Math.max(0, x - half);
+            const x1 = Math.min(width, x + half + 1);
+            const n = (x1 - x0) * (y1 - y0);
+            const s = sum[y1 * w1 + x1] - sum[y0 * w1 + x1] - sum[y1 * w1 + x0] + sum[y0 * w1 + x0];
+            const sq = sumSq[y1 * w1 + x1] - sumSq[y0 * w1 + x1] - sumSq[y1 * w1 + x0] + sumSq[y0 * w1 + x0];
+            const mean = s / n;
+            const std = Math.sqrt(Math.max(0, sq / n - mean * mean));
+            const t = mean * (1 + SAUVOLA_K * (std / SAUVOLA_R - 1));
+            out[y * width + x] = gray[y * width + x] > t ? 255 : 0;
+        }
+    }
+    return out;
+};
+
+// Clears isolated dark pixels (at most one dark 8-neighbour); returns how many were removed
+const despeckle = (bin: Uint8ClampedArray, width: number, height: number): number => {
+    const remove: number[] = [];
+    for (let y = 1; y < height - 1; y++) {
+        for (let x = 1; x < width - 1; x++) {
+            const i = y * width + x;
+            if (bin[i] !== 0) continue;
+            let dark = 0;
+            for (let dy = -1; dy <= 1; dy++) {
+                for (let dx = -1; dx <= 1; dx++) {
+                    if ((dx || dy) && bin[i + dy * width + dx] === 0) dark++;
+                }
+            }
+            if (dark <= 1) remove.push(i);
+        }
+    }
+    for (const i of remove) bin[i] = 255;
+    return remove.length;
+};
+
+export interface PreprocessOutput {
+    image: PixelImage;
+    params: PreprocessParams;
+}
+
+export const preprocessPixels = (img: PixelImage): PreprocessOutput => {
+    const started = Date.now();
+    const { width, height } = img;
+    let gray = toGray(img);
+
+    const otsu = otsuThreshold(gray);
+
+    // The "DELETED" stamp and background patterns print in light gray, above the ink but below paper
+    const watermarkCutoff = Math.round(otsu + (255 - otsu) * 0.25);
+    for (let i = 0; i < gray.length; i++) {
+        if (gray[i] >= watermarkCutoff) gray[i] = 255;
+    }
+
+    const skewAngle = estimateSkew(gray, width, height, otsu);
+    if (isDeskewed(skewAngle)) {
+        gray = rotateGray(gray, width, height, skewAngle);
+    }
+
+    const unevenness = backgroundUnevenness(gray, width, height, otsu);
+    const method = unevenness > UNEVEN_BACKGROUND_STDDEV ? 'SAUVOLA' : 'OTSU';
+    const bin = method === 'SAUVOLA' ? binarizeSauvola(gray, width, height) : binarizeGlobal(gray, otsu);
+    const despeckled = despeckle(bin, width, height);
+
+    const data = new Uint8ClampedArray(width * height * 4);
+    for (let p = 0, i = 0; p < bin.length; p++, i += 4) {
+        data[i] = data[i + 1] = data[i + 2] = bin[p];
+        data[i + 3] = 255;
+    }
+
+    return {
+        image: { data, width, height },
+        params: {
+            method,
+            threshold: method === 'OTSU' ? otsu : undefined,
+            sauvolaWindow: method === 'SAUVOLA' ? SAUVOLA_WINDOW : undefined,
+            sauvolaK: method === 'SAUVOLA' ? SAUVOLA_K : undefined,
+            backgroundStdDev: Math.round(unevenness * 10) / 10,
+            watermarkCutoff,
+            skewAngle,
+            despeckledPixels: despeckled,
+            durationMs: Date.now() - started
+        }
+    };
+};
@@ -0,0 +1,102 @@
+/**
+ * Thin promise wrapper over the browser IndexedDB used for local persistence.
+ * Every object store is declared in `upgrade` so the schema lives in one place.
+ */
+
+const DB_NAME = 'aswamithra';
+const DB_VERSION = 6;
+
+export const STORES = {
+  CHECKPOINT_FILES: 'checkpointFiles',
+  CHECKPOINT_PAGES: 'checkpointPages',
+  CACHE_ENTRIES: 'cacheEntries',
+  CACHE_META: 'cacheMeta',
+  CACHE_STATS: 'cacheStats',
+  PHOTOS: 'photos',
+  PHOTO_THUMBNAILS: 'photoThumbnails',
+  BATCH_ITEMS: 'batchItems',
+  BATCH_FILES: 'batchFiles',
+  BATCH_BOOTHS: 'batchBooths',
+  CLOUD_JOBS: 'cloudJobs',
+  CSV_PRESETS: 'csvPresets'
+} as const;
+
+const upgrade = (db: IDBDatabase, oldVersion: number) => {
+  if (oldVersion < 1) {
+    db.createObjectStore(STORES.CHECKPOINT_FILES, { keyPath: 'fileHash' });
+    const pages = db.createObjectStore(STORES.CHECKPOINT_PAGES, { keyPath: ['fileHash', 'pageNumber'] });
+    pages.createIndex('fileHash', 'fileHash');
+  }
+  if (oldVersion < 2) {
+    // Payloads and their size/recency are split so eviction can scan without loading voters
+    db.createObjectStore(STORES.CACHE_ENTRIES, { keyPath: 'key' });
+    const meta = db.createObjectStore(STORES.CACHE_META, { keyPath: 'key' });
+    meta.createIndex('lastUsedAt', 'lastUsedAt');
+    db.createObjectStore(STORES.CACHE_STATS, { keyPath: 'fileHash' });
+  }
+  if (oldVersion < 3) {
+    // Thumbnails are derived and can be dropped at any time, so they live apart from the originals
+    db.createObjectStore(STORES.PHOTOS, { keyPath: 'epic' });
+    db.createObjectStore(STORES.PHOTO_THUMBNAILS, { keyPath: 'epic' });
+  }
+  if (oldVersion < 4) {
+    // Queue entries are listed often; the PDF bytes are only read when their turn comes
+    db.createObjectStore(STORES.BATCH_ITEMS, { keyPath: 'id' });
+    db.createObjectStore(STORES.BATCH_FILES, { keyPath: 'id' });
+    db.createObjectStore(STORES.BATCH_BOOTHS, { keyPath: 'boothNo' });
+  }
+  if (oldVersion < 5) {
+    db.createObjectStore(STORES.CLOUD_JOBS, { keyPath: 'fileHash' });
+  }
+  if (oldVersion < 6) {
+    db.createObjectStore(STORES.CSV_PRESETS, { keyPath: 'id' });
+  }
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const transactionDone = (tx: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+const toHex = (digest: ArrayBuffer) => Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+/**
+ * SHA-256 of a file's bytes as lowercase hex; used to recognise the same roll across sessions
+ */
+export const hashFile = async (file: Blob): Promise<string> => {
+  return toHex(await crypto.subtle.digest('SHA-256', await file.arrayBuffer()));
+};
+
+/**
+ * SHA-256 of a string (e.g. a base64 page image) as lowercase hex
+ */
+export const hashText = async (text: string): Promise<string> => {
+  return toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text)));
+};
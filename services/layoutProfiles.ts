@@ -0,0 +1,235 @@
+import { LayoutProfileId } from '../types';
+
+/**
+ * Layout profiles for the state-specific flavours of the ECI electoral roll.
+ * A profile bundles everything that assumed the Telangana/AP English+Telugu card:
+ * the regional script and its OCR language, card label regexes, page header regexes,
+ * card geometry and the wording of the LLM prompt and schema.
+ * Profiles hold RegExps, so only the id crosses into the extraction workers.
+ */
+
+export interface CardGeometry {
+    headerBand: number; // Digital text: items above this fraction of the page height are header
+    textWindow: { left: number; right: number; below: number; above: number }; // Digital text, PDF units around the EPIC
+    anchorRegion: { left: number; right: number; above: number; below: number }; // OCR anchor path, px around the EPIC word
+    anchorHeaderLimit: number; // OCR anchor path: words above this y (px) are header
+    photoWidth: number; // Share of the card width taken by the photo on its right edge
+}
+
+export interface CardPatterns {
+    NAME: RegExp;
+    RELATIVE: RegExp;
+    HOUSE?: RegExp;
+    AGE_GENDER?: RegExp; // Captures age then gender word
+}
+
+export interface LayoutProfile {
+    id: LayoutProfileId;
+    label: string;
+    language: string; // Regional language printed next to (or instead of) English
+    tesseractLanguage: string; // traineddata name, served from /tessdata
+    script: RegExp; // Global regex over the regional script's Unicode block
+    englishPatterns: Required<CardPatterns> & { EPIC: RegExp };
+    regionalPatterns: CardPatterns; // Fill name_te / relative_name_te, and English fields the card does not print
+    genderWords: Record<string, string>; // Regional gender word -> Male/Female/Other
+    headerPatterns: { ASSEMBLY: RegExp[]; POLLING_STATION: RegExp[] }; // First match wins
+    geometry: CardGeometry;
+    promptNotes: string; // Extra instructions for the LLM, specific to this layout
+    detect: RegExp; // State names on the cover page, in English and the regional script
+}
+
+/**
+ * English card labels as printed by the ECI template. Ported from the Python script;
+ * they run on flattened text with the regional script stripped.
+ */
+const ECI_ENGLISH_PATTERNS: LayoutProfile['englishPatterns'] = {
+    // Looks for Name followed by next field keywords
+    NAME: /Name[:\s\-\.]+(.+?)(?:Father|Husband|Mother|Guardian|House|Age|Gender|Sex|Elector|Photo|$)/i,
+
+    // Looks for Relative Name
+    RELATIVE: /(?:Father|Husband|Mother|Guardian)['’\s]*Name[:\s\-\.]+(.+?)(?:House|Age|Gender|Sex|Elector|Photo|$)/i,
+
+    // House Number (Captures digits, dashes, slashes, letters)
+    HOUSE: /(?:House|No|H\.No|Ho)[\s\-\.:]+([0-9\-\/A-Za-z\s]+?)(?:Age|Gender|Sex|$)/i,
+
+    // Age and Gender combo
+    AGE_GENDER: /(?:Age|Aqe)[:\s-]*(\d+)[\s\t]*(?:Gender|Sex)[:\s-]*([A-Za-z]+)/i,
+
+    // EPIC / Reg No (digit part admits O/I/S/B, which epicService corrects by position)
+    EPIC: /([A-Z]{3}[OISB0-9]{7}|[A-Z]{3,}\d{5,}[A-Z0-9]*)/
+};
+
+const ECI_HEADER_PATTERNS = {
+    ASSEMBLY: /Assembly.*?Constituency[:\s-]*([A-Za-z\s]+)/i,
+    POLLING_STATION: /Polling.*?Station[:\s-]*([0-9A-Za-z\s\-\.]+)/i
+};
+
+// Offsets tuned on Telangana rolls at the default render scale; the other states print the same card template
+const ECI_GEOMETRY: CardGeometry = {
+    headerBand: 0.9,
+    textWindow: { left: 200, right: 200, below: 120, above: 60 },
+    anchorRegion: { left: 250, right: 100, above: 20, below: 140 },
+    anchorHeaderLimit: 150,
+    photoWidth: 0.35
+};
+
+interface RegionalLabels {
+    chars: string; // Character class body of the script block, e.g. "\u0C00-\u0C7F"
+    name: string; // "Name" label
+    relatives: string[]; // Father / Husband / Mother / Others, as they precede the name label
+    connector?: string; // Optional possessive between relative and name label
+    stops: string[]; // Labels of the fields after the names (house, age, gender)
+}
+
+/**
+ * Builds the regional NAME / RELATIVE patterns for one script.
+ * Captures stop at the next known label or at the first character outside the script.
+ */
+const regionalNamePatterns = ({ chars, name, relatives, connector, stops }: RegionalLabels): CardPatterns => {
+    const rel = `(?:${relatives.join('|')})`;
+    const conn = connector ? `(?:${connector}\\s*)?` : '';
+    const capture = `([${chars}][${chars}\\s]*?)`;
+    const end = (labels: string) => `(?=\\s*(?:${labels})|\\s*[^${chars}\\s]|\\s*$)`;
+    return {
+        // Name label that is not part of a relative label
+        NAME: new RegExp(`(?<!${rel}\\s*${conn})${name}\\s*[:\\-]?\\s*${capture}${end([...relatives, ...stops].join('|'))}`),
+        RELATIVE: new RegExp(`${rel}\\s*${conn}${name}\\s*[:\\-]?\\s*${capture}${end(stops.join('|'))}`)
+    };
+};
+
+const TELUGU = '\\u0C00-\\u0C7F';
+const KANNADA = '\\u0C80-\\u0CFF';
+const TAMIL = '\\u0B80-\\u0BFF';
+const DEVANAGARI = '\\u0900-\\u097F';
+
+export const LAYOUT_PROFILES: LayoutProfile[] = [
+    {
+        id: 'TELANGANA_AP',
+        label: 'Telangana / Andhra Pradesh (English + Telugu)',
+        language: 'Telugu',
+        tesseractLanguage: 'tel',
+        script: new RegExp(`[${TELUGU}]+`, 'g'),
+        englishPatterns: ECI_ENGLISH_PATTERNS,
+        regionalPatterns: regionalNamePatterns({
+            chars: TELUGU,
+            name: 'పేరు',
+            relatives: ['తండ్రి', 'భర్త', 'తల్లి', 'ఇతరుల'],
+            connector: 'యొక్క',
+            stops: ['ఇంటి', 'వయస్సు', 'లింగం']
+        }),
+        genderWords: { 'పురుషుడు': 'Male', 'స్త్రీ': 'Female', 'ఇతరులు': 'Other' },
+        headerPatterns: { ASSEMBLY: [ECI_HEADER_PATTERNS.ASSEMBLY], POLLING_STATION: [ECI_HEADER_PATTERNS.POLLING_STATION] },
+        geometry: ECI_GEOMETRY,
+        promptNotes: '',
+        detect: /Telangana|Andhra\s*Pradesh|తెలంగాణ|ఆంధ్ర\s*ప్రదేశ్/i
+    },
+    {
+        id: 'KARNATAKA',
+        label: 'Karnataka (Kannada)',
+        language: 'Kannada',
+        tesseractLanguage: 'kan',
+        script: new RegExp(`[${KANNADA}]+`, 'g'),
+        englishPatterns: ECI_ENGLISH_PATTERNS,
+        regionalPatterns: {
+            ...regionalNamePatterns({
+                chars: KANNADA,
+                name: 'ಹೆಸರು',
+                relatives: ['ತಂದೆಯ', 'ಗಂಡನ', 'ತಾಯಿಯ', 'ಇತರೆ'],
+                stops: ['ಮನೆ', 'ವಯಸ್ಸು', 'ಲಿಂಗ']
+            }),
+            HOUSE: /ಮನೆ\s*(?:ಸಂಖ್ಯೆ)?\s*[:\-]?\s*([0-9\-\/A-Za-z]+)/,
+            AGE_GENDER: /ವಯಸ್ಸು\s*[:\-]?\s*(\d+)\s*ಲಿಂಗ\s*[:\-]?\s*([\u0C80-\u0CFF]+)/
+        },
+        genderWords: { 'ಪುರುಷ': 'Male', 'ಸ್ತ್ರೀ': 'Female', 'ಮಹಿಳೆ': 'Female', 'ಇತರೆ': 'Other' },
+        headerPatterns: {
+            ASSEMBLY: [ECI_HEADER_PATTERNS.ASSEMBLY, /ವಿಧಾನಸಭಾ\s*ಕ್ಷೇತ್ರ[^:]*[:\-]\s*([^\n]+?)(?=\s+ಭಾಗ|$)/],
+            POLLING_STATION: [ECI_HEADER_PATTERNS.POLLING_STATION, /ಭಾಗ\s*(?:ಸಂಖ್ಯೆ)?\s*[:\-]?\s*(\d+)/]
+        },
+        geometry: ECI_GEOMETRY,
+        promptNotes: 'Cards may be printed only in Kannada; transliterate names into English for the English fields.',
+        detect: /Karnataka|ಕರ್ನಾಟಕ/i
+    },
+    {
+        id: 'TAMIL_NADU',
+        label: 'Tamil Nadu (Tamil)',
+        language: 'Tamil',
+        tesseractLanguage: 'tam',
+        script: new RegExp(`[${TAMIL}]+`, 'g'),
+        englishPatterns: ECI_ENGLISH_PATTERNS,
+        regionalPatterns: {
+            ...regionalNamePatterns({
+                chars: TAMIL,
+                name: 'பெயர்',
+                relatives: ['தந்தையின்', 'தந்தை', 'கணவர்', 'கணவரின்', 'தாயின்', 'தாய்', 'மற்றவர்'],
+                stops: ['வீட்டு', 'வயது', 'பாலினம்']
+            }),
+            HOUSE: /வீட்டு\s*(?:எண்)?\s*[:\-]?\s*([0-9\-\/A-Za-z]+)/,
+            AGE_GENDER: /வயது\s*[:\-]?\s*(\d+)\s*பாலினம்\s*[:\-]?\s*([\u0B80-\u0BFF]+)/
+        },
+        genderWords: { 'ஆண்': 'Male', 'பெண்': 'Female', 'மூன்றாம்': 'Other' },
+        headerPatterns: {
+            ASSEMBLY: [ECI_HEADER_PATTERNS.ASSEMBLY, /சட்டமன்றத்\s*தொகுதி[^:]*[:\-]\s*([^\n]+?)(?=\s+பாகம்|$)/],
+            POLLING_STATION: [ECI_HEADER_PATTERNS.POLLING_STATION, /பாகம்\s*(?:எண்)?\s*[:\-]?\s*(\d+)/]
+        },
+        geometry: ECI_GEOMETRY,
+        promptNotes: 'Cards may be printed only in Tamil; transliterate names into English for the English fields.',
+        detect: /Tamil\s*Nadu|Puducherry|தமிழ்நாடு|புதுச்சேரி/i
+    },
+    {
+        id: 'HINDI',
+        label: 'Hindi belt (Hindi)',
+        language: 'Hindi',
+        tesseractLanguage: 'hin',
+        script: new RegExp(`[${DEVANAGARI}]+`, 'g'),
+        englishPatterns: ECI_ENGLISH_PATTERNS,
+        regionalPatterns: {
+            ...regionalNamePatterns({
+                chars: DEVANAGARI,
+                name: 'नाम',
+                relatives: ['पिता', 'पति', 'माता', 'अन्य'],
+                connector: 'का',
+                stops: ['मकान', 'गृह', 'आयु', 'उम्र', 'लिंग']
+            }),
+            HOUSE: /(?:मकान|गृह)\s*(?:संख्या|सं\.?)?\s*[:\-]?\s*([0-9\-\/A-Za-z]+)/,
+            AGE_GENDER: /(?:आयु|उम्र)\s*[:\-]?\s*(\d+)\s*लिंग\s*[:\-]?\s*([\u0900-\u097F]+)/
+        },
+        genderWords: { 'पुरुष': 'Male', 'महिला': 'Female', 'स्त्री': 'Female', 'अन्य': 'Other' },
+        headerPatterns: {
+            ASSEMBLY: [ECI_HEADER_PATTERNS.ASSEMBLY, /विधान\s*सभा\s*(?:निर्वाचन)?\s*क्षेत्र[^:]*[:\-]\s*([^\n]+?)(?=\s+भाग|$)/],
+            POLLING_STATION: [ECI_HEADER_PATTERNS.POLLING_STATION, /भाग\s*(?:संख्या|सं\.?)?\s*[:\-]?\s*(\d+)/]
+        },
+        geometry: ECI_GEOMETRY,
+        promptNotes: 'Cards are usually printed only in Hindi; transliterate names into English for the English fields and map पुरुष/महिला to Male/Female.',
+        detect: /Uttar\s*Pradesh|Madhya\s*Pradesh|Bihar|Rajasthan|Haryana|Jharkhand|Chhattisgarh|Uttarakhand|Himachal|Delhi|उत्तर\s*प्रदेश|मध्य\s*प्रदेश|बिहार|राजस्थान|हरियाणा|झारखण्ड|झारखंड|छत्तीसगढ़|उत्तराखण्ड|उत्तराखंड|हिमाचल|दिल्ली/i
+    }
+];
+
+export const DEFAULT_LAYOUT_PROFILE_ID: LayoutProfileId = 'TELANGANA_AP';
+
+export const getLayoutProfile = (id: LayoutProfileId = DEFAULT_LAYOUT_PROFILE_ID): LayoutProfile =>
+    LAYOUT_PROFILES.find(p => p.id === id) || LAYOUT_PROFILES[0];
+
+// Drops the profile's regional script so the English patterns only see English, digits and punctuation
+export const stripRegionalScript = (profile: LayoutProfile, text: string): string =>
+    text.replace(profile.script, ' ').replace(/\s+/g, ' ').trim();
+
+export const normalizeGender = (profile: LayoutProfile, word: string): string => profile.genderWords[word] || word;
+
+// Regional script below this many characters is treated as noise (stray OCR glyphs)
+const MIN_SCRIPT_CHARS = 20;
+
+/**
+ * Picks a profile from cover page text: a printed state name wins, otherwise the
+ * regional script with the most characters. Returns null when neither is conclusive.
+ */
+export const detectLayoutProfile = (coverText: string): LayoutProfileId | null => {
+    const byName = LAYOUT_PROFILES.find(p => p.detect.test(coverText));
+    if (byName) return byName.id;
+
+    let best: { id: LayoutProfileId; count: number } | null = null;
+    for (const profile of LAYOUT_PROFILES) {
+        const count = (coverText.match(profile.script) || []).join('').length;
+        if (count >= MIN_SCRIPT_CHARS && (!best || count > best.count)) best = { id: profile.id, count };
+    }
+    return best ? best.id : null;
+};
@@ -0,0 +1,153 @@
+import { Schema, Type } from "@google/genai";
+import { VoterRawData } from "../types";
+import { LayoutProfile } from "./layoutProfiles";
+import { CONFIDENCE_FIELDS } from "./confidenceService";
+
+/**
+ * The contract every LLM provider is held to: one prompt and schema per layout profile, one JSON recovery path.
+ * Providers only move bytes; what is asked and how the answer is read lives here.
+ */
+
+export type LlmProviderId = 'GEMINI' | 'OPENAI_COMPATIBLE' | 'FIXTURE';
+
+export interface LlmRequest {
+  model: string;
+  imageBase64: string; // JPEG, no data URL prefix
+  prompt: string;
+  schema: Schema;
+}
+
+export interface LlmResponse {
+  text: string;
+  promptTokens: number;
+  outputTokens: number;
+}
+
+export interface LlmProvider {
+  id: LlmProviderId;
+  label: string;
+  models: string[]; // Preference order; the scheduler picks among these
+  isConfigured: () => boolean;
+  // Must throw an error with `status: 429` on rate limiting so the scheduler can back off
+  generate: (request: LlmRequest) => Promise<LlmResponse>;
+}
+
+/**
+ * Response schema for one layout profile; only the regional-language field descriptions differ
+ */
+export const buildVoterSchema = (profile: LayoutProfile): Schema => ({
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      sl_no: { type: Type.STRING, description: "Serial number of the voter" },
+      epic_no: { type: Type.STRING, description: "EPIC (Voter ID) number, e.g., ABC1234567" },
+      name_en: { type: Type.STRING, description: "Name of the voter in English" },
+      name_te: { type: Type.STRING, description: `Name of the voter in ${profile.language}` },
+      relative_name: { type: Type.STRING, description: "Name of the Relative (Father, Husband, Mother, etc.)" },
+      house_no: { type: Type.STRING, description: "House number" },
+      age: { type: Type.STRING, description: "Age of the voter" },
+      gender: { type: Type.STRING, description: "Gender (Male/Female/Other)" },
+      assembly_name: { type: Type.STRING, description: "Assembly Constituency Name (found in page header)" },
+      parliament_name: { type: Type.STRING, description: "Parliamentary Constituency Name (found in page header)" },
+      polling_station_no: { type: Type.STRING, description: "Polling Station Number/Name (found in page header)" },
+      photo_box_2d: {
+        type: Type.ARRAY,
+        items: { type: Type.NUMBER },
+        description: "The bounding box of the voter's photo formatted as [ymin, xmin, ymax, xmax] normalized to 0-1000."
+      },
+      card_box_2d: {
+        type: Type.ARRAY,
+        items: { type: Type.NUMBER },
+        description: "The bounding box of the whole voter card formatted as [ymin, xmin, ymax, xmax] normalized to 0-1000."
+      },
+      confidence: {
+        type: Type.OBJECT,
+        description: "Your certainty for each field, from 0 (guessed or illegible) to 1 (clearly printed and read)",
+        properties: Object.fromEntries(
+          CONFIDENCE_FIELDS.map(field => [field, { type: Type.NUMBER }])
+        )
+      }
+    },
+    required: ["name_en", "epic_no"]
+  }
+});
+
+// Part of the result cache key (with the profile id); bump whenever the prompt or schema wording changes
+export const PROMPT_VERSION = 'v4';
+
+// Prompt designed to handle the "chunk" of voters visible on one page
+export const buildExtractionPrompt = (includePhotos: boolean, profile: LayoutProfile): string => `Analyze this Electoral Roll page image.
+                Identify the grid of voter ID cards. Each card typically contains:
+                - Name (English & ${profile.language})
+                - Father's/Husband's Name
+                - House Number
+                - Age & Gender
+                - EPIC Number (Top of the card)
+                - Serial Number (Section/Part Number)
+
+                Extract ALL voter records visible in the table/grid.
+                Ignore general instructions or footers unless they contain Assembly/Polling station info.
+
+                For each voter row, extract:
+                - Name (English & ${profile.language})
+                - Relative's Name (Father/Husband)
+                - House No, Age, Gender, Serial No, and EPIC No.
+                - Page Header Info (Assembly, Parliament, Polling Station) - repeat this for every voter.
+                - The bounding box of the whole card [ymin, xmin, ymax, xmax] (0-1000) as card_box_2d.
+                - How certain you are of each field (0-1) as confidence. Be honest: faint, smudged or guessed text scores low.
+                ${profile.promptNotes}
+
+                ${includePhotos ? 'Identify photo bounding boxes [ymin, xmin, ymax, xmax] (0-1000).' : 'Ignore photo bounding boxes.'}
+
+                Return a JSON array of objects following the schema.`;
+
+/**
+ * A voter schema as standard JSON Schema, for providers that do not take Gemini's Schema type
+ */
+export const toJsonSchema = (schema: Schema): Record<string, any> => {
+  const out: Record<string, any> = {};
+  if (schema.type) out.type = String(schema.type).toLowerCase();
+  if (schema.description) out.description = schema.description;
+  if (schema.items) out.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    out.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+    );
+  }
+  if (schema.required) out.required = schema.required;
+  return out;
+};
+
+/**
+ * Robust JSON extraction shared by all providers.
+ * Strips markdown/conversational text and accepts an array, `{ voters: [...] }` or a single object.
+ * Returns null when nothing parseable is left.
+ */
+export const parseVoterJson = (text: string): VoterRawData[] | null => {
+  let jsonString = text || "[]";
+
+  // Find outer brackets to strip markdown/conversational text
+  const firstBracket = jsonString.indexOf('[');
+  const lastBracket = jsonString.lastIndexOf(']');
+
+  if (firstBracket !== -1 && lastBracket !== -1 && lastBracket > firstBracket) {
+      jsonString = jsonString.substring(firstBracket, lastBracket + 1);
+  } else {
+      // Fallback if structure is messy
+      jsonString = jsonString.replace(/^```json\s*/, "").replace(/^```\s*/, "").replace(/\s*```$/, "");
+  }
+
+  try {
+      const parsed = JSON.parse(jsonString);
+      if (Array.isArray(parsed)) return parsed;
+      if (typeof parsed === 'object' && parsed !== null) {
+         if (parsed.voters && Array.isArray(parsed.voters)) return parsed.voters;
+         // Single object return
+         return [parsed];
+      }
+      return [];
+  } catch (e) {
+      return null;
+  }
+};
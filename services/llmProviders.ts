@@ -0,0 +1,31 @@
+import { LlmProvider, LlmProviderId } from "./llmContract";
+import { geminiProvider } from "./geminiProvider";
+import { openAiCompatibleProvider } from "./openAiCompatibleProvider";
+import { fixtureProvider } from "./fixtureProvider";
+
+/**
+ * Provider registry. LLM_PROVIDER selects one: gemini (default), openai or fixture.
+ */
+
+const PROVIDERS: Record<LlmProviderId, LlmProvider> = {
+  GEMINI: geminiProvider,
+  OPENAI_COMPATIBLE: openAiCompatibleProvider,
+  FIXTURE: fixtureProvider
+};
+
+const PROVIDER_NAMES: Record<string, LlmProviderId> = {
+  gemini: 'GEMINI',
+  openai: 'OPENAI_COMPATIBLE',
+  fixture: 'FIXTURE'
+};
+
+const resolveProvider = (): LlmProvider => {
+  const name = (process.env.LLM_PROVIDER || 'gemini').trim().toLowerCase();
+  const id = PROVIDER_NAMES[name];
+  if (!id) console.warn(`Unknown LLM_PROVIDER "${name}", using Gemini`);
+  return PROVIDERS[id || 'GEMINI'];
+};
+
+const activeProvider = resolveProvider();
+
+export const getActiveProvider = (): LlmProvider => activeProvider;
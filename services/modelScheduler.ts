@@ -0,0 +1,242 @@
+/**
+ * Central scheduler for Gemini calls and page concurrency. Main thread only:
+ * extraction workers reach it through schedulerClient, so every page shares one view of model quota.
+ *
+ * - Each model has a token bucket; a call waits for a token instead of firing and eating a 429.
+ * - 429s and other failed calls (timeouts, 5xx, unusable responses) put a model into an escalating cool-down
+ *   and steer calls to healthier models.
+ * - Page concurrency grows by one after a full round of pages without a failed call and halves on one (AIMD).
+ */
+
+interface ModelLimit {
+    requestsPerMinute: number;
+    burst: number;
+}
+
+// Free-tier request quotas; keys with billing enabled can raise these
+const MODEL_LIMITS: Record<string, ModelLimit> = {
+    'gemini-3-pro-preview': { requestsPerMinute: 5, burst: 2 },
+    'gemini-2.5-flash': { requestsPerMinute: 10, burst: 4 },
+    'gemini-2.0-flash': { requestsPerMinute: 15, burst: 5 }
+};
+const DEFAULT_LIMIT: ModelLimit = { requestsPerMinute: 10, burst: 3 };
+
+const HEALTH_WINDOW_MS = 5 * 60 * 1000; // Failures older than this no longer count against a model
+const BASE_COOLDOWN_MS = 5000;
+const MAX_COOLDOWN_MS = 60000;
+const LATENCY_SMOOTHING = 0.3;
+const SLOW_LATENCY_MS = 60000; // A model this slow on average is used only when the faster ones are limited
+
+export interface ModelOutcome {
+    ok: boolean;
+    rateLimited?: boolean;
+    latencyMs: number;
+}
+
+export interface ModelHealth {
+    model: string;
+    tokens: number;
+    recentRateLimits: number;
+    recentErrors: number; // Failed calls other than 429s
+    avgLatencyMs: number | null;
+    coolingDownForMs: number;
+    calls: number;
+}
+
+export interface SchedulerSnapshot {
+    pageConcurrency: number;
+    maxConcurrency: number;
+    models: ModelHealth[];
+}
+
+interface ModelState {
+    limit: ModelLimit;
+    tokens: number;
+    refilledAt: number;
+    rateLimitedAt: number[];
+    failedAt: number[];
+    latencyMs: number | null;
+    coolingDownUntil: number;
+    calls: number;
+}
+
+const models = new Map<string, ModelState>();
+let maxConcurrency = 2;
+let pageConcurrency = 2;
+let pagesSinceChange = 0;
+const listeners = new Set<(snapshot: SchedulerSnapshot) => void>();
+
+const getState = (model: string): ModelState => {
+    let state = models.get(model);
+    if (!state) {
+        const limit = MODEL_LIMITS[model] || DEFAULT_LIMIT;
+        state = { limit, tokens: limit.burst, refilledAt: Date.now(), rateLimitedAt: [], failedAt: [], latencyMs: null, coolingDownUntil: 0, calls: 0 };
+        models.set(model, state);
+    }
+    return state;
+};
+
+const refill = (state: ModelState, now: number) => {
+    const perMs = state.limit.requestsPerMinute / 60000;
+    state.tokens = Math.min(state.limit.burst, state.tokens + (now - state.refilledAt) * perMs);
+    state.refilledAt = now;
+    state.rateLimitedAt = state.rateLimitedAt.filter(t => now - t < HEALTH_WINDOW_MS);
+    state.failedAt = state.failedAt.filter(t => now - t < HEALTH_WINDOW_MS);
+};
+
+const recentFailures = (state: ModelState) => state.rateLimitedAt.length + state.failedAt.length;
+
+// How long until this model can take a call (0 = now)
+const waitFor = (state: ModelState, now: number): number => {
+    const cooldown = Math.max(0, state.coolingDownUntil - now);
+    const perMs = state.limit.requestsPerMinute / 60000;
+    const tokenWait = state.tokens >= 1 ? 0 : (1 - state.tokens) / perMs;
+    return Math.max(cooldown, tokenWait);
+};
+
+const isSlow = (state: ModelState) => state.latencyMs !== null && state.latencyMs > SLOW_LATENCY_MS;
+
+export const getSchedulerSnapshot = (): SchedulerSnapshot => {
+    const now = Date.now();
+    return {
+        pageConcurrency,
+        maxConcurrency,
+        models: Array.from(models.entries()).map(([model, state]) => {
+            refill(state, now);
+            return {
+                model,
+                tokens: Math.floor(state.tokens),
+                recentRateLimits: state.rateLimitedAt.length,
+                recentErrors: state.failedAt.length,
+                avgLatencyMs: state.latencyMs === null ? null : Math.round(state.latencyMs),
+                coolingDownForMs: Math.max(0, state.coolingDownUntil - now),
+                calls: state.calls
+            };
+        })
+    };
+};
+
+const notify = () => {
+    if (listeners.size === 0) return;
+    const snapshot = getSchedulerSnapshot();
+    listeners.forEach(listener => listener(snapshot));
+};
+
+export const subscribeScheduler = (listener: (snapshot: SchedulerSnapshot) => void): (() => void) => {
+    listeners.add(listener);
+    listener(getSchedulerSnapshot());
+    return () => { listeners.delete(listener); };
+};
+
+/**
+ * Waits for a token and returns the model to call.
+ * Candidates are in preference order; fewer recent failures and normal latency beat preference, and models in `exclude`
+ * (already failed for this page) are skipped unless nothing else is left.
+ */
+export const acquireModel = async (candidates: string[], exclude: string[] = []): Promise<string> => {
+    const fresh = candidates.filter(m => !exclude.includes(m));
+    const pool = fresh.length > 0 ? fresh : candidates;
+
+    while (true) {
+        const now = Date.now();
+        const ranked = pool
+            .map((model, priority) => {
+                const state = getState(model);
+                refill(state, now);
+                return { model, priority, state, wait: waitFor(state, now) };
+            })
+            .sort((a, b) =>
+                recentFailures(a.state) - recentFailures(b.state)
+                || Number(isSlow(a.state)) - Number(isSlow(b.state))
+                || a.priority - b.priority);
+
+        const ready = ranked.find(r => r.wait === 0);
+        if (ready) {
+            ready.state.tokens -= 1;
+            ready.state.calls++;
+            notify();
+            return ready.model;
+        }
+
+        const soonest = Math.min(...ranked.map(r => r.wait));
+        await new Promise(resolve => setTimeout(resolve, Math.min(soonest + 50, MAX_COOLDOWN_MS)));
+    }
+};
+
+export const reportModelResult = (model: string, outcome: ModelOutcome) => {
+    const state = getState(model);
+    const now = Date.now();
+    refill(state, now);
+
+    // A 429 comes back at once, so only other outcomes say how long the model takes
+    if (!outcome.rateLimited) {
+        state.latencyMs = state.latencyMs === null
+            ? outcome.latencyMs
+            : state.latencyMs + LATENCY_SMOOTHING * (outcome.latencyMs - state.latencyMs);
+    }
+    if (!outcome.ok) {
+        if (outcome.rateLimited) {
+            state.rateLimitedAt.push(now);
+            state.tokens = 0;
+        } else {
+            state.failedAt.push(now);
+        }
+        const cooldown = Math.min(MAX_COOLDOWN_MS, BASE_COOLDOWN_MS * 2 ** (recentFailures(state) - 1));
+        state.coolingDownUntil = Math.max(state.coolingDownUntil, now + cooldown);
+        // Multiplicative decrease: the whole run backs off, not just this page
+        pageConcurrency = Math.max(1, Math.floor(pageConcurrency / 2));
+        pagesSinceChange = 0;
+    }
+    notify();
+};
+
+/**
+ * Additive increase: one more parallel page after a full round completes without a failed call
+ */
+const notePageCompleted = () => {
+    pagesSinceChange++;
+    if (pagesSinceChange >= pageConcurrency && pageConcurrency < maxConcurrency) {
+        pageConcurrency++;
+        pagesSinceChange = 0;
+    }
+    notify();
+};
+
+/**
+ * Starts a run with the user's ceiling. Model health carries over between runs; concurrency restarts low.
+ */
+export const startSchedulerRun = (ceiling: number) => {
+    maxConcurrency = Math.max(1, ceiling);
+    pageConcurrency = Math.min(maxConcurrency, 2);
+    pagesSinceChange = 0;
+    notify();
+};
+
+/**
+ * Runs `task` over the pages, keeping at most the current adaptive concurrency in flight
+ */
+export const runPagesAdaptively = (pages: number[], task: (pageNumber: number) => Promise<void>): Promise<void> => {
+    const queue = [...pages];
+    let active = 0;
+
+    return new Promise(resolve => {
+        const pump = () => {
+            if (queue.length === 0 && active === 0) {
+                resolve();
+                return;
+            }
+            while (queue.length > 0 && active < pageConcurrency) {
+                const pageNumber = queue.shift()!;
+                active++;
+                task(pageNumber)
+                    .catch(err => console.error(`Page ${pageNumber} task failed`, err))
+                    .finally(() => {
+                        active--;
+                        notePageCompleted();
+                        pump();
+                    });
+            }
+        };
+        pump();
+    });
+};
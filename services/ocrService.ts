@@ -1,27 +1,108 @@
-import { Voter } from '../types';
-
-// Declare Tesseract on window
+import { Voter, PreprocessParams, PageViewport } from '../types';
+import { applyEpicNormalization } from './epicService';
+import { detectCardGrid, toNormalizedBox, CardCell, PixelImage, Box } from './cardSegmentation';
+import { toSourceBox } from './imagePreprocessing';
+import { preprocessInWorker } from './preprocessClient';
+import { createCanvas, canvasToDataUrl, decodeBase64Image, releaseCanvas } from './canvasUtils';
+import { hashPageImage, getCachedResult, storeCachedResult } from './extractionCache';
+import { LayoutProfile, getLayoutProfile, stripRegionalScript, normalizeGender } from './layoutProfiles';
+import { scoreVoterFields, ocrSourceConfidence, OcrWord } from './confidenceService';
+
+// Declare Tesseract global (CDN script on the page, tesseract.js import in the extraction workers)
 declare const Tesseract: any;
 
-/**
- * Regex Patterns - Ported from Python Script
- * These patterns are designed to work on flattened text blobs.
- */
-const PATTERNS = {
-    // Looks for Name followed by next field keywords
-    NAME: /Name[:\s\-\.]+(.+?)(?:Father|Husband|Mother|Guardian|House|Age|Gender|Sex|Elector|Photo|$)/i,
-    
-    // Looks for Relative Name
-    RELATIVE: /(?:Father|Husband|Mother|Guardian)['’\s]*Name[:\s\-\.]+(.+?)(?:House|Age|Gender|Sex|Elector|Photo|$)/i,
-    
-    // House Number (Captures digits, dashes, slashes, letters)
-    HOUSE: /(?:House|No|H\.No|Ho)[\s\-\.:]+([0-9\-\/A-Za-z\s]+?)(?:Age|Gender|Sex|$)/i,
-    
-    // Age and Gender combo
-    AGE_GENDER: /(?:Age|Aqe)[:\s-]*(\d+)[\s\t]*(?:Gender|Sex)[:\s-]*([A-Za-z]+)/i,
-    
-    // EPIC / Reg No
-    EPIC: /([A-Z]{3}[O0-9]{7}|[A-Z]{3,}\d{5,}[A-Z0-9]*)/
+// Part of the result cache key; bump whenever preprocessing, segmentation or the regexes change
+const OCR_PIPELINE_VERSION = 'v5';
+const TESSERACT_OPTIONS = {
+    // Absolute, since Tesseract's own worker runs from a blob: URL that cannot resolve relative paths
+    langPath: `${self.location.origin}/tessdata`,
+    gzip: true,
+    logger: (m: any) => {}
+};
+
+// Bilingual recognition with traineddata served locally (see the local-tessdata plugin in vite.config.ts)
+const ocrLanguages = (profile: LayoutProfile) => `eng+${profile.tesseractLanguage}`;
+
+interface PageHeader {
+    assembly: string;
+    pollingStation: string;
+}
+
+const firstCapture = (text: string, patterns: RegExp[]): string => {
+    for (const pattern of patterns) {
+        const match = text.match(pattern);
+        if (match) return match[1].trim();
+    }
+    return "";
+};
+
+const parseHeaderText = (profile: LayoutProfile, text: string): PageHeader => ({
+    assembly: firstCapture(text, profile.headerPatterns.ASSEMBLY),
+    pollingStation: firstCapture(text, profile.headerPatterns.POLLING_STATION)
+});
+
+// Runs the profile's label regexes over the flattened (bilingual) text of one card
+const buildVoterFromCardText = (
+    profile: LayoutProfile,
+    fullCardText: string,
+    epicNo: string,
+    header: PageHeader,
+    pageNumber: number,
+    photoBase64: string | undefined,
+    cardBox: number[] | undefined,
+    ocrWords?: OcrWord[] // Tesseract words of the card; absent for the (exact) text layer
+): Voter => {
+    const english = profile.englishPatterns;
+    const regional = profile.regionalPatterns;
+    // English patterns run with the regional script stripped so bilingual cards don't leak script into English fields
+    const englishText = stripRegionalScript(profile, fullCardText);
+    const nameMatch = englishText.match(english.NAME);
+    const relativeMatch = englishText.match(english.RELATIVE);
+    const slNoMatch = englishText.match(/^(\d+)/); // Usually first number in block
+    const nameRegionalMatch = fullCardText.match(regional.NAME);
+    const relativeRegionalMatch = fullCardText.match(regional.RELATIVE);
+    // Cards printed only in the regional language have no English house/age/gender labels
+    const houseMatch = englishText.match(english.HOUSE) || (regional.HOUSE && fullCardText.match(regional.HOUSE));
+    const ageGenderMatch = englishText.match(english.AGE_GENDER) || (regional.AGE_GENDER && fullCardText.match(regional.AGE_GENDER));
+
+    const voter: Voter = {
+        sl_no: slNoMatch ? slNoMatch[1] : "",
+        epic_no: epicNo,
+        name_en: nameMatch ? nameMatch[1].trim() : "Unknown",
+        name_te: nameRegionalMatch ? nameRegionalMatch[1].trim() : "",
+        relative_name: relativeMatch ? relativeMatch[1].trim() : "",
+        relative_name_te: relativeRegionalMatch ? relativeRegionalMatch[1].trim() : "",
+        house_no: houseMatch ? houseMatch[1].trim() : "",
+        age: ageGenderMatch ? ageGenderMatch[1] : "",
+        gender: ageGenderMatch ? normalizeGender(profile, ageGenderMatch[2]) : "",
+        assembly_name: header.assembly,
+        parliament_name: "",
+        polling_station_no: header.pollingStation,
+        photoBase64: photoBase64,
+        originalPage: pageNumber,
+        cardBox,
+        isVoted: false,
+        votedParty: null
+    };
+    return { ...voter, confidence: scoreVoterFields(voter, ocrWords ? ocrSourceConfidence(voter, ocrWords) : {}) };
+};
+
+const toOcrWords = (words: any[] | undefined): OcrWord[] =>
+    (words || []).map((w: any) => ({ text: w.text, confidence: w.confidence }));
+
+// Extent of a card's text items on the page, padded a little towards the card border
+const textCardBox = (cardItems: { x: number; y: number; w: number; h: number }[], viewport: PageViewport): number[] | undefined => {
+    if (cardItems.length === 0) return undefined;
+    const padding = 4; // PDF units
+    const corners = cardItems.flatMap(i => [
+        viewport.convertToViewportPoint(i.x - padding, i.y - padding),
+        viewport.convertToViewportPoint(i.x + i.w + padding, i.y + i.h + padding)
+    ]);
+    const xs = corners.map(c => c[0]);
+    const ys = corners.map(c => c[1]);
+    const x = Math.min(...xs);
+    const y = Math.min(...ys);
+    return toNormalizedBox({ x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y }, viewport.width, viewport.height);
 };
 
 /**
@@ -30,8 +111,13 @@ const PATTERNS = {
  */
 export const extractVotersFromDigitalText = async (
     textItems: any[], 
-    pageNum: number
+    pageNum: number,
+    profile: LayoutProfile = getLayoutProfile(),
+    viewport?: PageViewport // Scale-1 page viewport; without it voters get no cardBox
 ): Promise<Voter[]> => {
+    const { geometry } = profile;
+    const EPIC = profile.englishPatterns.EPIC;
+
     // 1. Group items by Y coordinate (Rows)
     const items = textItems.map(item => ({
         text: decodeURIComponent(item.str),
@@ -45,28 +131,21 @@ export const extractVotersFromDigitalText = async (
     
     // Find Header Info
     const pageHeight = Math.max(...items.map(i => i.y));
-    const headerItems = items.filter(i => i.y > pageHeight * 0.9);
+    const headerItems = items.filter(i => i.y > pageHeight * geometry.headerBand);
     const headerText = headerItems.map(i => i.text).join(' ');
 
-    let assembly = "";
-    let pollingStation = "";
-
-    const asmMatch = headerText.match(/Assembly.*?Constituency[:\s-]*([A-Za-z\s]+)/i);
-    if (asmMatch) assembly = asmMatch[1].trim();
-    
-    const psMatch = headerText.match(/Polling.*?Station[:\s-]*([0-9A-Za-z\s\-\.]+)/i);
-    if (psMatch) pollingStation = psMatch[1].trim();
+    const header = parseHeaderText(profile, headerText);
 
     // Find EPICs to act as anchors
-    const epicItems = items.filter(i => PATTERNS.EPIC.test(i.text));
+    const epicItems = items.filter(i => EPIC.test(i.text));
 
     for (const epicItem of epicItems) {
-        // Search window: X: -200 to +200, Y: -100 to +80
+        // Search window around the EPIC (the card extends further below it than above)
         const region = {
-            xMin: epicItem.x - 200,
-            xMax: epicItem.x + 200,
-            yMin: epicItem.y - 120, 
-            yMax: epicItem.y + 60
+            xMin: epicItem.x - geometry.textWindow.left,
+            xMax: epicItem.x + geometry.textWindow.right,
+            yMin: epicItem.y - geometry.textWindow.below, 
+            yMax: epicItem.y + geometry.textWindow.above
         };
 
         const cardItems = items.filter(i => 
@@ -83,132 +162,125 @@ export const extractVotersFromDigitalText = async (
         // Flatten text for Regex (Mimic Python ' '.join(text.split()))
         const fullCardText = cardItems.map(i => i.text).join(' ').replace(/\s+/g, ' ');
         
-        const epicMatch = epicItem.text.match(PATTERNS.EPIC);
-        const epic = epicMatch ? epicMatch[0].replace(/O/g, '0') : "";
-
-        // Regex Extraction
-        const nameMatch = fullCardText.match(PATTERNS.NAME);
-        const relativeMatch = fullCardText.match(PATTERNS.RELATIVE);
-        const houseMatch = fullCardText.match(PATTERNS.HOUSE);
-        const ageGenderMatch = fullCardText.match(PATTERNS.AGE_GENDER);
-        
-        // Fallback for Sl No (Start of text usually)
-        const slNoMatch = fullCardText.match(/^(\d+)/);
-
-        voters.push({
-            sl_no: slNoMatch ? slNoMatch[1] : "",
-            epic_no: epic,
-            name_en: nameMatch ? nameMatch[1].trim() : "Unknown",
-            name_te: "",
-            relative_name: relativeMatch ? relativeMatch[1].trim() : "",
-            house_no: houseMatch ? houseMatch[1].trim() : "",
-            age: ageGenderMatch ? ageGenderMatch[1] : "",
-            gender: ageGenderMatch ? ageGenderMatch[2] : "",
-            assembly_name: assembly,
-            parliament_name: "",
-            polling_station_no: pollingStation,
-            photoBase64: undefined,
-            originalPage: pageNum,
-            isVoted: false,
-            votedParty: null
-        });
+        const epicMatch = epicItem.text.match(EPIC);
+        const epic = epicMatch ? epicMatch[0] : "";
+
+        voters.push(buildVoterFromCardText(profile, fullCardText, epic, header, pageNum, undefined, viewport && textCardBox(cardItems, viewport)));
     }
 
-    return voters;
+    return voters.map(applyEpicNormalization);
 };
 
 
 /**
  * STRATEGY 2: Enhanced OCR Extraction
- * Mimics Python Logic: Binarization -> Tesseract -> Regex on Block
+ * Adaptive preprocessing -> Card grid segmentation -> Tesseract per card -> Regex on Block
  */
 
-// Image Enhancement: Binarization
-const preprocessImage = async (base64Image: string): Promise<string> => {
-    return new Promise((resolve) => {
-        const img = new Image();
-        img.onload = () => {
-            const canvas = document.createElement('canvas');
-            canvas.width = img.width;
-            canvas.height = img.height;
-            const ctx = canvas.getContext('2d');
-            if (!ctx) { resolve(base64Image); return; }
-
-            ctx.drawImage(img, 0, 0);
-            const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-            const data = imageData.data;
-            
-            // Thresholding at 128 (Matching Python cv2.threshold)
-            const threshold = 128; 
-            
-            for (let i = 0; i < data.length; i += 4) {
-                // Grayscale
-                const v = (0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]);
-                // Binarize
-                const bin = v >= threshold ? 255 : 0;
-                data[i] = data[i + 1] = data[i + 2] = bin;
-            }
-            
-            ctx.putImageData(imageData, 0, 0);
-            resolve(canvas.toDataURL('image/jpeg', 0.9));
-        };
-        img.onerror = () => resolve(base64Image);
-        img.src = `data:image/jpeg;base64,${base64Image}`;
-    });
+// Decodes a base64 JPEG into raw pixels for preprocessing and grid detection
+const loadPixels = async (base64Image: string): Promise<PixelImage> => {
+    const bitmap = await decodeBase64Image(base64Image);
+    const { canvas, ctx } = createCanvas(bitmap.width, bitmap.height);
+    ctx.drawImage(bitmap, 0, 0);
+    bitmap.close();
+    const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    releaseCanvas(canvas);
+    return pixels;
 };
 
-export const extractVotersFromImage = async (
-  base64Image: string, 
-  pageNumber: number,
-  includePhotos: boolean
+// Encodes processed pixels back into an image Tesseract can read
+const pixelsToDataUrl = async (img: PixelImage): Promise<string> => {
+    const { canvas, ctx } = createCanvas(img.width, img.height);
+    ctx.putImageData(new ImageData(img.data, img.width, img.height), 0, 0);
+    const dataUrl = await canvasToDataUrl(canvas, 'image/jpeg', 0.9);
+    releaseCanvas(canvas);
+    return dataUrl;
+};
+
+/**
+ * Card path: OCR each detected grid cell on its own, so the regexes see exactly one card
+ */
+const extractFromCardGrid = async (
+    profile: LayoutProfile,
+    worker: any,
+    imageSrc: string,
+    base64Image: string,
+    pageWidth: number,
+    pageHeight: number,
+    skewAngle: number,
+    cells: CardCell[],
+    pageNumber: number,
+    includePhotos: boolean
 ): Promise<Voter[]> => {
-  try {
-    const enhancedImageBase64 = await preprocessImage(base64Image);
-    const finalImage = enhancedImageBase64.split(',')[1]; 
+    const toSource = (box: Box) => toSourceBox(box, skewAngle, pageWidth, pageHeight);
+    const gridTop = Math.min(...cells.map(c => c.card.y));
+    let header = { assembly: "", pollingStation: "" };
+    if (gridTop > 10) {
+        const { data } = await worker.recognize(imageSrc, { rectangle: { left: 0, top: 0, width: pageWidth, height: gridTop } });
+        header = parseHeaderText(profile, data.text || "");
+    }
 
-    const worker = await Tesseract.createWorker('eng', 1, {
-      logger: (m: any) => {} 
-    });
-    
-    // PSM 6 assumes a single uniform block of text - good for line reading
-    await worker.setParameters({
-        tessedit_pageseg_mode: '6', 
-    });
+    const voters: Voter[] = [];
+    for (const cell of cells) {
+        const { card, photo } = cell;
+        const { data } = await worker.recognize(imageSrc, {
+            rectangle: { left: card.x, top: card.y, width: card.width, height: card.height }
+        });
+        const fullCardText = (data.text || "").replace(/\s+/g, ' ').trim();
+        const epicNo = fullCardText.match(profile.englishPatterns.EPIC)?.[0] || "";
+        if (!epicNo) continue; // Blank trailing cells on the last page
 
-    const { data } = await worker.recognize(`data:image/jpeg;base64,${finalImage}`);
-    await worker.terminate();
+        let photoBase64: string | undefined = undefined;
+        if (includePhotos && photo) {
+            photoBase64 = await cropImage(base64Image, toSource(photo));
+        }
 
+        const cardBox = toNormalizedBox(toSource(card), pageWidth, pageHeight);
+        voters.push(buildVoterFromCardText(profile, fullCardText, epicNo, header, pageNumber, photoBase64, cardBox, toOcrWords(data.words)));
+    }
+    return voters;
+};
+
+/**
+ * Anchor path: used when no ruled grid is found. Guesses card regions around each EPIC word.
+ */
+const extractFromEpicAnchors = async (
+    profile: LayoutProfile,
+    worker: any,
+    imageSrc: string,
+    base64Image: string,
+    pageWidth: number,
+    pageHeight: number,
+    skewAngle: number,
+    pageNumber: number,
+    includePhotos: boolean
+): Promise<Voter[]> => {
+    const toSource = (box: Box) => toSourceBox(box, skewAngle, pageWidth, pageHeight);
+    const { data } = await worker.recognize(imageSrc);
     const words = data.words;
     const voters: Voter[] = [];
-    
+
     // Header Info
-    const headerLimit = 150;
-    const topWords = words.filter((w: any) => w.bbox.y1 < headerLimit);
-    const fullPageText = topWords.map((w: any) => w.text).join(' ');
-    
-    let assembly = "";
-    let pollingStation = "";
-    const asmMatch = fullPageText.match(/Assembly.*?Constituency[:\s-]*([A-Za-z\s]+)/i);
-    if (asmMatch) assembly = asmMatch[1].trim();
-    const psMatch = fullPageText.match(/Polling.*?Station[:\s-]*([0-9A-Za-z\s\-\.]+)/i);
-    if (psMatch) pollingStation = psMatch[1].trim();
+    const { geometry } = profile;
+    const EPIC = profile.englishPatterns.EPIC;
+    const topWords = words.filter((w: any) => w.bbox.y1 < geometry.anchorHeaderLimit);
+    const header = parseHeaderText(profile, topWords.map((w: any) => w.text).join(' '));
 
     // Identify Card Blocks using EPIC anchors
-    const epics = words.filter((w: any) => PATTERNS.EPIC.test(w.text));
+    const epics = words.filter((w: any) => EPIC.test(w.text));
 
     for (const epicWord of epics) {
-      const rawEpic = epicWord.text.match(PATTERNS.EPIC)?.[0] || "";
-      const epicNo = rawEpic.replace(/O/g, '0');
+      const epicNo = epicWord.text.match(EPIC)?.[0] || "";
       if (!epicNo) continue;
 
       const bbox = epicWord.bbox;
       // Define Card Region relative to EPIC
       // Assuming EPIC is at the top/top-right of the card
       const cardRegion = {
-        x0: bbox.x0 - 250, 
-        x1: bbox.x1 + 100,
-        y0: bbox.y0 - 20,
-        y1: bbox.y1 + 140 
+        x0: bbox.x0 - geometry.anchorRegion.left, 
+        x1: bbox.x1 + geometry.anchorRegion.right,
+        y0: bbox.y0 - geometry.anchorRegion.above,
+        y1: bbox.y1 + geometry.anchorRegion.below 
       };
 
       // Extract words in this region
@@ -228,67 +300,108 @@ export const extractVotersFromImage = async (
       // Flatten to String (Mimic Python ' '.join)
       const fullCardText = cardWords.map((w: any) => w.text).join(' ');
 
-      // Regex Extraction on Flattened Text
-      const nameMatch = fullCardText.match(PATTERNS.NAME);
-      const relativeMatch = fullCardText.match(PATTERNS.RELATIVE);
-      const houseMatch = fullCardText.match(PATTERNS.HOUSE);
-      const ageGenderMatch = fullCardText.match(PATTERNS.AGE_GENDER);
-      const slNoMatch = fullCardText.match(/^(\d+)/); // Usually first number in block
-
       let photoBase64: string | undefined = undefined;
       if (includePhotos) {
           const cardWidth = cardRegion.x1 - cardRegion.x0;
-          const pX = cardRegion.x1 - (cardWidth * 0.35);
-          photoBase64 = await cropImage(base64Image, [cardRegion.y0 + 30, pX, cardRegion.y1 - 10, cardRegion.x1]);
+          const pX = cardRegion.x1 - (cardWidth * geometry.photoWidth);
+          photoBase64 = await cropImage(base64Image, toSource({ x: pX, y: cardRegion.y0 + 30, width: cardRegion.x1 - pX, height: cardRegion.y1 - 10 - (cardRegion.y0 + 30) }));
       }
 
-      voters.push({
-        sl_no: slNoMatch ? slNoMatch[1] : "",
-        epic_no: epicNo,
-        name_en: nameMatch ? nameMatch[1].trim() : "Unknown",
-        name_te: "",
-        relative_name: relativeMatch ? relativeMatch[1].trim() : "",
-        house_no: houseMatch ? houseMatch[1].trim() : "",
-        age: ageGenderMatch ? ageGenderMatch[1] : "",
-        gender: ageGenderMatch ? ageGenderMatch[2] : "",
-        assembly_name: assembly,
-        parliament_name: "",
-        polling_station_no: pollingStation,
-        photoBase64: photoBase64,
-        originalPage: pageNumber,
-        isVoted: false,
-        votedParty: null
-      });
+      const cardBox = toNormalizedBox(
+          toSource({ x: cardRegion.x0, y: cardRegion.y0, width: cardRegion.x1 - cardRegion.x0, height: cardRegion.y1 - cardRegion.y0 }),
+          pageWidth,
+          pageHeight
+      );
+      voters.push(buildVoterFromCardText(profile, fullCardText, epicNo, header, pageNumber, photoBase64, cardBox, toOcrWords(cardWords)));
     }
 
     return voters;
+};
+
+export interface OcrPageResult {
+    voters: Voter[];
+    preprocessing: PreprocessParams;
+    cached: boolean;
+}
+
+export const extractVotersFromImage = async (
+  base64Image: string, 
+  pageNumber: number,
+  includePhotos: boolean,
+  useCache: boolean = true,
+  profile: LayoutProfile = getLayoutProfile()
+): Promise<OcrPageResult> => {
+  try {
+    const languages = ocrLanguages(profile);
+    const cacheKey = {
+        imageHash: await hashPageImage(base64Image),
+        engine: 'TESSERACT' as const,
+        model: languages,
+        version: `${OCR_PIPELINE_VERSION}:${profile.id}${includePhotos ? '+photos' : ''}`
+    };
+    const cached = useCache ? await getCachedResult(cacheKey) : null;
+    if (cached && cached.preprocessing) {
+        return { voters: cached.voters.map(v => ({ ...v, originalPage: pageNumber })), preprocessing: cached.preprocessing, cached: true };
+    }
+
+    // Adaptive binarization, deskew and watermark removal run in a worker
+    const { image: pixels, params } = await preprocessInWorker(await loadPixels(base64Image));
+    const imageSrc = await pixelsToDataUrl(pixels);
+    const cells = detectCardGrid(pixels);
+
+    const worker = await Tesseract.createWorker(languages, 1, TESSERACT_OPTIONS);
+
+    let voters: Voter[];
+    try {
+        // PSM 6 assumes a single uniform block of text - good for line reading
+        await worker.setParameters({
+            tessedit_pageseg_mode: '6', 
+        });
+
+        voters = cells.length > 0
+            ? await extractFromCardGrid(profile, worker, imageSrc, base64Image, pixels.width, pixels.height, params.skewAngle, cells, pageNumber, includePhotos)
+            : await extractFromEpicAnchors(profile, worker, imageSrc, base64Image, pixels.width, pixels.height, params.skewAngle, pageNumber, includePhotos);
+    } finally {
+        await worker.terminate();
+    }
+
+    const normalized = voters.map(applyEpicNormalization);
+    storeCachedResult(cacheKey, { voters: normalized, preprocessing: params });
+    return { voters: normalized, preprocessing: params, cached: false };
 
   } catch (error) {
     console.error(`OCR Error on page ${pageNumber}`, error);
-    return [];
+    throw error;
   }
 };
 
-const cropImage = (base64Source: string, box: number[]): Promise<string> => {
-  return new Promise((resolve) => {
-    const img = new Image();
-    img.onload = () => {
-      const canvas = document.createElement('canvas');
-      const ctx = canvas.getContext('2d');
-      if (!ctx) { resolve(""); return; }
-
-      const [ymin, xmin, ymax, xmax] = box;
-      const w = xmax - xmin;
-      const h = ymax - ymin;
+/**
+ * Plain OCR of a whole page, used for the cover pages which have no card grid
+ */
+export const recognizePageText = async (base64Image: string, languages: string = 'eng'): Promise<string> => {
+  const worker = await Tesseract.createWorker(languages, 1, TESSERACT_OPTIONS);
+  try {
+    const { data } = await worker.recognize(`data:image/jpeg;base64,${base64Image}`);
+    return data.text || "";
+  } finally {
+    await worker.terminate();
+  }
+};
 
-      if (w <= 0 || h <= 0) { resolve(""); return; }
+// Crops from the source page, not the deskewed one; boxes are in source pixels (see toSourceBox)
+const cropImage = async (base64Source: string, box: Box): Promise<string> => {
+  const { x: xmin, y: ymin, width: w, height: h } = box;
+  if (w <= 0 || h <= 0) return "";
 
-      canvas.width = w;
-      canvas.height = h;
-      ctx.drawImage(img, xmin, ymin, w, h, 0, 0, w, h);
-      resolve(canvas.toDataURL('image/jpeg', 0.6));
-    };
-    img.onerror = () => resolve("");
-    img.src = `data:image/jpeg;base64,${base64Source}`; 
-  });
+  try {
+    const bitmap = await decodeBase64Image(base64Source);
+    const { canvas, ctx } = createCanvas(w, h);
+    ctx.drawImage(bitmap, xmin, ymin, w, h, 0, 0, w, h);
+    bitmap.close();
+    const dataUrl = await canvasToDataUrl(canvas, 'image/jpeg', 0.6);
+    releaseCanvas(canvas);
+    return dataUrl;
+  } catch {
+    return "";
+  }
 };
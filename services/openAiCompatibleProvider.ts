@@ -0,0 +1,57 @@
+import { LlmProvider, toJsonSchema } from "./llmContract";
+
+/**
+ * Any OpenAI-compatible /chat/completions endpoint with vision input
+ * (OpenAI itself, or a locally hosted model behind vLLM, Ollama, llama.cpp server, LM Studio, ...).
+ * Configured with LLM_BASE_URL, LLM_MODEL and optionally LLM_API_KEY.
+ */
+
+export const openAiCompatibleProvider: LlmProvider = {
+  id: 'OPENAI_COMPATIBLE',
+  label: 'OpenAI-compatible',
+  models: (process.env.LLM_MODEL || '').split(',').map(m => m.trim()).filter(Boolean),
+  isConfigured: () => !!process.env.LLM_BASE_URL && !!process.env.LLM_MODEL,
+  generate: async ({ model, imageBase64, prompt, schema }) => {
+    const baseUrl = (process.env.LLM_BASE_URL || '').replace(/\/+$/, '');
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (process.env.LLM_API_KEY) headers.Authorization = `Bearer ${process.env.LLM_API_KEY}`;
+
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model,
+        temperature: 0,
+        messages: [
+          {
+            role: 'user',
+            content: [
+              { type: 'text', text: prompt },
+              { type: 'image_url', image_url: { url: `data:image/jpeg;base64,${imageBase64}` } }
+            ]
+          }
+        ],
+        // Structured output needs an object at the root; parseVoterJson unwraps `voters`
+        response_format: {
+          type: 'json_schema',
+          json_schema: {
+            name: 'voters',
+            schema: { type: 'object', properties: { voters: toJsonSchema(schema) }, required: ['voters'] }
+          }
+        }
+      })
+    });
+
+    if (!response.ok) {
+      const detail = (await response.text().catch(() => '')).slice(0, 200);
+      throw Object.assign(new Error(`HTTP ${response.status} from ${baseUrl}: ${detail}`), { status: response.status });
+    }
+
+    const data = await response.json();
+    return {
+      text: data?.choices?.[0]?.message?.content || "[]",
+      promptTokens: data?.usage?.prompt_tokens ?? 0,
+      outputTokens: data?.usage?.completion_tokens ?? 0
+    };
+  }
+};
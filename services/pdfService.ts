@@ -0,0 +1,65 @@
+import { PdfDocument, PageViewport } from '../types';
+import { createCanvas, canvasToDataUrl, releaseCanvas } from './canvasUtils';
+
+export const PDF_RANGE_CHUNK_SIZE = 256 * 1024;
+
+/**
+ * PDF.js range transport that reads the File in slices on demand instead of loading the whole roll.
+ * Takes the PDF.js build in use: the CDN global on the main thread, the bundled module in extraction workers.
+ */
+export const createFileRangeTransport = (lib: { PDFDataRangeTransport: new (length: number, initialData: Uint8Array | null) => any }, file: File) => {
+    const transport = new lib.PDFDataRangeTransport(file.size, null);
+    transport.requestDataRange = (begin: number, end: number) => {
+        file.slice(begin, end).arrayBuffer()
+            .then(buffer => transport.onDataRange(begin, new Uint8Array(buffer)))
+            .catch(err => console.error("Could not read PDF range", err));
+    };
+    return transport;
+};
+
+/**
+ * Opens a PDF on the main thread with the same ranged reads the extraction workers use
+ */
+export const openPdfFile = (file: File): Promise<PdfDocument> =>
+    pdfjsLib.getDocument({
+        range: createFileRangeTransport(pdfjsLib, file),
+        rangeChunkSize: PDF_RANGE_CHUNK_SIZE,
+        disableAutoFetch: true, // Only the chunks the requested pages need
+        disableStream: true
+    }).promise;
+
+/**
+ * Renders a PDF page to JPEG and returns the raw base64 payload (no data URL prefix)
+ */
+export const getPdfPageAsBase64 = async (pdf: PdfDocument, pageNum: number, scale: number = 2.5): Promise<string> => {
+    const page = await pdf.getPage(pageNum);
+    const viewport = page.getViewport({ scale });
+    const { canvas, ctx } = createCanvas(Math.floor(viewport.width), Math.floor(viewport.height));
+
+    await page.render({ canvasContext: ctx, viewport: viewport }).promise;
+    const base64 = await canvasToDataUrl(canvas, 'image/jpeg', 0.8);
+    releaseCanvas(canvas);
+    page.cleanup();
+    return base64.split(',')[1];
+};
+
+/**
+ * Reads the PDF.js text layer of a page.
+ * Scanned rolls have no text layer, so this returns an empty array for them.
+ */
+export const getPdfPageTextItems = async (pdf: PdfDocument, pageNum: number): Promise<any[]> => {
+    const page = await pdf.getPage(pageNum);
+    const content = await page.getTextContent();
+    page.cleanup();
+    return content.items.filter((item: any) => typeof item.str === 'string' && item.str.trim().length > 0);
+};
+
+/**
+ * Scale-1 viewport of a page; maps PDF user-space points (text layer) to page pixels, rotation included
+ */
+export const getPdfPageViewport = async (pdf: PdfDocument, pageNum: number): Promise<PageViewport> => {
+    const page = await pdf.getPage(pageNum);
+    const viewport = page.getViewport({ scale: 1 });
+    page.cleanup();
+    return viewport;
+};
@@ -0,0 +1,69 @@
+import { zipSync, unzipSync, strToU8, strFromU8, Zippable, Unzipped } from 'fflate';
+import { Voter } from '../types';
+import { getPhotoBlob, savePhotos } from './photoStore';
+
+/**
+ * Zip bundle of the voter CSV plus one JPEG per voter photo:
+ *   voters.csv
+ *   photos/<EPIC>.jpg
+ * Photos are stored uncompressed since JPEG does not deflate further.
+ */
+
+export const BUNDLE_CSV_NAME = 'voters.csv';
+const PHOTO_DIR = 'photos/';
+
+export const isZipFile = (file: File): boolean =>
+  /\.zip$/i.test(file.name) || file.type === 'application/zip' || file.type === 'application/x-zip-compressed';
+
+/**
+ * Adds photos/<EPIC>.jpg for every voter with a stored photo; shared with the session bundle
+ */
+export const addPhotoEntries = async (entries: Zippable, voters: Voter[]): Promise<void> => {
+  for (const voter of voters) {
+    if (!voter.hasPhoto || !voter.epic_no) continue;
+    const blob = await getPhotoBlob(voter.epic_no);
+    if (blob) entries[`${PHOTO_DIR}${voter.epic_no}.jpg`] = [new Uint8Array(await blob.arrayBuffer()), { level: 0 }];
+  }
+};
+
+export const isPhotoEntry = (path: string): boolean => path.startsWith(PHOTO_DIR) && /\.jpe?g$/i.test(path);
+
+/**
+ * Saves the photos/<EPIC>.jpg entries of an unzipped bundle to the photo store; returns how many
+ */
+export const storeBundlePhotos = async (files: Unzipped): Promise<number> => {
+  const photos = Object.entries(files)
+    .filter(([path]) => isPhotoEntry(path))
+    .map(([path, data]) => ({ epic: path.slice(PHOTO_DIR.length).replace(/\.jpe?g$/i, ''), blob: new Blob([data], { type: 'image/jpeg' }) }));
+  await savePhotos(photos);
+  return photos.length;
+};
+
+export const exportPhotoBundle = async (voters: Voter[], csv: string): Promise<Blob> => {
+  const entries: Zippable = { [BUNDLE_CSV_NAME]: strToU8(csv) };
+  await addPhotoEntries(entries, voters);
+  return new Blob([zipSync(entries)], { type: 'application/zip' });
+};
+
+export interface ImportedBundle {
+  csv: string | null; // Null for a photos-only zip
+  photoCount: number;
+}
+
+/**
+ * Stores every photos/<EPIC>.jpg in the bundle and returns the CSV text, if any
+ */
+export const importPhotoBundle = async (file: File): Promise<ImportedBundle> => {
+  const files = unzipSync(new Uint8Array(await file.arrayBuffer()));
+  let csv: string | null = null;
+
+  for (const [path, data] of Object.entries(files)) {
+    const name = path.split('/').pop() || '';
+    if (isPhotoEntry(path)) continue;
+    if (name === BUNDLE_CSV_NAME || (!csv && /\.csv$/i.test(name))) {
+      csv = strFromU8(data);
+    }
+  }
+
+  return { csv, photoCount: await storeBundlePhotos(files) };
+};
@@ -0,0 +1,137 @@
+import { Voter } from '../types';
+import { openDb, requestToPromise, transactionDone, STORES } from './indexedDb';
+import { createCanvas, canvasToBlob, releaseCanvas } from './canvasUtils';
+
+/**
+ * Voter photos as JPEG blobs in IndexedDB, keyed by EPIC.
+ * Voters only carry `hasPhoto`, so state, checkpoints and CSVs stay small; thumbnails
+ * are made the first time a photo is shown and kept in their own store.
+ * Works in the extraction workers too (IndexedDB and OffscreenCanvas, no DOM).
+ */
+
+interface PhotoRecord {
+  epic: string;
+  blob: Blob;
+  updatedAt: number;
+}
+
+const THUMBNAIL_HEIGHT = 96; // px; twice the list thumbnail so it stays sharp on high-DPI screens
+const THUMBNAIL_QUALITY = 0.7;
+
+// Object URLs of thumbnails already shown, so list re-renders don't hit IndexedDB again
+const thumbnailUrls = new Map<string, Promise<string | null>>();
+
+const forgetThumbnail = (epic: string) => {
+  const url = thumbnailUrls.get(epic);
+  if (!url) return;
+  thumbnailUrls.delete(epic);
+  url.then(u => { if (u) URL.revokeObjectURL(u); });
+};
+
+export const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => (await fetch(dataUrl)).blob();
+
+/**
+ * Stores photos (replacing any earlier one for the EPIC) in a single transaction
+ */
+export const savePhotos = async (photos: { epic: string; blob: Blob }[]): Promise<void> => {
+  if (photos.length === 0) return;
+  const db = await openDb();
+  const tx = db.transaction([STORES.PHOTOS, STORES.PHOTO_THUMBNAILS], 'readwrite');
+  const now = Date.now();
+  for (const { epic, blob } of photos) {
+    const record: PhotoRecord = { epic, blob, updatedAt: now };
+    tx.objectStore(STORES.PHOTOS).put(record);
+    tx.objectStore(STORES.PHOTO_THUMBNAILS).delete(epic);
+    forgetThumbnail(epic);
+  }
+  await transactionDone(tx);
+};
+
+/**
+ * Moves inline photos (data URLs from the engines) into the store.
+ * Voters without an EPIC have no key, so they keep their inline photo.
+ */
+export const detachPhotos = async (voters: Voter[]): Promise<Voter[]> => {
+  const photos: { epic: string; blob: Blob }[] = [];
+  const detached = await Promise.all(voters.map(async (voter) => {
+    if (!voter.photoBase64 || !voter.epic_no) return voter;
+    photos.push({ epic: voter.epic_no, blob: await dataUrlToBlob(voter.photoBase64) });
+    return { ...voter, photoBase64: undefined, hasPhoto: true };
+  }));
+  await savePhotos(photos);
+  return detached;
+};
+
+export const getPhotoBlob = async (epic: string): Promise<Blob | null> => {
+  const db = await openDb();
+  const record: PhotoRecord | undefined = await requestToPromise(
+    db.transaction(STORES.PHOTOS, 'readonly').objectStore(STORES.PHOTOS).get(epic)
+  );
+  return record ? record.blob : null;
+};
+
+export const listPhotoEpics = async (): Promise<string[]> => {
+  const db = await openDb();
+  const keys = await requestToPromise(db.transaction(STORES.PHOTOS, 'readonly').objectStore(STORES.PHOTOS).getAllKeys());
+  return keys.map(String);
+};
+
+/**
+ * Sets `hasPhoto` from the store, e.g. after a CSV import, which carries no photos
+ */
+export const markStoredPhotos = async (voters: Voter[]): Promise<Voter[]> => {
+  const stored = new Set(await listPhotoEpics());
+  return voters.map(v => (stored.has(v.epic_no) ? { ...v, hasPhoto: true } : v));
+};
+
+const makeThumbnail = async (blob: Blob): Promise<Blob> => {
+  const bitmap = await createImageBitmap(blob);
+  const scale = Math.min(1, THUMBNAIL_HEIGHT / bitmap.height);
+  const { canvas, ctx } = createCanvas(Math.max(1, Math.round(bitmap.width * scale)), Math.max(1, Math.round(bitmap.height * scale)));
+  ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  const thumbnail = await canvasToBlob(canvas, 'image/jpeg', THUMBNAIL_QUALITY);
+  releaseCanvas(canvas);
+  return thumbnail;
+};
+
+const loadThumbnail = async (epic: string): Promise<string | null> => {
+  const db = await openDb();
+  const existing: { epic: string; blob: Blob } | undefined = await requestToPromise(
+    db.transaction(STORES.PHOTO_THUMBNAILS, 'readonly').objectStore(STORES.PHOTO_THUMBNAILS).get(epic)
+  );
+  if (existing) return URL.createObjectURL(existing.blob);
+
+  const photo = await getPhotoBlob(epic);
+  if (!photo) return null;
+  const blob = await makeThumbnail(photo);
+  const tx = db.transaction(STORES.PHOTO_THUMBNAILS, 'readwrite');
+  tx.objectStore(STORES.PHOTO_THUMBNAILS).put({ epic, blob });
+  await transactionDone(tx);
+  return URL.createObjectURL(blob);
+};
+
+/**
+ * Object URL of the EPIC's thumbnail, generated on first use. Null when no photo is stored.
+ */
+export const getThumbnailUrl = (epic: string): Promise<string | null> => {
+  let url = thumbnailUrls.get(epic);
+  if (!url) {
+    url = loadThumbnail(epic).catch(err => {
+      console.warn(`Could not load thumbnail for ${epic}`, err);
+      thumbnailUrls.delete(epic);
+      return null;
+    });
+    thumbnailUrls.set(epic, url);
+  }
+  return url;
+};
+
+export const clearPhotos = async (): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([STORES.PHOTOS, STORES.PHOTO_THUMBNAILS], 'readwrite');
+  tx.objectStore(STORES.PHOTOS).clear();
+  tx.objectStore(STORES.PHOTO_THUMBNAILS).clear();
+  await transactionDone(tx);
+  Array.from(thumbnailUrls.keys()).forEach(forgetThumbnail);
+};
@@ -0,0 +1,80 @@
+import { Voter } from '../types';
+
+/**
+ * Turnout, party and demographic totals shown on the Dashboard analytics tab and in the Excel summary sheet
+ */
+
+export interface GroupStats {
+  total: number;
+  voted: number;
+  byParty: Record<string, number>;
+}
+
+export interface PollingStats {
+  total: number;
+  voted: number;
+  remaining: number;
+  percentage: string; // One decimal, e.g. "42.5"
+  partyCounts: Record<string, number>;
+  demographics: {
+    gender: Record<string, GroupStats>; // Male, Female, Other
+    age: Record<string, GroupStats>; // 18-29, 30-45, 46-60, 60+, Unknown
+  };
+}
+
+export const computePollingStats = (voters: Voter[]): PollingStats => {
+  const total = voters.length;
+  const voted = voters.filter(v => v.isVoted).length;
+  const remaining = total - voted;
+  const percentage = total > 0 ? ((voted / total) * 100).toFixed(1) : '0.0';
+
+  const partyCounts = voters.reduce((acc, v) => {
+    if (v.isVoted && v.votedParty) {
+      acc[v.votedParty] = (acc[v.votedParty] || 0) + 1;
+    }
+    return acc;
+  }, {} as Record<string, number>);
+  
+  // Detailed Demographics
+  const demographics = voters.reduce((acc, v) => {
+     const g = v.gender.toUpperCase().startsWith('M') ? 'Male' : v.gender.toUpperCase().startsWith('F') ? 'Female' : 'Other';
+     
+     let a = 'Unknown';
+     const ageVal = parseInt(v.age);
+     if (!isNaN(ageVal)) {
+         if (ageVal < 30) a = '18-29';
+         else if (ageVal < 45) a = '30-45';
+         else if (ageVal < 60) a = '46-60';
+         else a = '60+';
+     }
+
+     // Initialize if missing
+     if (!acc.gender[g]) acc.gender[g] = { total: 0, voted: 0, byParty: {} };
+     if (!acc.age[a]) acc.age[a] = { total: 0, voted: 0, byParty: {} };
+
+     // Increment Totals
+     acc.gender[g].total++;
+     acc.age[a].total++;
+
+     // Increment Voted Stats
+     if (v.isVoted) {
+         acc.gender[g].voted++;
+         acc.age[a].voted++;
+         if (v.votedParty) {
+             acc.gender[g].byParty[v.votedParty] = (acc.gender[g].byParty[v.votedParty] || 0) + 1;
+             acc.age[a].byParty[v.votedParty] = (acc.age[a].byParty[v.votedParty] || 0) + 1;
+         }
+     }
+
+     return acc;
+  }, { 
+      gender: {} as Record<string, GroupStats>,
+      age: {} as Record<string, GroupStats>
+  });
+
+  // Ensure standard keys exist for rendering safety
+  ['Male', 'Female'].forEach(k => { if (!demographics.gender[k]) demographics.gender[k] = { total: 0, voted: 0, byParty: {} } });
+  ['18-29', '30-45', '46-60', '60+'].forEach(k => { if (!demographics.age[k]) demographics.age[k] = { total: 0, voted: 0, byParty: {} } });
+
+  return { total, voted, remaining, percentage, partyCounts, demographics };
+};
@@ -0,0 +1,24 @@
+import { preprocessPixels } from './imagePreprocessing';
+
+/**
+ * Runs page preprocessing off the main thread.
+ * Pixel buffers are transferred both ways, never copied.
+ */
+
+export interface PreprocessRequest {
+    id: number;
+    width: number;
+    height: number;
+    buffer: ArrayBuffer;
+}
+
+self.onmessage = (event: MessageEvent<PreprocessRequest>) => {
+    const { id, width, height, buffer } = event.data;
+    try {
+        const { image, params } = preprocessPixels({ data: new Uint8ClampedArray(buffer), width, height });
+        const out = image.data.buffer as ArrayBuffer;
+        (self as unknown as Worker).postMessage({ id, width, height, buffer: out, params }, [out]);
+    } catch (err: any) {
+        (self as unknown as Worker).postMessage({ id, error: err?.message || String(err) });
+    }
+};
@@ -0,0 +1,57 @@
+import { PixelImage } from './cardSegmentation';
+import { preprocessPixels, PreprocessOutput } from './imagePreprocessing';
+import type { PreprocessRequest } from './preprocess.worker';
+
+/**
+ * Main-thread side of the preprocessing worker.
+ * One worker is shared by all pages; requests are matched to replies by id.
+ * Falls back to running inline where module workers are unavailable,
+ * and when already off the main thread (inside an extraction pool worker).
+ */
+
+let worker: Worker | null = null;
+let nextId = 1;
+const pending = new Map<number, { resolve: (out: PreprocessOutput) => void; reject: (err: Error) => void }>();
+
+const getWorker = (): Worker | null => {
+    if (worker) return worker;
+    if (typeof Worker === 'undefined' || typeof window === 'undefined') return null;
+    try {
+        worker = new Worker(new URL('./preprocess.worker.ts', import.meta.url), { type: 'module' });
+    } catch (err) {
+        console.warn("Preprocessing worker unavailable, running inline", err);
+        return null;
+    }
+    worker.onmessage = (event: MessageEvent) => {
+        const { id, error, width, height, buffer, params } = event.data;
+        const request = pending.get(id);
+        if (!request) return;
+        pending.delete(id);
+        if (error) request.reject(new Error(error));
+        else request.resolve({ image: { data: new Uint8ClampedArray(buffer), width, height }, params });
+    };
+    worker.onerror = (event) => {
+        // A crashed worker fails everything in flight; the next call starts a fresh one
+        pending.forEach(p => p.reject(new Error(event.message || "Preprocessing worker crashed")));
+        pending.clear();
+        worker?.terminate();
+        worker = null;
+    };
+    return worker;
+};
+
+/**
+ * Preprocesses page pixels. The input buffer is transferred to the worker and must not be reused.
+ */
+export const preprocessInWorker = (img: PixelImage): Promise<PreprocessOutput> => {
+    const w = getWorker();
+    if (!w) return Promise.resolve(preprocessPixels(img));
+
+    return new Promise((resolve, reject) => {
+        const id = nextId++;
+        pending.set(id, { resolve, reject });
+        const buffer = img.data.buffer as ArrayBuffer;
+        const request: PreprocessRequest = { id, width: img.width, height: img.height, buffer };
+        w.postMessage(request, [buffer]);
+    });
+};
@@ -0,0 +1,51 @@
+import * as scheduler from './modelScheduler';
+import type { ModelOutcome } from './modelScheduler';
+
+/**
+ * What geminiService calls to get a model and report back.
+ * On the main thread it talks to the scheduler directly; inside an extraction worker it
+ * messages the main thread, where the pool forwards to the same scheduler.
+ */
+
+export type SchedulerRequest =
+    | { type: 'MODEL_ACQUIRE'; requestId: number; candidates: string[]; exclude: string[] }
+    | { type: 'MODEL_RESULT'; model: string; outcome: ModelOutcome };
+
+export interface SchedulerGrant {
+    type: 'MODEL_GRANT';
+    requestId: number;
+    model: string;
+}
+
+const inWorker = typeof window === 'undefined';
+let nextRequestId = 1;
+const grants = new Map<number, (model: string) => void>();
+
+if (inWorker) {
+    self.addEventListener('message', (event: MessageEvent) => {
+        const data = event.data as SchedulerGrant;
+        if (data?.type !== 'MODEL_GRANT') return;
+        grants.get(data.requestId)?.(data.model);
+        grants.delete(data.requestId);
+    });
+}
+
+const postToMain = (message: SchedulerRequest) => (self as unknown as Worker).postMessage(message);
+
+export const acquireModel = (candidates: string[], exclude: string[]): Promise<string> => {
+    if (!inWorker) return scheduler.acquireModel(candidates, exclude);
+    return new Promise(resolve => {
+        const requestId = nextRequestId++;
+        grants.set(requestId, resolve);
+        postToMain({ type: 'MODEL_ACQUIRE', requestId, candidates, exclude });
+    });
+};
+
+export const reportModelResult = (model: string, outcome: ModelOutcome) => {
+    if (!inWorker) scheduler.reportModelResult(model, outcome);
+    else postToMain({ type: 'MODEL_RESULT', model, outcome });
+};
+
+// Gemini surfaces quota errors as HTTP 429 / RESOURCE_EXHAUSTED
+export const isRateLimitError = (error: any): boolean =>
+    error?.status === 429 || /\b429\b|RESOURCE_EXHAUSTED|quota/i.test(error?.message || '');
@@ -0,0 +1,110 @@
+import { zipSync, unzipSync, strToU8, strFromU8, Zippable } from 'fflate';
+import { Voter, Party, BoothMetadata, PageReport, AuditEntry, SourceFileInfo, DEFAULT_PARTIES } from '../types';
+import { addPhotoEntries, storeBundlePhotos, isPhotoEntry } from './photoBundle';
+
+/**
+ * Versioned session bundle, everything needed to pick a session up on another device:
+ *   session.json       voters, party configuration, booth metadata, page reports, audit trail, source file
+ *   photos/<EPIC>.jpg
+ * A bare session.json (without photos) imports as well. Older bundles are migrated on import one version
+ * at a time: when the shape changes, bump SESSION_BUNDLE_VERSION and add the step to MIGRATIONS.
+ */
+
+export const SESSION_BUNDLE_FORMAT = 'aswamithra-session';
+export const SESSION_BUNDLE_VERSION = 1;
+const SESSION_FILE_NAME = 'session.json';
+
+export interface SessionBundle {
+  format: typeof SESSION_BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  source: SourceFileInfo | null;
+  voters: Voter[]; // Without inline photos; hasPhoto marks the ones under photos/
+  parties: Party[];
+  boothMetadata: BoothMetadata | null;
+  pageReports: PageReport[];
+  auditLog: AuditEntry[];
+}
+
+export type SessionState = Omit<SessionBundle, 'format' | 'version' | 'exportedAt'>;
+
+// MIGRATIONS[n] turns a version n bundle into a version n + 1 bundle
+const MIGRATIONS: Record<number, (bundle: any) => any> = {};
+
+export const migrateSessionBundle = (raw: any): SessionBundle => {
+  if (!raw || raw.format !== SESSION_BUNDLE_FORMAT) {
+    throw new Error("Not a session bundle.");
+  }
+  let bundle = raw;
+  let version = Number(bundle.version);
+  if (!Number.isInteger(version) || version < 1) {
+    throw new Error(`Unknown session bundle version "${bundle.version}".`);
+  }
+  if (version > SESSION_BUNDLE_VERSION) {
+    throw new Error(`Session bundle version ${version} was made by a newer version of the app; please update first.`);
+  }
+  while (version < SESSION_BUNDLE_VERSION) {
+    const step = MIGRATIONS[version];
+    if (!step) throw new Error(`No migration from session bundle version ${version}.`);
+    bundle = { ...step(bundle), version: version + 1 };
+    version++;
+  }
+  if (!Array.isArray(bundle.voters)) {
+    throw new Error("Session bundle has no voter list.");
+  }
+  // Only the voters are required, so trimmed or hand-made bundles still load
+  return {
+    ...bundle,
+    source: bundle.source ?? null,
+    parties: Array.isArray(bundle.parties) && bundle.parties.length > 0 ? bundle.parties : DEFAULT_PARTIES,
+    boothMetadata: bundle.boothMetadata ?? null,
+    pageReports: Array.isArray(bundle.pageReports) ? bundle.pageReports : [],
+    auditLog: Array.isArray(bundle.auditLog) ? bundle.auditLog : []
+  };
+};
+
+export const isSessionJsonFile = (file: File): boolean => /\.json$/i.test(file.name) || file.type === 'application/json';
+
+const parseSessionJson = (text: string): SessionBundle => {
+  let raw: any;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error(`${SESSION_FILE_NAME} is not valid JSON.`);
+  }
+  return migrateSessionBundle(raw);
+};
+
+export const exportSessionBundle = async (state: SessionState): Promise<Blob> => {
+  const bundle: SessionBundle = {
+    format: SESSION_BUNDLE_FORMAT,
+    version: SESSION_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    ...state,
+    voters: state.voters.map(v => ({ ...v, photoBase64: undefined }))
+  };
+  const entries: Zippable = { [SESSION_FILE_NAME]: strToU8(JSON.stringify(bundle)) };
+  await addPhotoEntries(entries, state.voters);
+  return new Blob([zipSync(entries)], { type: 'application/zip' });
+};
+
+export interface ImportedSession {
+  bundle: SessionBundle;
+  photoCount: number;
+}
+
+/**
+ * Reads a session bundle and stores its photos; null for a zip without session.json (a photo bundle)
+ */
+export const importSessionBundle = async (file: File): Promise<ImportedSession | null> => {
+  if (isSessionJsonFile(file)) {
+    return { bundle: parseSessionJson(await file.text()), photoCount: 0 };
+  }
+  const data = new Uint8Array(await file.arrayBuffer());
+  const session = unzipSync(data, { filter: entry => entry.name === SESSION_FILE_NAME })[SESSION_FILE_NAME];
+  if (!session) return null;
+  // Validated before any photo is written
+  const bundle = parseSessionJson(strFromU8(session));
+  const photoCount = await storeBundlePhotos(unzipSync(data, { filter: entry => isPhotoEntry(entry.name) }));
+  return { bundle, photoCount };
+};
@@ -11,7 +11,8 @@ export const syncFileToCloud = async (
   userId: string,
   pdfFile: File,
   voters: Voter[],
-  csvContent: string
+  csvContent: string,
+  usage?: StoredFile['usage'] // Gemini usage and estimated cost of extracting this file
 ): Promise<void> => {
   const timestamp = Date.now();
   const assembly = voters[0]?.assembly_name || "Unknown";
@@ -38,7 +39,9 @@ export const syncFileToCloud = async (
     voterCount: voters.length,
     assembly: assembly,
     createdAt: new Date().toISOString(),
-    notes: `Extracted ${voters.length} voters from ${assembly}.`
+    notes: `Extracted ${voters.length} voters from ${assembly}.`,
+    // Firestore rejects undefined fields
+    ...(usage ? { usage } : {})
   });
 };
 
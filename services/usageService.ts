@@ -0,0 +1,83 @@
+import { ModelCallUsage, UsageTotals, StoredFile } from '../types';
+
+/**
+ * Gemini token accounting. Every generateContent call is recorded (failed retries too),
+ * rolled up per page, per PDF and per session, and priced from an editable table.
+ */
+
+export interface ModelPrice {
+    inputPerMillion: number; // USD per 1M prompt tokens
+    outputPerMillion: number; // USD per 1M output tokens (thinking tokens bill as output)
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+// List prices at the time of writing; editable on the processing screen
+export const DEFAULT_PRICES: PriceTable = {
+    'gemini-3-pro-preview': { inputPerMillion: 2.0, outputPerMillion: 12.0 },
+    'gemini-2.5-flash': { inputPerMillion: 0.3, outputPerMillion: 2.5 },
+    'gemini-2.0-flash': { inputPerMillion: 0.1, outputPerMillion: 0.4 }
+};
+
+export const EMPTY_USAGE: UsageTotals = { calls: 0, failedCalls: 0, byModel: {} };
+
+export const summarizeCalls = (calls: ModelCallUsage[]): UsageTotals => {
+    return calls.reduce<UsageTotals>((totals, call) => {
+        const model = totals.byModel[call.model] || { calls: 0, promptTokens: 0, outputTokens: 0 };
+        return {
+            calls: totals.calls + 1,
+            failedCalls: totals.failedCalls + (call.ok ? 0 : 1),
+            byModel: {
+                ...totals.byModel,
+                [call.model]: {
+                    calls: model.calls + 1,
+                    promptTokens: model.promptTokens + call.promptTokens,
+                    outputTokens: model.outputTokens + call.outputTokens
+                }
+            }
+        };
+    }, EMPTY_USAGE);
+};
+
+export const addUsage = (a: UsageTotals, b: UsageTotals): UsageTotals => {
+    const byModel = { ...a.byModel };
+    for (const [model, usage] of Object.entries(b.byModel)) {
+        const existing = byModel[model] || { calls: 0, promptTokens: 0, outputTokens: 0 };
+        byModel[model] = {
+            calls: existing.calls + usage.calls,
+            promptTokens: existing.promptTokens + usage.promptTokens,
+            outputTokens: existing.outputTokens + usage.outputTokens
+        };
+    }
+    return { calls: a.calls + b.calls, failedCalls: a.failedCalls + b.failedCalls, byModel };
+};
+
+export const totalTokens = (usage: UsageTotals): number =>
+    Object.values(usage.byModel).reduce((sum, m) => sum + m.promptTokens + m.outputTokens, 0);
+
+/**
+ * Estimated USD cost; models missing from the table count as free and are listed in `unpriced`
+ */
+export const estimateCost = (usage: UsageTotals, prices: PriceTable): { usd: number; unpriced: string[] } => {
+    let usd = 0;
+    const unpriced: string[] = [];
+    for (const [model, m] of Object.entries(usage.byModel)) {
+        const price = prices[model];
+        if (!price) {
+            if (m.promptTokens + m.outputTokens > 0) unpriced.push(model);
+            continue;
+        }
+        usd += (m.promptTokens / 1e6) * price.inputPerMillion + (m.outputTokens / 1e6) * price.outputPerMillion;
+    }
+    return { usd, unpriced };
+};
+
+export const formatUsd = (usd: number): string => (usd > 0 && usd < 0.01 ? `$${usd.toFixed(4)}` : `$${usd.toFixed(2)}`);
+
+/**
+ * Usage as saved with a synced file in Firestore, priced at the time of the run
+ */
+export const toStoredUsage = (usage: UsageTotals, prices: PriceTable): StoredFile['usage'] => ({
+    ...usage,
+    estimatedCostUsd: estimateCost(usage, prices).usd
+});
@@ -0,0 +1,200 @@
+import { Voter } from '../types';
+
+/**
+ * Roll completeness checks run over the Voter[] from any engine.
+ * Each finding carries the pages it concerns so the review panel can link to them.
+ */
+
+export type ValidationFindingType =
+  | 'SERIAL_GAP'
+  | 'SERIAL_REPEAT'
+  | 'DUPLICATE_EPIC'
+  | 'PAGE_ORDER'
+  | 'HEADER_MISMATCH'
+  | 'INVALID_EPIC'
+  | 'EPIC_CORRECTED';
+
+export interface ValidationFinding {
+  type: ValidationFindingType;
+  severity: 'ERROR' | 'WARNING';
+  message: string;
+  pages: number[];
+}
+
+export interface ValidationReport {
+  findings: ValidationFinding[];
+  checkedAt: number;
+}
+
+const uniquePages = (voters: Voter[]) =>
+  Array.from(new Set(voters.map(v => v.originalPage ?? 0).filter(p => p > 0))).sort((a, b) => a - b);
+
+const parseSerial = (sl: string): number | null => {
+  const n = parseInt(sl, 10);
+  return isNaN(n) ? null : n;
+};
+
+/**
+ * Gaps and repeats in the sl_no sequence.
+ * A gap reports the pages of its neighbours, where the missing cards should have been.
+ */
+const checkSerials = (voters: Voter[]): ValidationFinding[] => {
+  const findings: ValidationFinding[] = [];
+  const bySerial = new Map<number, Voter[]>();
+  for (const v of voters) {
+    const n = parseSerial(v.sl_no);
+    if (n === null) continue;
+    bySerial.set(n, [...(bySerial.get(n) || []), v]);
+  }
+
+  bySerial.forEach((group, serial) => {
+    if (group.length > 1) {
+      findings.push({
+        type: 'SERIAL_REPEAT',
+        severity: 'ERROR',
+        message: `Serial No ${serial} appears ${group.length} times`,
+        pages: uniquePages(group)
+      });
+    }
+  });
+
+  const serials = Array.from(bySerial.keys()).sort((a, b) => a - b);
+  for (let i = 1; i < serials.length; i++) {
+    const prev = serials[i - 1];
+    const next = serials[i];
+    if (next - prev > 1) {
+      const range = next - prev === 2 ? `${prev + 1}` : `${prev + 1}-${next - 1}`;
+      findings.push({
+        type: 'SERIAL_GAP',
+        severity: 'ERROR',
+        message: `Serial No ${range} missing (${next - prev - 1} voter(s))`,
+        pages: uniquePages([...bySerial.get(prev)!, ...bySerial.get(next)!])
+      });
+    }
+  }
+
+  return findings;
+};
+
+const checkDuplicateEpics = (voters: Voter[]): ValidationFinding[] => {
+  const byEpic = new Map<string, Voter[]>();
+  for (const v of voters) {
+    const epic = v.epic_no.trim().toUpperCase();
+    if (!epic) continue;
+    byEpic.set(epic, [...(byEpic.get(epic) || []), v]);
+  }
+
+  const findings: ValidationFinding[] = [];
+  byEpic.forEach((group, epic) => {
+    if (group.length > 1) {
+      findings.push({
+        type: 'DUPLICATE_EPIC',
+        severity: 'ERROR',
+        message: `EPIC ${epic} is shared by Serial No ${group.map(v => v.sl_no || '?').join(', ')}`,
+        pages: uniquePages(group)
+      });
+    }
+  });
+  return findings;
+};
+
+/**
+ * Serial numbers increase page by page; a voter whose page is lower than
+ * a smaller serial's page was most likely assigned the wrong page.
+ */
+const checkPageOrder = (voters: Voter[]): ValidationFinding[] => {
+  const ordered = voters
+    .filter(v => parseSerial(v.sl_no) !== null && (v.originalPage ?? 0) > 0)
+    .sort((a, b) => parseSerial(a.sl_no)! - parseSerial(b.sl_no)!);
+
+  const findings: ValidationFinding[] = [];
+  let maxPage = 0;
+  let maxPageSerial = '';
+  for (const v of ordered) {
+    const page = v.originalPage!;
+    if (page < maxPage) {
+      findings.push({
+        type: 'PAGE_ORDER',
+        severity: 'WARNING',
+        message: `Serial No ${v.sl_no} is on page ${page} but Serial No ${maxPageSerial} is already on page ${maxPage}`,
+        pages: [page, maxPage]
+      });
+    } else {
+      maxPage = page;
+      maxPageSerial = v.sl_no;
+    }
+  }
+  return findings;
+};
+
+/**
+ * One file is one part of one assembly, so header fields must agree across all voters
+ */
+const checkHeaderConsistency = (voters: Voter[]): ValidationFinding[] => {
+  const fields: { key: 'assembly_name' | 'polling_station_no'; label: string }[] = [
+    { key: 'assembly_name', label: 'Assembly' },
+    { key: 'polling_station_no', label: 'Polling Station' }
+  ];
+
+  const findings: ValidationFinding[] = [];
+  for (const { key, label } of fields) {
+    const byValue = new Map<string, Voter[]>();
+    for (const v of voters) {
+      const value = (v[key] || '').trim();
+      if (!value) continue;
+      byValue.set(value, [...(byValue.get(value) || []), v]);
+    }
+    if (byValue.size <= 1) continue;
+
+    // The most common value is taken as correct; every other value is flagged
+    const [majority] = Array.from(byValue.entries()).sort((a, b) => b[1].length - a[1].length)[0];
+    byValue.forEach((group, value) => {
+      if (value === majority) return;
+      findings.push({
+        type: 'HEADER_MISMATCH',
+        severity: 'WARNING',
+        message: `${label} "${value}" on ${group.length} voter(s) differs from "${majority}"`,
+        pages: uniquePages(group)
+      });
+    });
+  }
+  return findings;
+};
+
+/**
+ * Surfaces epicService results: every invalid EPIC, and one summary of auto-corrections
+ */
+const checkEpicFormat = (voters: Voter[]): ValidationFinding[] => {
+  const findings: ValidationFinding[] = voters
+    .filter(v => v.epicStatus === 'INVALID')
+    .map(v => ({
+      type: 'INVALID_EPIC' as const,
+      severity: 'ERROR' as const,
+      message: `Serial No ${v.sl_no || '?'} has invalid EPIC "${v.epicOriginal ?? v.epic_no}"`,
+      pages: uniquePages([v])
+    }));
+
+  const corrected = voters.filter(v => v.epicStatus === 'CORRECTED');
+  if (corrected.length > 0) {
+    const sample = corrected.slice(0, 3).map(v => `${v.epicOriginal} → ${v.epic_no}`).join(', ');
+    findings.push({
+      type: 'EPIC_CORRECTED',
+      severity: 'WARNING',
+      message: `${corrected.length} EPIC(s) auto-corrected for OCR confusions (${sample}${corrected.length > 3 ? ', …' : ''})`,
+      pages: uniquePages(corrected)
+    });
+  }
+  return findings;
+};
+
+export const validateRoll = (voters: Voter[]): ValidationReport => {
+  const findings = [
+    ...checkSerials(voters),
+    ...checkDuplicateEpics(voters),
+    ...checkEpicFormat(voters),
+    ...checkPageOrder(voters),
+    ...checkHeaderConsistency(voters)
+  ];
+  findings.sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'ERROR' ? -1 : 1));
+  return { findings, checkedAt: Date.now() };
+};
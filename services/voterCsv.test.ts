@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import { Voter } from '../types';
+import { votersToCSV, votersToCSVBlob, VOTER_CSV_COLUMNS } from './voterCsv';
+import { parseCSV, serializeCSV } from './csvCodec';
+import { parseCSVTable, rowsToTable, autoMapColumns, applyColumnMapping, CsvTable } from './csvImport';
+
+// Every field the CSV carries; photos, hasPhoto and the session record id are not exported
+const fullVoter: Voter = {
+  sl_no: '12',
+  epic_no: 'ABC1234567',
+  name_en: 'Rao, K. "Babu"',
+  name_te: 'రావు కె. బాబు',
+  relative_name: 'Venkat\nRao', // A line break read off the card
+  relative_name_te: 'వెంకట్ రావు',
+  house_no: '1-2/3, Main Road',
+  age: '34',
+  gender: 'M',
+  assembly_name: 'Secunderabad',
+  parliament_name: 'Hyderabad',
+  polling_station_no: '117',
+  originalPage: 4,
+  cardBox: [102, 15, 233, 330],
+  engine: 'TESSERACT',
+  epicStatus: 'CORRECTED',
+  epicOriginal: 'ABCI234567',
+  confidence: { epic_no: 0.92, name_en: 0.5, age: 1 },
+  reviewed: false,
+  isVoted: true,
+  votedParty: 'Independent; Other',
+  timestamp: 1760871805123
+};
+
+// Optional fields left unset
+const bareVoter: Voter = {
+  sl_no: '',
+  epic_no: 'XYZ7654321',
+  name_en: 'Sita',
+  name_te: '',
+  relative_name: '',
+  house_no: '',
+  age: '',
+  gender: '',
+  assembly_name: '',
+  parliament_name: '',
+  polling_station_no: '',
+  isVoted: false,
+  votedParty: null
+};
+
+const importTable = (table: CsvTable) => applyColumnMapping(table, autoMapColumns(table.headers));
+
+const roundTrip = (voters: Voter[]) => importTable(parseCSVTable(votersToCSV(voters)));
+
+// Undefined properties are not part of the comparison; toStrictEqual would count them
+const defined = (voter: Voter) => JSON.parse(JSON.stringify(voter));
+
+describe('voter CSV round trip', () => {
+  it('restores every exported field', () => {
+    const { voters, issues, skippedRows } = roundTrip([fullVoter, bareVoter]);
+    expect(issues).toEqual([]);
+    expect(skippedRows).toBe(0);
+    expect(voters.map(defined)).toEqual([fullVoter, { ...bareVoter, epicStatus: 'VALID' }]);
+  });
+
+  it('keeps the original 15 columns first, in their original order', () => {
+    expect(VOTER_CSV_COLUMNS.slice(0, 15).map(c => c.header)).toEqual([
+      'Serial No', 'EPIC No', 'Name (English)', 'Name (Telugu)', 'Relation Name', 'House No', 'Age', 'Gender',
+      'Assembly', 'Parliament', 'Polling Station', 'Voted?', 'Party', 'Page No', 'Timestamp'
+    ]);
+  });
+
+  it('writes a BOM and reads the file back without it', () => {
+    const csv = votersToCSV([bareVoter]);
+    expect(csv.startsWith('\uFEFFSerial No,')).toBe(true);
+    expect(parseCSVTable(csv).headers[0]).toBe('Serial No');
+  });
+
+  it('builds the same file as a Blob', async () => {
+    // Compared as bytes: decoding the Blob as text would drop the BOM
+    const bytes = new Uint8Array(await votersToCSVBlob([fullVoter, bareVoter]).arrayBuffer());
+    expect(bytes).toEqual(new TextEncoder().encode(votersToCSV([fullVoter, bareVoter])));
+  });
+
+  it('keeps text exactly, edge whitespace included, while trimming codes', () => {
+    const voter = { ...bareVoter, name_en: '  Ravi  ', house_no: ' 4-5 ', age: '29' };
+    const table = parseCSVTable(votersToCSV([voter]));
+    table.rows[0][table.headers.indexOf('Age')] = ' 29 '; // Padded by hand
+    const [imported] = importTable(table).voters;
+    expect(imported.name_en).toBe('  Ravi  ');
+    expect(imported.house_no).toBe(' 4-5 ');
+    expect(imported.age).toBe('29');
+  });
+
+  it('tells unset flags and pages from "no" and page 0', () => {
+    const [unset, set] = roundTrip([bareVoter, { ...bareVoter, reviewed: false, originalPage: 0, relative_name_te: '' }]).voters;
+    expect(unset.reviewed).toBeUndefined();
+    expect(unset.originalPage).toBeUndefined();
+    expect(set.reviewed).toBe(false);
+    expect(set.originalPage).toBe(0);
+    // An empty regional name is the same as none
+    expect(set.relative_name_te).toBeUndefined();
+  });
+
+  it('leaves fields of columns the file does not have unset', () => {
+    const rows = parseCSV(votersToCSV([fullVoter]));
+    const kept = rows[0].map((_, i) => i).filter(i => !['Reviewed', 'Confidence', 'Timestamp'].includes(rows[0][i]));
+    const [imported] = importTable(rowsToTable(rows.map(row => kept.map(i => row[i])))).voters;
+    expect(imported.reviewed).toBeUndefined();
+    expect(imported.confidence).toBeUndefined();
+    expect(imported.timestamp).toBeUndefined();
+    expect(imported.cardBox).toEqual(fullVoter.cardBox);
+  });
+
+  it('reads epoch and ISO timestamps', () => {
+    const table = parseCSVTable(votersToCSV([bareVoter, bareVoter]));
+    const column = table.headers.indexOf('Timestamp');
+    table.rows[0][column] = '1760871805123';
+    table.rows[1][column] = '2025-10-19T11:03:25.123Z';
+    const { voters, issues } = importTable(table);
+    expect(issues).toEqual([]);
+    expect(voters.map(v => v.timestamp)).toEqual([1760871805123, 1760871805123]);
+  });
+
+  it('warns about card boxes and confidence that are not the JSON the export writes', () => {
+    const table = parseCSVTable(votersToCSV([fullVoter]));
+    table.rows[0][table.headers.indexOf('Card Box')] = '[1, 2, 3]';
+    table.rows[0][table.headers.indexOf('Confidence')] = '{"epic_no": "high"}';
+    const { voters, issues } = importTable(table);
+    expect(voters[0].cardBox).toBeUndefined();
+    expect(voters[0].confidence).toBeUndefined();
+    expect(issues.map(i => i.field)).toEqual(['cardBox', 'confidence']);
+  });
+
+  it.each([';', '\t', '|'])('imports the export re-saved with %j as the delimiter', (delimiter) => {
+    const resaved = serializeCSV(parseCSV(votersToCSV([fullVoter, bareVoter])), { delimiter, bom: true });
+    const { voters } = importTable(parseCSVTable(resaved));
+    expect(voters.map(defined)).toEqual(roundTrip([fullVoter, bareVoter]).voters.map(defined));
+  });
+});
@@ -0,0 +1,58 @@
+import { Voter } from '../types';
+import { CsvRow, serializeCSV, serializeCSVRows } from './csvCodec';
+
+/**
+ * Voter CSV as written by downloads, booth exports, photo bundles and cloud sync.
+ * The original 15 columns (Serial No to Timestamp) keep their order for tools that read them by position.
+ * Engine and the columns after it carry the fields older exports dropped, so importing the file
+ * (services/csvImport.ts) restores every voter field. Photos stay out of the CSV: they travel in the photo
+ * bundle and the photo store; the session record id is not exported either.
+ */
+
+interface VoterColumn {
+  header: string;
+  format: (voter: Voter) => string;
+}
+
+// Empty for undefined so an import can tell "not set" from "no"
+const flag = (value: boolean | undefined) => (value === undefined ? '' : value ? 'YES' : 'NO');
+const optional = (value: number | string | undefined | null) => (value === undefined || value === null ? '' : String(value));
+
+export const VOTER_CSV_COLUMNS: VoterColumn[] = [
+  { header: 'Serial No', format: v => v.sl_no || '' },
+  { header: 'EPIC No', format: v => v.epic_no || '' },
+  { header: 'Name (English)', format: v => v.name_en || '' },
+  { header: 'Name (Telugu)', format: v => v.name_te || '' },
+  { header: 'Relation Name', format: v => v.relative_name || '' },
+  { header: 'House No', format: v => v.house_no || '' },
+  { header: 'Age', format: v => v.age || '' },
+  { header: 'Gender', format: v => v.gender || '' },
+  { header: 'Assembly', format: v => v.assembly_name || '' },
+  { header: 'Parliament', format: v => v.parliament_name || '' },
+  { header: 'Polling Station', format: v => v.polling_station_no || '' },
+  { header: 'Voted?', format: v => (v.isVoted ? 'YES' : 'NO') },
+  { header: 'Party', format: v => v.votedParty || '' },
+  { header: 'Page No', format: v => optional(v.originalPage) },
+  { header: 'Timestamp', format: v => optional(v.timestamp) }, // Epoch milliseconds
+  { header: 'Engine', format: v => v.engine || '' },
+  { header: 'Relative Name (Regional)', format: v => v.relative_name_te || '' },
+  { header: 'EPIC (as read)', format: v => v.epicOriginal || '' },
+  { header: 'Card Box', format: v => (v.cardBox ? JSON.stringify(v.cardBox) : '') },
+  { header: 'Confidence', format: v => (v.confidence ? JSON.stringify(v.confidence) : '') },
+  { header: 'Reviewed', format: v => flag(v.reviewed) }
+];
+
+const voterRows = function* (voters: Voter[]): Generator<CsvRow> {
+  yield VOTER_CSV_COLUMNS.map(c => c.header);
+  for (const voter of voters) {
+    yield VOTER_CSV_COLUMNS.map(c => c.format(voter));
+  }
+};
+
+export const votersToCSV = (voters: Voter[]): string => serializeCSV(voterRows(voters), { bom: true });
+
+/**
+ * Same content as votersToCSV, assembled from one string per record instead of a single large one
+ */
+export const votersToCSVBlob = (voters: Voter[]): Blob =>
+  new Blob(Array.from(serializeCSVRows(voterRows(voters), { bom: true })), { type: 'text/csv;charset=utf-8;' });
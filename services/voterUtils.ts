@@ -0,0 +1,31 @@
+import { Voter, AuditEntry } from '../types';
+
+/**
+ * Puts a page's voters in place of whatever that page produced before (a retried or re-delivered page).
+ * Nothing is deduped by EPIC: two cards sharing one is a roll defect the validation panel reports.
+ */
+export const mergePageVoters = (existing: Voter[], pageNumber: number, incoming: Voter[]): Voter[] => [
+    ...existing.filter(v => v.originalPage !== pageNumber),
+    ...incoming
+];
+
+/**
+ * Gives every voter without one a record id. Returns the same array when nothing was missing.
+ */
+export const withRecordIds = (voters: Voter[]): Voter[] =>
+    voters.every(v => v.id) ? voters : voters.map(v => (v.id ? v : { ...v, id: crypto.randomUUID() }));
+
+/**
+ * Fields that differ between two versions of a voter, for the audit trail. Inline photos are left out.
+ */
+export const voterChanges = (before: Voter, after: Voter): AuditEntry['changes'] => {
+    const changes: AuditEntry['changes'] = {};
+    const fields = new Set([...Object.keys(before), ...Object.keys(after)] as (keyof Voter)[]);
+    for (const field of fields) {
+        if (field === 'photoBase64') continue;
+        const from = before[field];
+        const to = after[field];
+        if (JSON.stringify(from) !== JSON.stringify(to)) changes[field] = { from: from ?? null, to: to ?? null };
+    }
+    return changes;
+};
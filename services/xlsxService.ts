@@ -0,0 +1,318 @@
+import { zipSync, unzipSync, strToU8, strFromU8, Zippable, Unzipped } from 'fflate';
+import { Voter, Party, BoothMetadata } from '../types';
+import { VOTER_CSV_COLUMNS } from './voterCsv';
+import { computePollingStats, GroupStats } from './pollingStats';
+import { CsvTable, rowsToTable, autoMapColumns, missingRequiredFields, normalizeHeader } from './csvImport';
+
+/**
+ * Excel workbooks, written and read as the zip of SpreadsheetML parts an .xlsx is.
+ * Export: a Summary sheet built from the Dashboard statistics, then one sheet per polling station with the
+ * voter CSV columns, a frozen header row and numeric serial, age, page and timestamp cells.
+ * Import: the voter sheets become one CsvTable, so Excel files go through the same column mapping as CSV.
+ */
+
+const MAIN_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const REL_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const PACKAGE_REL_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+export const XLSX_MIME = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+export const isXlsxFile = (file: File): boolean => /\.xlsx$/i.test(file.name) || file.type === XLSX_MIME;
+
+// --- Export ---
+
+interface Percent {
+  percent: number; // Fraction, shown as 0.00%
+}
+
+type Cell = string | number | Percent | null;
+
+// Indexes into cellXfs of STYLES_XML
+const STYLE = { HEADER: 1, PERCENT: 2, INTEGER: 3 };
+
+interface SheetSpec {
+  name: string;
+  rows: Cell[][];
+  headerRows: Set<number>; // 0-based rows drawn bold
+  freezeHeader: boolean;
+  integerColumns?: Set<number>; // Shown without exponent (epoch timestamps)
+}
+
+// Cells read back as text on import, so only whole numbers become numeric cells
+const NUMERIC_HEADERS = new Set(['Serial No', 'Age', 'Page No', 'Timestamp']);
+const MAX_SHEET_NAME = 31;
+
+const STYLES_XML = XML_HEADER +
+  `<styleSheet xmlns="${MAIN_NS}">` +
+  '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+  '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+  '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+  '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+  '<cellXfs count="4">' +
+  '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+  '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>' +
+  '<xf numFmtId="10" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+  '<xf numFmtId="1" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+  '</cellXfs>' +
+  '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>' +
+  '</styleSheet>';
+
+const escapeXml = (text: string) =>
+  text
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '') // Not allowed in XML 1.0
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const columnName = (index: number): string => {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+};
+
+const cellXml = (cell: Cell, ref: string, style: number): string => {
+  const s = style ? ` s="${style}"` : '';
+  if (cell === null || cell === '') return '';
+  if (typeof cell === 'number') return `<c r="${ref}"${s}><v>${cell}</v></c>`;
+  if (typeof cell === 'object') return `<c r="${ref}" s="${STYLE.PERCENT}"><v>${cell.percent}</v></c>`;
+  return `<c r="${ref}" t="inlineStr"${s}><is><t xml:space="preserve">${escapeXml(cell)}</t></is></c>`;
+};
+
+const cellWidth = (cell: Cell) => (cell === null ? 0 : typeof cell === 'object' ? 8 : String(cell).length);
+
+const sheetXml = (sheet: SheetSpec, selected: boolean): string => {
+  const widths: number[] = [];
+  sheet.rows.forEach(row => row.forEach((cell, i) => { widths[i] = Math.max(widths[i] || 0, cellWidth(cell)); }));
+  const cols = Array.from(widths, (w, i) =>
+    `<col min="${i + 1}" max="${i + 1}" width="${Math.min(Math.max((w || 0) + 2, 8), 50)}" customWidth="1"/>`
+  ).join('');
+
+  const rows = sheet.rows.map((row, r) => {
+    const cells = row.map((cell, c) => {
+      const style = sheet.headerRows.has(r) ? STYLE.HEADER : sheet.integerColumns?.has(c) && typeof cell === 'number' ? STYLE.INTEGER : 0;
+      return cellXml(cell, `${columnName(c)}${r + 1}`, style);
+    }).join('');
+    return `<row r="${r + 1}">${cells}</row>`;
+  }).join('');
+
+  const pane = sheet.freezeHeader ? '<pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/>' : '';
+  return XML_HEADER +
+    `<worksheet xmlns="${MAIN_NS}" xmlns:r="${REL_NS}">` +
+    `<sheetViews><sheetView workbookViewId="0"${selected ? ' tabSelected="1"' : ''}>${pane}</sheetView></sheetViews>` +
+    '<sheetFormatPr defaultRowHeight="15"/>' +
+    (cols ? `<cols>${cols}</cols>` : '') +
+    `<sheetData>${rows}</sheetData>` +
+    '</worksheet>';
+};
+
+/**
+ * Excel sheet names: at most 31 characters, none of []:*?/\, unique regardless of case
+ */
+const uniqueSheetName = (wanted: string, used: Set<string>): string => {
+  const base = wanted.replace(/[[\]:*?/\\]/g, '-').trim().slice(0, MAX_SHEET_NAME) || 'Sheet';
+  let name = base;
+  for (let n = 2; used.has(name.toLowerCase()); n++) {
+    const suffix = ` (${n})`;
+    name = base.slice(0, MAX_SHEET_NAME - suffix.length) + suffix;
+  }
+  used.add(name.toLowerCase());
+  return name;
+};
+
+const turnout = (voted: number, total: number): Percent => ({ percent: total > 0 ? voted / total : 0 });
+
+const groupByStation = (voters: Voter[]): [string, Voter[]][] => {
+  const stations = new Map<string, Voter[]>();
+  for (const voter of voters) {
+    const station = voter.polling_station_no.trim();
+    if (!stations.has(station)) stations.set(station, []);
+    stations.get(station)!.push(voter);
+  }
+  // Numeric order, voters without a station last
+  return Array.from(stations.entries()).sort(([a], [b]) => {
+    if (!a || !b) return a ? -1 : b ? 1 : 0;
+    return a.localeCompare(b, undefined, { numeric: true });
+  });
+};
+
+const summarySheet = (voters: Voter[], parties: Party[], metadata: BoothMetadata | null, stations: [string, Voter[]][]): SheetSpec => {
+  const stats = computePollingStats(voters);
+  // Configured parties first, then any other party voters were marked with
+  const partyNames = [...parties.map(p => p.name), ...Object.keys(stats.partyCounts).filter(name => !parties.some(p => p.name === name))];
+  const rows: Cell[][] = [];
+  const headerRows = new Set<number>();
+  const header = (cells: Cell[]) => {
+    if (rows.length > 0) rows.push([]);
+    headerRows.add(rows.length);
+    rows.push(cells);
+  };
+  const groupRows = (groups: [string, GroupStats][]) => {
+    for (const [label, group] of groups) {
+      rows.push([label, group.total, group.voted, turnout(group.voted, group.total), ...partyNames.map(name => group.byParty[name] || 0)]);
+    }
+  };
+
+  header(['Polling Summary', new Date().toLocaleString()]);
+  if (metadata) {
+    rows.push(['Part No', metadata.partNo]);
+    rows.push(['Polling Station', metadata.pollingStationName]);
+    rows.push(['Assembly', metadata.assemblyName]);
+  }
+
+  header(['Metric', 'Value']);
+  rows.push(['Total Voters', stats.total]);
+  rows.push(['Voted', stats.voted]);
+  rows.push(['Remaining', stats.remaining]);
+  rows.push(['Turnout', turnout(stats.voted, stats.total)]);
+
+  header(['Party', 'Votes', 'Share of Votes']);
+  for (const name of partyNames) {
+    const count = stats.partyCounts[name] || 0;
+    rows.push([name, count, turnout(count, stats.voted)]);
+  }
+
+  header(['Gender', 'Voters', 'Voted', 'Turnout', ...partyNames]);
+  groupRows(Object.entries(stats.demographics.gender));
+
+  header(['Age Group', 'Voters', 'Voted', 'Turnout', ...partyNames]);
+  groupRows(['18-29', '30-45', '46-60', '60+', 'Unknown']
+    .filter(group => stats.demographics.age[group])
+    .map(group => [group, stats.demographics.age[group]] as [string, GroupStats]));
+
+  header(['Polling Station', 'Voters', 'Voted', 'Turnout']);
+  for (const [station, stationVoters] of stations) {
+    const voted = stationVoters.filter(v => v.isVoted).length;
+    rows.push([station || 'Unassigned', stationVoters.length, voted, turnout(voted, stationVoters.length)]);
+  }
+
+  return { name: 'Summary', rows, headerRows, freezeHeader: false };
+};
+
+const stationSheet = (name: string, voters: Voter[]): SheetSpec => {
+  const integerColumns = new Set([VOTER_CSV_COLUMNS.findIndex(c => c.header === 'Timestamp')]);
+  const rows: Cell[][] = [VOTER_CSV_COLUMNS.map(c => c.header)];
+  for (const voter of voters) {
+    rows.push(VOTER_CSV_COLUMNS.map(column => {
+      const value = column.format(voter);
+      return NUMERIC_HEADERS.has(column.header) && /^\d{1,15}$/.test(value) ? Number(value) : value;
+    }));
+  }
+  return { name, rows, headerRows: new Set([0]), freezeHeader: true, integerColumns };
+};
+
+export const votersToXlsx = (voters: Voter[], parties: Party[], metadata: BoothMetadata | null): Blob => {
+  const stations = groupByStation(voters);
+  const used = new Set<string>();
+  const sheets = [summarySheet(voters, parties, metadata, stations), ...stations.map(([station, stationVoters]) =>
+    stationSheet(station ? `Booth ${station}` : 'Unassigned', stationVoters)
+  )].map(sheet => ({ ...sheet, name: uniqueSheetName(sheet.name, used) }));
+
+  const entries: Zippable = {
+    '[Content_Types].xml': strToU8(XML_HEADER +
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+      sheets.map((_, i) => `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('') +
+      '</Types>'),
+    '_rels/.rels': strToU8(XML_HEADER +
+      `<Relationships xmlns="${PACKAGE_REL_NS}">` +
+      `<Relationship Id="rId1" Type="${REL_NS}/officeDocument" Target="xl/workbook.xml"/>` +
+      '</Relationships>'),
+    'xl/workbook.xml': strToU8(XML_HEADER +
+      `<workbook xmlns="${MAIN_NS}" xmlns:r="${REL_NS}"><sheets>` +
+      sheets.map((sheet, i) => `<sheet name="${escapeXml(sheet.name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('') +
+      '</sheets></workbook>'),
+    'xl/_rels/workbook.xml.rels': strToU8(XML_HEADER +
+      `<Relationships xmlns="${PACKAGE_REL_NS}">` +
+      sheets.map((_, i) => `<Relationship Id="rId${i + 1}" Type="${REL_NS}/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`).join('') +
+      `<Relationship Id="rId${sheets.length + 1}" Type="${REL_NS}/styles" Target="styles.xml"/>` +
+      '</Relationships>'),
+    'xl/styles.xml': strToU8(STYLES_XML)
+  };
+  sheets.forEach((sheet, i) => {
+    entries[`xl/worksheets/sheet${i + 1}.xml`] = strToU8(sheetXml(sheet, i === 0));
+  });
+
+  return new Blob([zipSync(entries)], { type: XLSX_MIME });
+};
+
+// --- Import ---
+
+const parseXml = (files: Unzipped, path: string): Document | null => {
+  const data = files[path];
+  return data ? new DOMParser().parseFromString(strFromU8(data), 'application/xml') : null;
+};
+
+// Any namespace prefix, since some writers use x:row instead of row
+const elements = (node: Document | Element, name: string): Element[] => Array.from(node.getElementsByTagNameNS('*', name));
+
+const columnIndex = (ref: string): number => {
+  const letters = ref.match(/^[A-Z]+/i)?.[0].toUpperCase() || '';
+  let index = 0;
+  for (const char of letters) index = index * 26 + (char.charCodeAt(0) - 64);
+  return index - 1;
+};
+
+// Rich text runs are joined; phonetic guides (rPh) are not part of the value
+const textOf = (node: Element): string =>
+  elements(node, 't').filter(t => t.parentElement?.localName !== 'rPh').map(t => t.textContent || '').join('');
+
+const readSheetRows = (doc: Document, sharedStrings: string[]): string[][] => {
+  const rows: string[][] = [];
+  for (const rowNode of elements(doc, 'row')) {
+    const row: string[] = [];
+    let next = 0;
+    for (const cell of elements(rowNode, 'c')) {
+      const ref = cell.getAttribute('r');
+      const index = ref ? columnIndex(ref) : next;
+      next = index + 1;
+      const type = cell.getAttribute('t');
+      const v = elements(cell, 'v')[0]?.textContent ?? '';
+      let value: string;
+      if (type === 's') value = sharedStrings[Number(v)] ?? '';
+      else if (type === 'inlineStr') value = elements(cell, 'is').map(textOf).join('');
+      else if (type === 'b') value = v === '1' ? 'TRUE' : 'FALSE';
+      else value = v;
+      while (row.length < index) row.push('');
+      row[index] = value;
+    }
+    if (row.some(value => value !== '')) rows.push(row);
+  }
+  return rows;
+};
+
+/**
+ * Voter rows of a workbook as one table. Sheets whose headers map to voter fields are combined when they
+ * share the first one's headers (our own export: one sheet per station); otherwise the first non-empty
+ * sheet is returned for the mapping wizard.
+ */
+export const readXlsxTable = async (file: Blob): Promise<CsvTable> => {
+  const files = unzipSync(new Uint8Array(await file.arrayBuffer()));
+  const workbook = parseXml(files, 'xl/workbook.xml');
+  if (!workbook) throw new Error("Not an Excel workbook (xl/workbook.xml missing).");
+
+  const rels = parseXml(files, 'xl/_rels/workbook.xml.rels');
+  const targets = new Map(rels ? elements(rels, 'Relationship').map(r => [r.getAttribute('Id'), r.getAttribute('Target') || ''] as [string | null, string]) : []);
+  const shared = parseXml(files, 'xl/sharedStrings.xml');
+  const sharedStrings = shared ? elements(shared, 'si').map(textOf) : [];
+
+  const sheets = elements(workbook, 'sheet').map(sheet => {
+    const target = targets.get(sheet.getAttributeNS(REL_NS, 'id') || sheet.getAttribute('r:id')) || '';
+    const doc = parseXml(files, target.startsWith('/') ? target.slice(1) : `xl/${target}`);
+    return doc ? readSheetRows(doc, sharedStrings) : [];
+  }).filter(rows => rows.length >= 2);
+
+  const voterSheets = sheets.filter(rows => missingRequiredFields(autoMapColumns(rows[0])).length === 0);
+  if (voterSheets.length === 0) return rowsToTable(sheets[0] || []);
+
+  const signature = (headers: string[]) => headers.map(normalizeHeader).join('|');
+  const [first] = voterSheets;
+  const combined = voterSheets.filter(rows => signature(rows[0]) === signature(first[0])).flatMap(rows => rows.slice(1));
+  return rowsToTable([first[0], ...combined]);
+};
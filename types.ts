@@ -1,23 +1,99 @@
 export interface Voter {
+  id?: string; // Record id within a session, assigned on load; edits find the record by it since EPICs can repeat or change
   sl_no: string;
   epic_no: string;
   name_en: string;
-  name_te: string;
+  name_te: string; // Name in the roll's regional script (Telugu unless another layout profile is used)
   relative_name: string; // Father/Husband/Mother/Guardian Name
+  relative_name_te?: string; // Relative name in the regional script, when the engine reads it
   house_no: string;
   age: string;
   gender: string;
   assembly_name: string; // From Page Header
   parliament_name: string; // From Page Header
   polling_station_no: string; // From Page Header
-  photoBase64?: string; // Cropped face image
+  photoBase64?: string; // Cropped face image, inline (engine output before it is moved to the photo store)
+  hasPhoto?: boolean; // Photo blob stored in IndexedDB under the EPIC, see services/photoStore.ts
   originalPage?: number;
+  cardBox?: number[]; // Source card on originalPage as [ymin, xmin, ymax, xmax], normalized to 0-1000
+  engine?: ExtractionEngineId; // Which extraction strategy produced this record
+  epicStatus?: EpicStatus; // Result of EPIC format validation
+  epicOriginal?: string; // Raw EPIC as read, kept only when normalization changed it
+  confidence?: FieldConfidence; // Per-field extraction confidence, see services/confidenceService.ts
+  reviewed?: boolean; // Checked by an operator; leaves the review queue
   // Polling Data
   isVoted: boolean;
   votedParty: string | null;
   timestamp?: number;
 }
 
+export type EpicStatus = 'VALID' | 'CORRECTED' | 'INVALID';
+
+export type ConfidenceField = 'epic_no' | 'name_en' | 'name_te' | 'relative_name' | 'house_no' | 'age' | 'gender';
+
+// 0 (guess) to 1 (certain); fields the card does not always print are left out when empty
+export type FieldConfidence = Partial<Record<ConfidenceField, number>>;
+
+export type ExtractionEngineId = 'DIGITAL_TEXT' | 'TESSERACT' | 'GEMINI';
+
+// State roll layouts, see services/layoutProfiles.ts
+export type LayoutProfileId = 'TELANGANA_AP' | 'KARNATAKA' | 'TAMIL_NADU' | 'HINDI';
+
+export const ENGINE_LABELS: Record<ExtractionEngineId, string> = {
+  DIGITAL_TEXT: 'Digital Text',
+  TESSERACT: 'Tesseract OCR',
+  GEMINI: 'Gemini AI'
+};
+
+// Image preprocessing chosen for a page by the local OCR engine, kept for debugging
+export interface PreprocessParams {
+  method: 'OTSU' | 'SAUVOLA';
+  threshold?: number; // Global threshold (Otsu only)
+  sauvolaWindow?: number;
+  sauvolaK?: number;
+  backgroundStdDev: number; // Background unevenness that drove the method choice
+  watermarkCutoff: number; // Gray level above which pixels were treated as watermark/background
+  skewAngle: number; // Degrees; corrected when at least one search step
+  despeckledPixels: number;
+  durationMs: number;
+}
+
+/**
+ * One Gemini generateContent call; failed calls are kept with whatever usage was reported
+ */
+export interface ModelCallUsage {
+  model: string;
+  promptTokens: number;
+  outputTokens: number; // Candidates plus thinking tokens
+  ok: boolean;
+}
+
+export interface ModelUsageTotals {
+  calls: number;
+  promptTokens: number;
+  outputTokens: number;
+}
+
+// Token totals per model; cost is derived from a price table when shown
+export interface UsageTotals {
+  calls: number;
+  failedCalls: number;
+  byModel: Record<string, ModelUsageTotals>;
+}
+
+export type PageStatus = 'SUCCESS' | 'EMPTY' | 'FAILED';
+
+export interface PageReport {
+  pageNumber: number;
+  status: PageStatus;
+  voterCount: number;
+  engine: ExtractionEngineId | null;
+  error?: string; // Last error seen while extracting the page
+  preprocessing?: PreprocessParams; // Set when the Tesseract engine ran
+  cached?: boolean; // Result served from the extraction cache
+  usage?: UsageTotals; // Gemini calls made for this page
+}
+
 export interface ProcessingStatus {
   total: number;
   current: number;
@@ -38,6 +114,26 @@ export interface VoterRawData {
   parliament_name: string;
   polling_station_no: string;
   photo_box_2d?: number[]; // [ymin, xmin, ymax, xmax]
+  card_box_2d?: number[]; // Whole voter card, same convention
+  confidence?: FieldConfidence; // Self-reported by the model
+}
+
+export interface ElectorTotals {
+  male: number;
+  female: number;
+  thirdGender: number;
+  total: number;
+}
+
+// Booth-level details printed on the roll cover pages (pages 1-2)
+export interface BoothMetadata {
+  partNo: string;
+  assemblyName: string;
+  pollingStationName: string;
+  pollingStationAddress: string;
+  sections: string[]; // Section / street list of the part
+  officialTotals: ElectorTotals | null;
+  detectedProfile: LayoutProfileId | null; // Layout inferred from the state name / script on the cover
 }
 
 export interface Party {
@@ -45,6 +141,22 @@ export interface Party {
   color: string;
 }
 
+// A change made to a voter on the dashboard, kept in the session bundle
+export interface AuditEntry {
+  at: number;
+  action: 'ADD' | 'UPDATE';
+  epic_no: string;
+  changes: Record<string, { from: unknown; to: unknown }>; // Per changed field; empty for ADD
+}
+
+// File the voters on screen came from (a PDF, a CSV or a booth of a batch run)
+export interface SourceFileInfo {
+  fileName: string;
+  fileHash: string | null; // SHA-256 of the PDF, when it was hashed
+  pageCount?: number;
+  loadedAt: number;
+}
+
 export interface StoredFile {
   id: string;
   fileName: string;
@@ -54,6 +166,47 @@ export interface StoredFile {
   assembly: string;
   createdAt: string;
   notes?: string;
+  usage?: UsageTotals & { estimatedCostUsd: number };
+}
+
+// Where PDFs are converted; AUTO tries the cloud engine and falls back to local extraction
+export type ExtractionMode = 'AUTO' | 'CLOUD_ONLY' | 'LOCAL_ONLY';
+
+export type CloudHealthStatus = 'CHECKING' | 'ONLINE' | 'UNKNOWN' | 'UNAUTHORIZED' | 'OFFLINE';
+
+// Result of the cloud engine health probe, shown on the upload screen
+export interface CloudHealth {
+  status: CloudHealthStatus; // UNKNOWN: reachable, but the engine has no health route
+  checkedAt: string;
+  latencyMs?: number;
+  error?: string;
+}
+
+export type BatchItemStatus = 'QUEUED' | 'PROCESSING' | 'DONE' | 'FAILED';
+
+// One PDF of a batch upload; persisted so the queue survives a reload
+export interface BatchItem {
+  id: string; // SHA-256 of the PDF, so the same part is never queued twice
+  fileName: string;
+  status: BatchItemStatus;
+  addedAt: number;
+  boothNo?: string; // polling_station_no the results were filed under
+  voterCount?: number;
+  failedPages?: number;
+  source?: 'CLOUD' | 'LOCAL'; // Engine that produced the results
+  error?: string;
+  synced?: boolean; // Uploaded with syncFileToCloud
+  syncError?: string;
+}
+
+// Extracted voters of one polling station from a batch run
+export interface BoothResult {
+  boothNo: string;
+  itemId: string;
+  fileName: string;
+  voters: Voter[];
+  metadata: BoothMetadata | null;
+  updatedAt: number;
 }
 
 export const DEFAULT_PARTIES: Party[] = [
@@ -64,20 +217,33 @@ export const DEFAULT_PARTIES: Party[] = [
   { name: 'OTHERS', color: '#6B7280' }
 ];
 
+// The parts of PDF.js's PageViewport the app uses
+export interface PageViewport {
+  width: number;
+  height: number;
+  convertToViewportPoint: (x: number, y: number) => number[];
+}
+
+export interface PdfPage {
+  getViewport: (params: { scale: number }) => any;
+  render: (params: { canvasContext: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D; viewport: any }) => { promise: Promise<void> };
+  getTextContent: () => Promise<{ items: any[] }>;
+  cleanup: () => void; // Important for memory management
+}
+
+export interface PdfDocument {
+  numPages: number;
+  getPage: (pageNumber: number) => Promise<PdfPage>;
+}
+
 declare global {
   const pdfjsLib: {
     getDocument: (data: any) => {
-      promise: Promise<{
-        numPages: number;
-        getPage: (pageNumber: number) => Promise<{
-          getViewport: (params: { scale: number }) => any;
-          render: (params: { canvasContext: CanvasRenderingContext2D; viewport: any }) => { promise: Promise<void> };
-          cleanup: () => void; // Important for memory management
-        }>;
-      }>;
+      promise: Promise<PdfDocument>;
     };
     GlobalWorkerOptions: {
       workerSrc: string;
     };
+    PDFDataRangeTransport: new (length: number, initialData: Uint8Array | null) => any;
   };
 }
\ No newline at end of file
@@ -1,7 +1,35 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Tesseract language data shipped with the app so local OCR works offline (English plus each layout profile's script)
+const TESSDATA_LANGS = ['eng', 'tel', 'kan', 'tam', 'hin'];
+const tessdataFile = (lang: string) =>
+  path.resolve(__dirname, `node_modules/@tesseract.js-data/${lang}/4.0.0_best_int/${lang}.traineddata.gz`);
+
+// Serves /tessdata/<lang>.traineddata.gz in dev and copies the same files into the build
+const localTessdata = (): Plugin => ({
+  name: 'local-tessdata',
+  configureServer(server) {
+    server.middlewares.use('/tessdata', (req, res, next) => {
+      const match = req.url?.match(/^\/(\w+)\.traineddata\.gz$/);
+      if (!match || !TESSDATA_LANGS.includes(match[1])) return next();
+      res.setHeader('Content-Type', 'application/gzip');
+      fs.createReadStream(tessdataFile(match[1])).pipe(res);
+    });
+  },
+  generateBundle() {
+    for (const lang of TESSDATA_LANGS) {
+      this.emitFile({
+        type: 'asset',
+        fileName: `tessdata/${lang}.traineddata.gz`,
+        source: fs.readFileSync(tessdataFile(lang))
+      });
+    }
+  }
+});
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,10 +37,19 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), localTessdata()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        // LLM provider selection, see services/llmProviders.ts
+        'process.env.LLM_PROVIDER': JSON.stringify(env.LLM_PROVIDER),
+        'process.env.LLM_BASE_URL': JSON.stringify(env.LLM_BASE_URL),
+        'process.env.LLM_MODEL': JSON.stringify(env.LLM_MODEL),
+        'process.env.LLM_API_KEY': JSON.stringify(env.LLM_API_KEY),
+        'process.env.LLM_FIXTURE_URL': JSON.stringify(env.LLM_FIXTURE_URL),
+        // Cloud conversion engine, see services/apiService.ts
+        'process.env.CLOUD_ENGINE_URL': JSON.stringify(env.CLOUD_ENGINE_URL),
+        'process.env.CLOUD_TIMEOUT_MS': JSON.stringify(env.CLOUD_TIMEOUT_MS)
       },
       resolve: {
         alias: {